@@ -8,6 +8,9 @@ export {
   QueryOperator,
   type DatabaseRecord,
   type QueryFilter,
+  type QueryGroup,
+  type QueryCondition,
+  type ElementMatchOptions,
   type QuerySort,
   type QueryOptions,
   type QueryResult,
@@ -19,7 +22,33 @@ export {
   createBrowserTypedClient,
 } from './runtime/browser-typed-client.js';
 
-export { TypeSafeQueryBuilder, type FieldPaths } from './runtime/typed-query-builder.js';
+export {
+  TypeSafeQueryBuilder,
+  type FieldPaths,
+  type RelatedRecord,
+  type Projection,
+} from './runtime/typed-query-builder.js';
+export type { RelationConfig, RecordSource } from './runtime/core/relations.js';
+export { count, sum, avg, min, max } from './runtime/core/aggregation.js';
+export type {
+  AggregateSpec,
+  AggregateResult,
+  FacetResult,
+  FacetValue,
+} from './runtime/core/aggregation.js';
+export type { QueryExplanation, PlanNode } from './runtime/core/query-planner.js';
+export type { SearchOptions, SearchResult, SearchHit } from './runtime/core/text-search.js';
+export type { FuzzyOptions, FuzzyResult, FuzzyHit } from './runtime/core/fuzzy.js';
+export type { Collation } from './runtime/core/collation.js';
+export type {
+  GeoPoint,
+  GeoBox,
+  NearestOptions,
+  NearestResult,
+  NearestHit,
+} from './runtime/core/geo.js';
+export type { SuggestOptions, Suggestion } from './runtime/core/prefix.js';
+export type { FieldStats, HistogramBucket } from './runtime/core/field-stats.js';
 
 // Re-export schema generation (works in both environments)
 export { default as JSONToZodGenerator } from './jsontozod.js';
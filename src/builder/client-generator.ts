@@ -4,6 +4,21 @@ import * as path from 'path';
 export interface ClientGeneratorOptions {
   outputDir: string;
   primaryKeyField?: string;
+  collections?: CollectionInfo[]; // Generate one client per collection instead of a single client
+  verbose?: boolean; // Log progress (default: true)
+}
+
+export interface CollectionInfo {
+  name: string; // Also the collection's subdirectory
+  primaryKeyField: string;
+  totalRecords: number;
+  relations?: CollectionRelation[]; // Foreign keys that can be resolved with include()
+}
+
+export interface CollectionRelation {
+  name: string; // Property the related record(s) are attached under
+  field: string; // Foreign key field holding one ID or an array of IDs of the target
+  target: string; // Collection the IDs refer to, by its primary key
 }
 
 export class ClientGenerator {
@@ -12,6 +27,7 @@ export class ClientGenerator {
   constructor(options: ClientGeneratorOptions) {
     this.options = {
       primaryKeyField: 'id',
+      verbose: true,
       ...options,
     };
   }
@@ -20,17 +36,27 @@ export class ClientGenerator {
    * Generate a type-safe database client pre-configured with the generated types
    */
   async generateClient(): Promise<void> {
-    console.log('🎯 Generating type-safe database client...');
+    this.log('🎯 Generating type-safe database client...');
 
     // Copy browser runtime files
     await this.copyBrowserRuntimeFiles();
 
-    const clientContent = this.generateClientCode();
+    const { collections } = this.options;
+    const clientContent = collections
+      ? this.generateCollectionsClientCode(collections)
+      : this.generateClientCode();
     const clientPath = path.join(this.options.outputDir, 'client.ts');
 
     fs.writeFileSync(clientPath, clientContent);
 
-    console.log('  ✅ Generated type-safe database client');
+    if (collections) {
+      fs.writeFileSync(
+        path.join(this.options.outputDir, 'index.ts'),
+        this.generateCollectionsIndexFile(collections)
+      );
+    }
+
+    this.log('  ✅ Generated type-safe database client');
   }
 
   /**
@@ -139,9 +165,149 @@ export type DatabaseClient = typeof db;
 `;
   }
 
+  /**
+   * Generate a client exposing every collection as a typed client, e.g. db.artists.query()
+   */
+  private generateCollectionsClientCode(collections: CollectionInfo[]): string {
+    const imports = collections
+      .map(({ name }) => {
+        const typeName = this.getCollectionTypeName(name);
+        return `import { RecordSchema as ${typeName}Schema } from './${name}/schema.js';
+import type { GeneratedRecord as ${typeName}Record } from './${name}/types.js';`;
+      })
+      .join('\n');
+
+    const relationTypes = collections
+      .filter(({ relations }) => relations?.length)
+      .map(({ name, relations = [] }) => {
+        const typeName = this.getCollectionTypeName(name);
+        const properties = relations
+          .map(
+            relation =>
+              `  ${this.getPropertyKey(relation.name)}: RelatedRecord<PathValue<${typeName}Record, '${relation.field}'>, ${this.getCollectionTypeName(relation.target)}Record>;`
+          )
+          .join('\n');
+        return `\ntype ${typeName}Relations = {\n${properties}\n};`;
+      })
+      .join('');
+
+    const relationImports = relationTypes
+      ? `import type { PathValue, RelatedRecord } from './typed-query-builder.js';
+import type { RecordSource } from './core/relations.js';
+`
+      : '';
+
+    // Relation targets are resolved lazily, so collections can reference each other
+    const clients = collections
+      .map(({ name, relations = [] }) => {
+        const typeName = this.getCollectionTypeName(name);
+        if (relations.length === 0) {
+          return `  ${this.getPropertyKey(name)}: new BrowserTypedDatabaseClient<${typeName}Record, typeof ${typeName}Schema>(
+    './${name}',
+    ${typeName}Schema
+  ),`;
+        }
+
+        const relationConfigs = relations
+          .map(
+            relation =>
+              `      ${this.getPropertyKey(relation.name)}: { field: '${relation.field}', target: (): RecordSource => db${this.getPropertyAccess(relation.target)} },`
+          )
+          .join('\n');
+        return `  ${this.getPropertyKey(name)}: new BrowserTypedDatabaseClient<${typeName}Record, typeof ${typeName}Schema, ${typeName}Relations>(
+    './${name}',
+    ${typeName}Schema,
+    {
+${relationConfigs}
+    }
+  ),`;
+      })
+      .join('\n');
+
+    const recordTypes = collections
+      .map(({ name }) => `${this.getCollectionTypeName(name)}Record`)
+      .join(', ');
+
+    return `// Auto-generated database client
+// This file provides pre-configured, type-safe clients for every collection
+
+import { BrowserTypedDatabaseClient } from './browser-typed-client.js';
+${relationImports}${imports}
+${relationTypes}
+
+/**
+ * Pre-configured, type-safe clients, one per collection
+ *
+ * Usage:
+ *   import { db } from './client';
+ *
+ *   const results = await db.${collections[0].name}.query()
+ *     .where('${collections[0].primaryKeyField}').equals('...')
+ *     .exec();
+ *
+ * Each collection lives in its own subdirectory with its own schema, data and indexes.
+ * Relations declared at build time can be resolved with .include('<relation>').
+ */
+export const db = {
+${clients}
+};
+
+// Re-export types for convenience
+export type { ${recordTypes} };
+export { BrowserTypedDatabaseClient } from './browser-typed-client.js';
+export { TypeSafeQueryBuilder } from './typed-query-builder.js';
+
+export type DatabaseClient = typeof db;
+export type CollectionName = keyof typeof db;
+`;
+  }
+
+  private generateCollectionsIndexFile(collections: CollectionInfo[]): string {
+    const recordTypes = collections
+      .map(({ name }) => `${this.getCollectionTypeName(name)}Record`)
+      .join(', ');
+
+    return `// Auto-generated exports
+export { db } from './client.js';
+export type { ${recordTypes}, DatabaseClient, CollectionName } from './client.js';
+`;
+  }
+
+  /**
+   * PascalCase type name prefix for a collection, e.g. "card-sets" -> "CardSets"
+   */
+  private getCollectionTypeName(name: string): string {
+    const typeName = name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(part => part[0].toUpperCase() + part.slice(1))
+      .join('');
+
+    return /^[0-9]/.test(typeName) ? `Collection${typeName}` : typeName;
+  }
+
+  /**
+   * Property access expression for a collection on the db object
+   */
+  private getPropertyAccess(name: string): string {
+    const key = this.getPropertyKey(name);
+    return key.startsWith("'") ? `[${key}]` : `.${key}`;
+  }
+
+  private getPropertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+  }
+
   /**
    * Get the relative path from the generated client to the database directory
    */
+  private log(message: string): void {
+    if (this.options.verbose) {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+
   private getRelativeDatabasePath(): string {
     // Since the client.ts is generated in the output directory,
     // and the database files are in the same directory, use '.'
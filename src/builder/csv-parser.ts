@@ -0,0 +1,133 @@
+export interface CSVOptions {
+  delimiter?: string; // Field separator (defaults to ',' for CSV and a tab for TSV)
+  quote?: string; // Character used to quote fields
+  escape?: string; // Escapes a quote inside quoted fields (defaults to the quote itself, as in RFC 4180)
+  header?: boolean | string[]; // First row holds column names, or explicit column names
+  inferTypes?: boolean; // Coerce numbers, booleans and empty cells instead of keeping strings
+}
+
+export interface CSVRow {
+  line: number; // Line number the row starts on
+  fields: string[];
+}
+
+/**
+ * Incremental CSV/TSV tokenizer. Text is fed chunk by chunk and complete rows are
+ * emitted as soon as their terminating newline is seen, so quoted fields may span
+ * chunk boundaries and lines.
+ */
+export class CSVParser {
+  private delimiter: string;
+  private quote: string;
+  private escape: string;
+
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private quoted = false; // Current field started with a quote
+  private pendingEscape = false; // Escape character seen inside quotes
+  private lastWasCR = false;
+  private line = 1;
+  private rowLine = 1;
+
+  constructor(options: CSVOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    this.quote = options.quote ?? '"';
+    this.escape = options.escape ?? this.quote;
+
+    if (this.delimiter.length !== 1 || this.quote.length !== 1 || this.escape.length !== 1) {
+      throw new Error('CSV delimiter, quote and escape must be single characters');
+    }
+  }
+
+  /**
+   * Feed the next chunk of text, calling emit for every completed row
+   */
+  write(chunk: string, emit: (row: CSVRow) => void): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      // Treat \r\n as a single line break
+      if (this.lastWasCR && ch === '\n') {
+        this.lastWasCR = false;
+        continue;
+      }
+      this.lastWasCR = false;
+
+      if (this.inQuotes) {
+        if (this.pendingEscape) {
+          this.pendingEscape = false;
+          if (ch === this.quote || (ch === this.escape && this.escape !== this.quote)) {
+            this.field += ch;
+            continue;
+          }
+          if (this.escape === this.quote) {
+            // A lone quote closes the quoted section; handle ch as unquoted input
+            this.inQuotes = false;
+          } else {
+            this.field += this.escape + ch;
+            continue;
+          }
+        } else if (ch === this.escape) {
+          this.pendingEscape = true;
+          continue;
+        } else if (ch === this.quote) {
+          this.inQuotes = false;
+          continue;
+        } else {
+          if (ch === '\n') this.line++;
+          this.field += ch;
+          continue;
+        }
+      }
+
+      if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === '\n' || ch === '\r') {
+        this.lastWasCR = ch === '\r';
+        this.endRow(emit);
+        this.line++;
+        this.rowLine = this.line;
+      } else if (ch === this.quote && this.field === '' && !this.quoted) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else {
+        this.field += ch;
+      }
+    }
+  }
+
+  /**
+   * Signal the end of input, emitting the last row if it has no trailing newline
+   */
+  end(emit: (row: CSVRow) => void): void {
+    if (this.pendingEscape && this.escape === this.quote) {
+      // A quote right before the end of input closes the field
+      this.pendingEscape = false;
+      this.inQuotes = false;
+    }
+
+    if (this.inQuotes) {
+      throw new Error(`Unterminated quoted field starting on line ${this.rowLine}`);
+    }
+
+    this.endRow(emit);
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.quoted = false;
+  }
+
+  private endRow(emit: (row: CSVRow) => void): void {
+    const isBlank = this.fields.length === 0 && this.field === '' && !this.quoted;
+    this.endField();
+    const fields = this.fields;
+    this.fields = [];
+
+    if (!isBlank) {
+      emit({ line: this.rowLine, fields });
+    }
+  }
+}
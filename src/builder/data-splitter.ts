@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { Buffer } from 'buffer';
+import { hashRecord } from './incremental.js';
 
 export interface SplitterOptions {
   outputDir: string;
@@ -10,6 +11,8 @@ export interface SplitterOptions {
   useSubdirectories?: boolean; // Split into subdirectories for better organization
   compressionLevel?: number; // 0-9, 0 = no compression
   filenameTemplate?: string; // Template for file naming
+  previous?: SplitMetadata; // Split of the previous build, only changed files are rewritten
+  verbose?: boolean; // Log progress (default: true)
 }
 
 export interface SplitResult {
@@ -18,6 +21,15 @@ export interface SplitResult {
   totalSize: number;
   recordMap: Map<string, string>; // recordId -> filename
   metadata: SplitMetadata;
+  changes: SplitChanges;
+  changedRecordIds?: Set<unknown>; // Incremental splits: records added, updated or removed
+}
+
+export interface SplitChanges {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
 }
 
 export interface SplitMetadata {
@@ -36,11 +48,35 @@ export interface FileMetadata {
   recordCount: number;
   size: number;
   recordIds: string[];
+  recordHashes?: string[]; // Content hash of each record, used by incremental builds
   subdirectory?: string;
 }
 
+interface PreviousRecord {
+  file: FileMetadata;
+  hash?: string;
+}
+
+interface SplitState {
+  dataDir: string;
+  recordCount: number;
+  recordMap: Map<string, string>;
+  fileMetadata: FileMetadata[];
+  seenKeys: Set<unknown>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  pendingBatch: any[];
+  pendingHashes: string[];
+  nextBatchIndex: number;
+  changes: SplitChanges;
+  previousRecords: Map<unknown, PreviousRecord>; // Records of the previous build not seen yet
+  changedRecordIds: Set<unknown>; // Records added, updated or removed since the previous build
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  changedRecords: Map<unknown, { record: any; hash: string }>; // Batch mode: waiting for their batch rewrite
+}
+
 export class DataSplitter {
   private options: SplitterOptions;
+  private state?: SplitState;
 
   constructor(options: SplitterOptions) {
     this.options = {
@@ -50,6 +86,7 @@ export class DataSplitter {
       useSubdirectories: true,
       compressionLevel: 0,
       filenameTemplate: '{id}',
+      verbose: true,
       ...options,
     };
   }
@@ -59,63 +96,155 @@ export class DataSplitter {
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   splitRecords(records: any[]): SplitResult {
-    // eslint-disable-next-line no-console
-    console.log(`📂 Splitting ${records.length} records into files...`);
+    this.log(`📂 Splitting ${records.length} records into files...`);
 
     // Validate records and primary key field
     this.validateRecords(records);
 
+    this.begin();
+    records.forEach(record => this.addRecord(record));
+    return this.finish();
+  }
+
+  /**
+   * Start an incremental split. Records are then passed one at a time to addRecord()
+   * and the split is completed with finish(), so the input never has to be held in memory.
+   */
+  begin(): void {
     const dataDir = path.join(this.options.outputDir, 'data');
     if (!fs.existsSync(dataDir)) {
       fs.mkdirSync(dataDir, { recursive: true });
     }
 
+    this.state = {
+      dataDir,
+      recordCount: 0,
+      recordMap: new Map(),
+      fileMetadata: [],
+      seenKeys: new Set(),
+      pendingBatch: [],
+      pendingHashes: [],
+      nextBatchIndex: 0,
+      changes: { added: 0, updated: 0, removed: 0, unchanged: 0 },
+      previousRecords: new Map(),
+      changedRecordIds: new Set(),
+      changedRecords: new Map(),
+    };
+
+    if (this.options.previous) {
+      this.loadPrevious(this.options.previous);
+    }
+  }
+
+  /**
+   * Add a single record to an incremental split
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  addRecord(record: any): void {
+    const state = this.getState();
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     const primaryKeyField = this.options.primaryKeyField!;
-    const recordMap = new Map<string, string>();
-    const fileMetadata: FileMetadata[] = [];
-    let totalSize = 0;
 
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    if (this.options.batchSize && this.options.batchSize! > 1) {
-      // Batch mode: multiple records per file
-      const result = this.splitIntoBatches(records, dataDir, primaryKeyField);
-      result.files.forEach(file => {
-        file.recordIds.forEach(recordId => {
-          recordMap.set(recordId, file.filename);
-        });
-        fileMetadata.push(file);
-        totalSize += file.size;
-      });
-    } else {
-      // Individual mode: one record per file
-      for (let i = 0; i < records.length; i++) {
-        const record = records[i];
-        const recordId = record[primaryKeyField];
+    if (
+      typeof record !== 'object' ||
+      record === null ||
+      !Object.prototype.hasOwnProperty.call(record, primaryKeyField)
+    ) {
+      throw new Error(`All records must have a "${primaryKeyField}" field.`);
+    }
 
-        const { filename, size } = this.writeRecordFile(record, recordId, dataDir, i);
-        recordMap.set(recordId, filename);
+    const recordId = record[primaryKeyField];
+    if (state.seenKeys.has(recordId)) {
+      throw new Error(`Duplicate primary key value found: ${recordId}`);
+    }
+    state.seenKeys.add(recordId);
+
+    const hash = hashRecord(record);
+    const previous = state.previousRecords.get(recordId);
+    state.previousRecords.delete(recordId);
+    const isUnchanged = previous !== undefined && previous.hash === hash;
 
-        fileMetadata.push({
-          filename,
+    if (!isUnchanged) {
+      state.changedRecordIds.add(recordId);
+    }
+    if (previous === undefined) {
+      state.changes.added++;
+    } else if (isUnchanged) {
+      state.changes.unchanged++;
+    } else {
+      state.changes.updated++;
+    }
+
+    if (this.isBatchMode()) {
+      // Batch mode: multiple records per file. Records of the previous build stay in
+      // their batch, which is rewritten in finish() if any of its records changed.
+      if (previous === undefined) {
+        state.pendingBatch.push(record);
+        state.pendingHashes.push(hash);
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        if (state.pendingBatch.length >= this.options.batchSize!) {
+          this.flushBatch();
+        }
+      } else if (!isUnchanged) {
+        state.changedRecords.set(recordId, { record, hash });
+      }
+    } else {
+      // Individual mode: one record per file
+      const index = state.recordCount;
+
+      if (previous && isUnchanged) {
+        state.fileMetadata.push(previous.file);
+      } else {
+        const location = previous
+          ? { filename: previous.file.filename, subdirectory: previous.file.subdirectory }
+          : this.getRecordLocation(recordId, index);
+        const size = this.writeDataFile(state.dataDir, location.filename, record);
+
+        state.fileMetadata.push({
+          filename: location.filename,
           recordCount: 1,
           size,
           recordIds: [recordId],
-          subdirectory: this.options.useSubdirectories ? this.getSubdirectory(i) : undefined,
+          recordHashes: [hash],
+          subdirectory: location.subdirectory,
         });
+      }
 
-        totalSize += size;
+      state.recordMap.set(recordId, state.fileMetadata[state.fileMetadata.length - 1].filename);
 
-        if (i % 1000 === 0) {
-          // eslint-disable-next-line no-console
-          console.log(`  📄 Processed ${i + 1}/${records.length} records`);
-        }
+      if (index % 1000 === 0) {
+        this.log(`  📄 Processed ${index + 1} records`);
       }
     }
 
+    state.recordCount++;
+  }
+
+  /**
+   * Complete an incremental split and write the split metadata
+   */
+  finish(): SplitResult {
+    this.flushBatch();
+
+    const state = this.getState();
+    this.state = undefined;
+
+    if (state.recordCount === 0) {
+      throw new Error('No records to split.');
+    }
+
+    if (this.options.previous) {
+      this.applyPreviousChanges(state);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const primaryKeyField = this.options.primaryKeyField!;
+    const { fileMetadata, recordMap, changes } = state;
+    const totalSize = fileMetadata.reduce((sum, file) => sum + file.size, 0);
+
     // Generate split metadata
     const metadata: SplitMetadata = {
-      totalRecords: records.length,
+      totalRecords: state.recordCount,
       totalFiles: fileMetadata.length,
       avgFileSize: totalSize / fileMetadata.length,
       primaryKeyField,
@@ -133,110 +262,210 @@ export class DataSplitter {
       JSON.stringify(metadata, null, 2)
     );
 
-    // eslint-disable-next-line no-console
-    console.log(`✅ Split ${records.length} records into ${fileMetadata.length} files`);
-    // eslint-disable-next-line no-console
-    console.log(`   Total size: ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
-    // eslint-disable-next-line no-console
-    console.log(`   Average file size: ${(metadata.avgFileSize / 1024).toFixed(2)} KB`);
+    this.log(`✅ Split ${state.recordCount} records into ${fileMetadata.length} files`);
+    this.log(`   Total size: ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
+    this.log(`   Average file size: ${(metadata.avgFileSize / 1024).toFixed(2)} KB`);
+    if (this.options.previous) {
+      this.log(
+        `   Changes: ${changes.added} added, ${changes.updated} updated, ${changes.removed} removed, ${changes.unchanged} unchanged`
+      );
+    }
 
     return {
-      totalRecords: records.length,
+      totalRecords: state.recordCount,
       totalFiles: fileMetadata.length,
       totalSize,
       recordMap,
       metadata,
+      changes,
+      ...(this.options.previous && { changedRecordIds: state.changedRecordIds }),
     };
   }
 
   /**
-   * Split records into batch files
+   * Index the files of the previous build by record ID. In batch mode the previous
+   * batches are kept in place and new records go into batches appended after them.
    */
-  private splitIntoBatches(
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    records: any[],
-    dataDir: string,
-    primaryKeyField: string
-  ): { files: FileMetadata[] } {
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const batchSize = this.options.batchSize!;
-    const files: FileMetadata[] = [];
+  private loadPrevious(previous: SplitMetadata): void {
+    const state = this.getState();
+
+    for (const previousFile of previous.files) {
+      const file = {
+        ...previousFile,
+        recordIds: [...previousFile.recordIds],
+        recordHashes: previousFile.recordHashes ? [...previousFile.recordHashes] : undefined,
+      };
+
+      file.recordIds.forEach((recordId, i) => {
+        state.previousRecords.set(recordId, { file, hash: file.recordHashes?.[i] });
+      });
 
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = records.slice(i, Math.min(i + batchSize, records.length));
-      const batchIndex = Math.floor(i / batchSize);
+      if (this.isBatchMode()) {
+        state.fileMetadata.push(file);
+        file.recordIds.forEach(recordId => state.recordMap.set(recordId, file.filename));
 
-      const recordIds = batch.map(record => record[primaryKeyField]);
+        const match = /batch_(\d+)\.json$/.exec(file.filename);
+        if (match) {
+          state.nextBatchIndex = Math.max(state.nextBatchIndex, Number(match[1]) + 1);
+        }
+      }
+    }
+  }
 
-      const filename = this.generateBatchFilename(batchIndex);
-      const subdirectory = this.options.useSubdirectories
-        ? this.getBatchSubdirectory(batchIndex)
-        : undefined;
+  /**
+   * Remove records that are no longer in the input and rewrite batches with changed records
+   */
+  private applyPreviousChanges(state: SplitState): void {
+    const removedIds = new Set(state.previousRecords.keys());
+    state.changes.removed = removedIds.size;
+    removedIds.forEach(recordId => state.changedRecordIds.add(recordId));
+
+    if (this.isBatchMode()) {
+      state.fileMetadata = state.fileMetadata.filter(file =>
+        this.patchBatchFile(state, file, removedIds)
+      );
+      return;
+    }
 
-      const fullPath = subdirectory
-        ? path.join(dataDir, subdirectory, filename)
-        : path.join(dataDir, filename);
+    const keptFiles = new Set(state.fileMetadata.map(file => file.filename));
+    for (const { file } of state.previousRecords.values()) {
+      if (!keptFiles.has(file.filename)) {
+        fs.rmSync(path.join(state.dataDir, file.filename), { force: true });
+      }
+    }
+  }
 
-      // Create subdirectory if needed
-      if (subdirectory) {
-        const subdirPath = path.join(dataDir, subdirectory);
-        if (!fs.existsSync(subdirPath)) {
-          fs.mkdirSync(subdirPath, { recursive: true });
-        }
+  /**
+   * Rewrite a batch of the previous build if any of its records changed or were removed.
+   * Returns false when the batch ended up empty and was deleted.
+   */
+  private patchBatchFile(state: SplitState, file: FileMetadata, removedIds: Set<unknown>): boolean {
+    const isDirty = file.recordIds.some(
+      recordId => removedIds.has(recordId) || state.changedRecords.has(recordId)
+    );
+    if (!isDirty) return true;
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const primaryKeyField = this.options.primaryKeyField!;
+    const fullPath = path.join(state.dataDir, file.filename);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const previousBatch: any[] = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const batch: any[] = [];
+    const recordIds: string[] = [];
+    const recordHashes: string[] = [];
+
+    previousBatch.forEach((previousRecord, i) => {
+      const recordId = previousRecord[primaryKeyField];
+      if (removedIds.has(recordId)) {
+        state.recordMap.delete(recordId);
+        return;
       }
 
-      // Write batch file
-      const content = JSON.stringify(batch, null, 2);
-      fs.writeFileSync(fullPath, content);
+      const changed = state.changedRecords.get(recordId);
+      batch.push(changed ? changed.record : previousRecord);
+      recordIds.push(recordId);
+      recordHashes.push(changed ? changed.hash : (file.recordHashes?.[i] ?? ''));
+    });
 
-      const relativePath = subdirectory ? path.join(subdirectory, filename) : filename;
+    if (batch.length === 0) {
+      fs.rmSync(fullPath, { force: true });
+      return false;
+    }
 
-      files.push({
-        filename: relativePath,
-        recordCount: batch.length,
-        size: Buffer.byteLength(content, 'utf8'),
-        recordIds,
-        subdirectory,
-      });
+    file.size = this.writeDataFile(state.dataDir, file.filename, batch);
+    file.recordCount = batch.length;
+    file.recordIds = recordIds;
+    file.recordHashes = recordHashes;
+    return true;
+  }
+
+  private log(message: string): void {
+    if (this.options.verbose) {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+
+  private isBatchMode(): boolean {
+    return !!this.options.batchSize && this.options.batchSize > 1;
+  }
+
+  private getState(): SplitState {
+    if (!this.state) {
+      throw new Error('Split not started. Call begin() before adding records.');
     }
+    return this.state;
+  }
+
+  /**
+   * Write the pending batch (if any) to its batch file
+   */
+  private flushBatch(): void {
+    const state = this.getState();
+    if (state.pendingBatch.length === 0) return;
+
+    const batch = state.pendingBatch;
+    const recordHashes = state.pendingHashes;
+    state.pendingBatch = [];
+    state.pendingHashes = [];
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const primaryKeyField = this.options.primaryKeyField!;
+    const batchIndex = state.nextBatchIndex++;
+    const recordIds = batch.map(record => record[primaryKeyField]);
+
+    const filename = this.generateBatchFilename(batchIndex);
+    const subdirectory = this.options.useSubdirectories
+      ? this.getBatchSubdirectory(batchIndex)
+      : undefined;
+    const relativePath = subdirectory ? path.join(subdirectory, filename) : filename;
+
+    // Write batch file
+    const size = this.writeDataFile(state.dataDir, relativePath, batch);
 
-    return { files };
+    recordIds.forEach(recordId => state.recordMap.set(recordId, relativePath));
+    state.fileMetadata.push({
+      filename: relativePath,
+      recordCount: batch.length,
+      size,
+      recordIds,
+      recordHashes,
+      subdirectory,
+    });
   }
 
   /**
-   * Write a single record to file
+   * Get the path (relative to the data directory) of a single record's file
    */
-  private writeRecordFile(
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    record: any,
+  private getRecordLocation(
     recordId: unknown,
-    dataDir: string,
     index: number
-  ): { filename: string; size: number } {
+  ): { filename: string; subdirectory?: string } {
     const filename = this.generateFilename(recordId, index);
     const subdirectory = this.options.useSubdirectories ? this.getSubdirectory(index) : undefined;
 
-    const fullPath = subdirectory
-      ? path.join(dataDir, subdirectory, filename)
-      : path.join(dataDir, filename);
+    return {
+      filename: subdirectory ? path.join(subdirectory, filename) : filename,
+      subdirectory,
+    };
+  }
 
-    // Create subdirectory if needed
-    if (subdirectory) {
-      const subdirPath = path.join(dataDir, subdirectory);
-      if (!fs.existsSync(subdirPath)) {
-        fs.mkdirSync(subdirPath, { recursive: true });
-      }
+  /**
+   * Write a data file, creating its subdirectory if needed. Returns the file size.
+   */
+  private writeDataFile(dataDir: string, relativePath: string, data: unknown): number {
+    const fullPath = path.join(dataDir, relativePath);
+    const directory = path.dirname(fullPath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
     }
 
-    const content = JSON.stringify(record, null, 2);
+    const content = JSON.stringify(data, null, 2);
     fs.writeFileSync(fullPath, content);
 
-    const relativePath = subdirectory ? path.join(subdirectory, filename) : filename;
-
-    return {
-      filename: relativePath,
-      size: Buffer.byteLength(content, 'utf8'),
-    };
+    return Buffer.byteLength(content, 'utf8');
   }
 
   /**
@@ -311,9 +540,12 @@ export class DataSplitter {
           (dataObj[prop] as unknown[]).length > (dataObj[max] as unknown[]).length ? prop : max
         );
 
+        const ignored = arrayProps.filter(prop => prop !== largest);
+        const note = ignored.length > 0 ? `, ignoring ${ignored.join(', ')}` : '';
+
         // eslint-disable-next-line no-console
         console.log(
-          `📋 Using collection: ${largest} (${(dataObj[largest] as unknown[]).length} records)`
+          `📋 Using collection: ${largest} (${(dataObj[largest] as unknown[]).length} records)${note}`
         );
         return dataObj[largest] as unknown[];
       }
@@ -350,9 +582,7 @@ export class DataSplitter {
       primaryKeyValues.add(recordId);
     }
 
-    // eslint-disable-next-line no-console
-    console.log(`  ✅ Primary key field "${primaryKeyField}" is valid.`);
-    // eslint-disable-next-line no-console
-    console.log(`  ✅ All records have unique primary key values.`);
+    this.log(`  ✅ Primary key field "${primaryKeyField}" is valid.`);
+    this.log(`  ✅ All records have unique primary key values.`);
   }
 }
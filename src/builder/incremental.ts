@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * Content hash of a single record. Stored in split-metadata.json so the next
+ * incremental build can tell which records changed.
+ */
+export function hashRecord(record: unknown): string {
+  return createHash('sha1').update(JSON.stringify(record)).digest('hex');
+}
+
+/**
+ * Write a compact JSON file unless the existing file only differs in its createdAt
+ * timestamps. Returns whether the file was written.
+ */
+export function writeJSONIfChanged(filePath: string, data: unknown): boolean {
+  const content = JSON.stringify(data);
+
+  if (fs.existsSync(filePath)) {
+    try {
+      const existing = fs.readFileSync(filePath, 'utf8');
+      if (withoutTimestamps(existing) === withoutTimestamps(content)) {
+        return false;
+      }
+    } catch {
+      // Unreadable or invalid file, overwrite it
+    }
+  }
+
+  fs.writeFileSync(filePath, content);
+  return true;
+}
+
+function withoutTimestamps(json: string): string {
+  return JSON.stringify(JSON.parse(json), (key, value) =>
+    key === 'createdAt' ? undefined : value
+  );
+}
@@ -1,11 +1,57 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { writeJSONIfChanged } from './incremental.js';
+import {
+  analyze,
+  resolveAnalyzer,
+  textOf,
+  type TextAnalyzerOptions,
+  type TextIndex,
+} from '../runtime/core/text-search.js';
+import { trigramsOf, type TrigramIndex } from '../runtime/core/fuzzy.js';
+import {
+  hashPage,
+  isPagedIndex,
+  type IndexPage,
+  type IndexPaging,
+  type PagedIndex,
+} from '../runtime/core/index-pages.js';
+import { RecordBitmap } from '../runtime/core/bitmap.js';
+import {
+  DEFAULT_COLLATION,
+  foldValue,
+  type CollatedIndex,
+  type Collation,
+} from '../runtime/core/collation.js';
+import { GEOHASH_PRECISION, geohash, recordPoint, type GeoIndex } from '../runtime/core/geo.js';
+import {
+  PREFIX_KEY_LENGTH,
+  prefixKey,
+  type PrefixIndex,
+  type PrefixShard,
+} from '../runtime/core/prefix.js';
+import { computeFieldStats, type FieldStats } from '../runtime/core/field-stats.js';
+import { compareValues } from '../runtime/core/aggregation.js';
+import { getNestedValue } from '../runtime/core/projection.js';
+import { INDEX_FORMAT, indexFileName } from '../runtime/core/data-loader.js';
 
 export interface IndexOptions {
   outputDir: string;
   indexFields?: string[]; // If specified, only index these fields
-  maxIndexValues?: number; // Skip indexing fields with too many unique values
+  maxIndexValues?: number; // Split indexes of fields with more unique values into pages
+  indexPageSize?: number; // Values per page of a paged index
   compressIndexes?: boolean; // Whether to compress index files
+  incremental?: boolean; // Only rewrite index files whose content changed
+  reuseIndexes?: boolean; // Incremental builds: copy unchanged entries and page bounds of the previous build
+  textFields?: string[]; // Fields to build full-text indexes for
+  textAnalyzer?: TextAnalyzerOptions; // Tokenization of the full-text indexes
+  fuzzyFields?: string[]; // Fields to build trigram indexes for typo-tolerant matching
+  compositeIndexes?: string[][]; // Field combinations to index together, e.g. [['set', 'rarity']]
+  collatedFields?: string[]; // Fields to build indexes of case/accent-folded values for
+  collation?: Collation; // Folding of the collated indexes (default: case and accents)
+  geoFields?: string[]; // Point fields, or latitude and longitude fields joined by '+'
+  prefixFields?: string[]; // String fields to build sharded prefix indexes for autocompletion
+  verbose?: boolean; // Log the generated indexes (default: true)
 }
 
 export interface IndexEntry {
@@ -13,86 +59,262 @@ export interface IndexEntry {
   recordIds: string[];
 }
 
+// Records of an entry as written to index files
+export interface EncodedRecords {
+  count: number;
+  bitmap: string; // Serialized RecordBitmap of the records' positions in the primary key index
+}
+
+export interface EncodedEntry extends EncodedRecords {
+  value: unknown;
+}
+
+// Value type of fields whose index entries are sorted by value for range queries
+export type RangeType = 'number' | 'date';
+
 export interface IndexMetadata {
   field: string;
   type: 'primitive' | 'array' | 'nested';
+  range?: RangeType; // Entries are sorted by value (nulls last) instead of by frequency
+  paging?: IndexPaging; // Entries are split into pages listed by the index file
+  pages?: number;
   uniqueValues: number;
   totalRecords: number;
   coverage: number; // Percentage of records that have this field
   createdAt: string;
 }
 
+export interface TextIndexMetadata {
+  field: string;
+  documentCount: number; // Records with text in the field
+  uniqueTerms: number;
+}
+
+export interface CompositeIndexEntry {
+  values: unknown[]; // Value of each field, in the order of the index fields
+  recordIds: string[];
+}
+
+export interface CompositeIndexMetadata {
+  fields: string[];
+  uniqueValues: number; // Distinct value combinations
+  coverage: number; // Share of records with a single primitive value in every field
+}
+
+export interface TrigramIndexMetadata {
+  field: string;
+  uniqueValues: number;
+}
+
+export interface CollatedIndexMetadata {
+  field: string;
+  collation: Collation;
+  uniqueValues: number; // Distinct folded values
+}
+
+export interface GeoIndexMetadata {
+  field: string;
+  points: number; // Records with a valid point
+}
+
+export interface PrefixIndexMetadata {
+  field: string;
+  uniqueValues: number; // Distinct string values
+  shards: number;
+}
+
 export interface DatabaseMetadata {
   totalRecords: number;
   indexes: IndexMetadata[];
+  fieldStats: FieldStats[]; // Bounds, top values and histograms of every value field
+  textIndexes?: TextIndexMetadata[]; // Full-text indexes, in indexes/text/
+  trigramIndexes?: TrigramIndexMetadata[]; // Fuzzy match indexes, in indexes/trigram/
+  compositeIndexes?: CompositeIndexMetadata[]; // Multi-field indexes, in indexes/composite/
+  collatedIndexes?: CollatedIndexMetadata[]; // Folded value indexes, in indexes/collated/
+  geoIndexes?: GeoIndexMetadata[]; // Geohash indexes of points, in indexes/geo/
+  prefixIndexes?: PrefixIndexMetadata[]; // Sharded prefix indexes, in indexes/prefix/
   fields: string[];
   createdAt: string;
   version: string;
+  indexFormat: number; // Layout of the index entries, see INDEX_FORMAT
+}
+
+interface PreviousPrimaryIndex {
+  entries: Array<{ id: string; index: number }>;
+  metadata?: { ordinals?: number };
 }
 
 export class IndexGenerator {
-  private options: IndexOptions;
+  private options: IndexOptions & Required<Pick<IndexOptions, 'maxIndexValues' | 'indexPageSize'>>;
   private fieldStats: Map<string, Map<unknown, Set<string>>>;
   private fieldMetadata: Map<string, { count: number; type: string }>;
   private totalRecords: number;
+  private primaryKeys: string[];
+  private textStats: Map<
+    string,
+    { lengths: Map<string, number>; terms: Map<string, Map<string, number>> }
+  >;
+
+  private fuzzyValues: Map<string, Map<string, Set<string>>>;
+  private compositeStats: Map<string[], Map<string, CompositeIndexEntry>>;
+  private geoPoints: Map<string, GeoIndex['points']>;
+  private recordOrdinals?: Map<string, number>; // Record ID -> position in the primary key index
+  private ordinalCount: number; // Positions used, including those of removed records
+  private changes?: { ids: Set<unknown>; ordinals: RecordBitmap }; // Changed records, when reusing indexes
 
   constructor(options: IndexOptions) {
     this.options = {
-      maxIndexValues: 10000, // Don't index fields with more than 10k unique values
+      maxIndexValues: 10000, // Page the indexes of fields with more than 10k unique values
+      indexPageSize: 1000,
       compressIndexes: false,
+      verbose: true,
       ...options,
     };
     this.fieldStats = new Map();
     this.fieldMetadata = new Map();
     this.totalRecords = 0;
+    this.primaryKeys = [];
+    this.ordinalCount = 0;
+    this.textStats = new Map(
+      (this.options.textFields ?? []).map(field => [
+        field,
+        { lengths: new Map(), terms: new Map() },
+      ])
+    );
+    this.fuzzyValues = new Map((this.options.fuzzyFields ?? []).map(field => [field, new Map()]));
+    this.geoPoints = new Map((this.options.geoFields ?? []).map(field => [field, []]));
+    this.compositeStats = new Map();
+    for (const fields of this.options.compositeIndexes ?? []) {
+      if (fields.length < 2) {
+        throw new Error(`Composite index "${fields.join('+')}" needs at least two fields`);
+      }
+      this.compositeStats.set(fields, new Map());
+    }
   }
 
   /**
    * Generate indexes from a collection of records
    */
   async generateIndexes(records: any[], primaryKeyField = 'id'): Promise<void> {
-    console.log(`📊 Generating indexes for ${records.length} records...`);
+    this.log(`📊 Generating indexes for ${records.length} records...`);
 
-    this.totalRecords = records.length;
+    records.forEach(record => this.addRecord(record, primaryKeyField));
 
-    // Analyze records and build field statistics
-    records.forEach((record, index) => {
-      const recordId = record[primaryKeyField] || index.toString();
-      this.analyzeRecord(record, recordId, '');
-    });
+    await this.writeIndexes(primaryKeyField);
+  }
 
+  /**
+   * Analyze a single record. Used to build indexes incrementally while the
+   * input is being streamed; call writeIndexes() once every record was added.
+   */
+  addRecord(record: any, primaryKeyField = 'id'): void {
+    const recordId = record[primaryKeyField] || this.totalRecords.toString();
+    this.primaryKeys.push(recordId);
+    this.totalRecords++;
+    this.analyzeRecord(record, recordId, '');
+    this.analyzeText(record, recordId);
+    this.collectFuzzyValues(record, recordId);
+    this.collectCompositeValues(record, recordId);
+    this.collectGeoPoints(record, recordId);
+  }
+
+  /**
+   * Write index files and database metadata for all records added so far
+   *
+   * @param rangeFields Fields holding only numbers or ISO dates (see
+   *   JSONToZodGenerator.getRangeFields), whose entries are sorted by value
+   * @param changedRecordIds Records added, updated or removed since the previous build.
+   *   With reuseIndexes, entries holding none of them are copied from the previous build.
+   */
+  async writeIndexes(
+    primaryKeyField = 'id',
+    rangeFields: Record<string, RangeType> = {},
+    changedRecordIds?: Set<unknown>
+  ): Promise<void> {
     // Create output directories
     const indexesDir = path.join(this.options.outputDir, 'indexes');
     if (!fs.existsSync(indexesDir)) {
       fs.mkdirSync(indexesDir, { recursive: true });
     }
 
+    const previousFields = this.options.incremental ? this.readPreviousIndexFields() : [];
+    const previousPrimary = this.options.incremental
+      ? this.readPreviousPrimaryIndex(indexesDir)
+      : undefined;
+    this.assignOrdinals(previousPrimary);
+
+    // Positions of the changed records in the previous build: entries without any of
+    // them, and without changed records in this build, are unchanged
+    this.changes =
+      this.options.reuseIndexes && changedRecordIds && previousPrimary
+        ? {
+            ids: changedRecordIds,
+            ordinals: RecordBitmap.of(
+              previousPrimary.entries
+                .filter(entry => changedRecordIds.has(entry.id))
+                .map(entry => entry.index)
+            ),
+          }
+        : undefined;
+
     // Generate indexes for each field
     const indexMetadata: IndexMetadata[] = [];
 
     for (const [fieldPath, valueMap] of this.fieldStats) {
-      // Skip if field has too many unique values
-      if (valueMap.size > this.options.maxIndexValues!) {
-        console.log(`⚠️  Skipping index for ${fieldPath} (${valueMap.size} unique values)`);
-        continue;
-      }
-
       // Skip if only indexing specific fields
       if (this.options.indexFields && !this.options.indexFields.includes(fieldPath)) {
         continue;
       }
 
-      const metadata = await this.generateFieldIndex(fieldPath, valueMap, indexesDir);
+      const metadata = await this.generateFieldIndex(
+        fieldPath,
+        valueMap,
+        indexesDir,
+        rangeFields[fieldPath]
+      );
       indexMetadata.push(metadata);
     }
 
+    // Remove index files of fields that are no longer indexed
+    const indexedFields = new Set(indexMetadata.map(metadata => metadata.field));
+    for (const field of previousFields) {
+      if (!indexedFields.has(field)) {
+        const name = this.sanitizeFieldName(field);
+        fs.rmSync(path.join(indexesDir, `${name}.json`), { force: true });
+        fs.rmSync(path.join(indexesDir, 'pages', name), { recursive: true, force: true });
+      }
+    }
+
     // Generate primary key index (special case)
-    await this.generatePrimaryKeyIndex(records, primaryKeyField, indexesDir);
+    await this.generatePrimaryKeyIndex(primaryKeyField, indexesDir);
+
+    const textMetadata = this.generateTextIndexes(path.join(indexesDir, 'text'));
+    const trigramMetadata = this.generateTrigramIndexes(path.join(indexesDir, 'trigram'));
+    const compositeMetadata = this.generateCompositeIndexes(path.join(indexesDir, 'composite'));
+    const collatedMetadata = this.generateCollatedIndexes(path.join(indexesDir, 'collated'));
+    const geoMetadata = this.generateGeoIndexes(path.join(indexesDir, 'geo'));
+    const prefixMetadata = this.generatePrefixIndexes(path.join(indexesDir, 'prefix'));
 
     // Generate database metadata
-    await this.generateDatabaseMetadata(indexMetadata);
+    await this.generateDatabaseMetadata(indexMetadata, this.collectFieldStats(rangeFields), {
+      textIndexes: textMetadata,
+      trigramIndexes: trigramMetadata,
+      compositeIndexes: compositeMetadata,
+      collatedIndexes: collatedMetadata,
+      geoIndexes: geoMetadata,
+      prefixIndexes: prefixMetadata,
+    });
 
-    console.log(`✅ Generated ${indexMetadata.length + 1} indexes in ${indexesDir}/`);
+    const indexCount =
+      indexMetadata.length +
+      textMetadata.length +
+      trigramMetadata.length +
+      compositeMetadata.length +
+      collatedMetadata.length +
+      geoMetadata.length +
+      prefixMetadata.length +
+      1;
+    this.log(`✅ Generated ${indexCount} indexes in ${indexesDir}/`);
   }
 
   /**
@@ -104,21 +326,22 @@ export class IndexGenerator {
     for (const [key, value] of Object.entries(record)) {
       const fieldPath = prefix ? `${prefix}.${key}` : key;
 
-      if (!this.fieldStats.has(fieldPath)) {
-        this.fieldStats.set(fieldPath, new Map());
+      let stats = this.fieldStats.get(fieldPath);
+      if (!stats) {
+        stats = new Map();
+        this.fieldStats.set(fieldPath, stats);
       }
 
-      if (!this.fieldMetadata.has(fieldPath)) {
-        this.fieldMetadata.set(fieldPath, { count: 0, type: 'primitive' });
+      let metadata = this.fieldMetadata.get(fieldPath);
+      if (!metadata) {
+        metadata = { count: 0, type: 'primitive' };
+        this.fieldMetadata.set(fieldPath, metadata);
       }
-
-      const stats = this.fieldStats.get(fieldPath)!;
-      const metadata = this.fieldMetadata.get(fieldPath)!;
       metadata.count++;
 
       if (value === null || value === undefined) {
         this.addToIndex(stats, null, recordId);
-        return;
+        continue;
       }
 
       if (Array.isArray(value)) {
@@ -147,14 +370,90 @@ export class IndexGenerator {
     }
   }
 
+  /**
+   * Count the terms of the full-text indexed fields of a record
+   */
+  private analyzeText(record: unknown, recordId: string): void {
+    const analyzer = resolveAnalyzer(this.options.textAnalyzer);
+
+    for (const [field, stats] of this.textStats) {
+      const text = textOf(getNestedValue(record, field));
+      if (text === null) continue;
+
+      const terms = analyze(text, analyzer);
+      stats.lengths.set(recordId, terms.length);
+      for (const term of terms) {
+        let frequencies = stats.terms.get(term);
+        if (!frequencies) {
+          frequencies = new Map();
+          stats.terms.set(term, frequencies);
+        }
+        frequencies.set(recordId, (frequencies.get(recordId) ?? 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Collect the string values of the fuzzy matched fields of a record
+   */
+  private collectFuzzyValues(record: unknown, recordId: string): void {
+    for (const [field, values] of this.fuzzyValues) {
+      const value = getNestedValue(record, field);
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (typeof item !== 'string' || item.trim() === '') continue;
+
+        let recordIds = values.get(item);
+        if (!recordIds) {
+          recordIds = new Set();
+          values.set(item, recordIds);
+        }
+        recordIds.add(recordId);
+      }
+    }
+  }
+
+  /**
+   * Group a record under the value combination of each composite index. Records with
+   * a missing, null, array or object value in one of the fields are left out.
+   */
+  private collectCompositeValues(record: unknown, recordId: string): void {
+    for (const [fields, entries] of this.compositeStats) {
+      const values = fields.map(field => getNestedValue(record, field));
+      if (!values.every(value => value !== null && this.isPrimitive(value))) continue;
+
+      const key = JSON.stringify(values);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { values, recordIds: [] };
+        entries.set(key, entry);
+      }
+      entry.recordIds.push(recordId);
+    }
+  }
+
+  /**
+   * Collect the point of each geo field of a record. Records without a valid point
+   * are left out.
+   */
+  private collectGeoPoints(record: unknown, recordId: string): void {
+    for (const [field, points] of this.geoPoints) {
+      const point = recordPoint(record, field);
+      if (point) {
+        points.push([geohash(point), point.lat, point.lng, recordId]);
+      }
+    }
+  }
+
   /**
    * Add a value to the index for a specific record
    */
   private addToIndex(stats: Map<unknown, Set<string>>, value: unknown, recordId: string): void {
-    if (!stats.has(value)) {
-      stats.set(value, new Set());
+    let recordIds = stats.get(value);
+    if (!recordIds) {
+      recordIds = new Set();
+      stats.set(value, recordIds);
     }
-    stats.get(value)!.add(recordId);
+    recordIds.add(recordId);
   }
 
   /**
@@ -163,7 +462,8 @@ export class IndexGenerator {
   private async generateFieldIndex(
     fieldPath: string,
     valueMap: Map<unknown, Set<string>>,
-    indexesDir: string
+    indexesDir: string,
+    rangeType?: RangeType
   ): Promise<IndexMetadata> {
     const indexEntries: IndexEntry[] = [];
 
@@ -174,83 +474,764 @@ export class IndexGenerator {
       });
     }
 
-    // Sort by number of records (most common values first)
-    indexEntries.sort((a, b) => b.recordIds.length - a.recordIds.length);
+    // Range indexes of single values are sorted by value so lookups can binary search;
+    // others by number of records (most common values first)
+    const type = (this.fieldMetadata.get(fieldPath)?.type as IndexMetadata['type']) || 'primitive';
+    const range = type === 'primitive' ? rangeType : undefined;
+    if (range) {
+      indexEntries.sort((a, b) => compareValues(a.value, b.value));
+    } else {
+      indexEntries.sort((a, b) => b.recordIds.length - a.recordIds.length);
+    }
 
-    const indexData = {
-      field: fieldPath,
-      entries: indexEntries,
-      metadata: {
-        uniqueValues: indexEntries.length,
-        totalRecords: this.totalRecords,
-        coverage: (this.fieldMetadata.get(fieldPath)?.count || 0) / this.totalRecords,
-        createdAt: new Date().toISOString(),
-      },
+    // Record totals live in metadata.json only, so removing a record does not change
+    // the index files of fields it had no value in
+    const metadata = {
+      uniqueValues: indexEntries.length,
+      createdAt: new Date().toISOString(),
     };
 
-    // Write index file
+    // Fields with too many values for one file get a header listing pages of entries
     const filename = `${this.sanitizeFieldName(fieldPath)}.json`;
     const filepath = path.join(indexesDir, filename);
-    fs.writeFileSync(filepath, JSON.stringify(indexData, null, 2));
+    const pagesDir = path.join(indexesDir, 'pages', this.sanitizeFieldName(fieldPath));
+    const paged = indexEntries.length > this.options.maxIndexValues;
+
+    // Entries whose records did not change are copied from the previous build, and an
+    // index without changed entries is left as it is
+    const previous = this.readPreviousIndex(filepath, pagesDir);
+    const unchanged = this.unchangedEntries(previous?.entries ?? [], entry =>
+      JSON.stringify(entry.value)
+    );
+    const reused = (entry: IndexEntry) =>
+      this.reuseEntry(unchanged, JSON.stringify(entry.value), entry.recordIds);
+    const encode = (entry: IndexEntry) => reused(entry) ?? this.encodeEntry(entry);
+    const untouched =
+      previous !== null &&
+      !!previous.header === paged &&
+      previous.entries.length === indexEntries.length &&
+      indexEntries.every(entry => reused(entry) !== undefined);
+
+    let indexData: PagedIndex | { field: string; entries: EncodedEntry[]; metadata: object };
+    if (untouched && previous.header) {
+      indexData = previous.header;
+    } else if (paged) {
+      indexData = this.writeIndexPages(
+        fieldPath,
+        indexEntries,
+        pagesDir,
+        metadata,
+        previous?.header ?? null,
+        encode
+      );
+    } else {
+      indexData = { field: fieldPath, entries: indexEntries.map(encode), metadata };
+      fs.rmSync(pagesDir, { recursive: true, force: true });
+    }
 
-    console.log(`  📝 Generated index for ${fieldPath} (${indexEntries.length} unique values)`);
+    // Write index file
+    if (!untouched && this.writeIndexFile(filepath, indexData)) {
+      this.log(
+        paged
+          ? `  📝 Generated paged index for ${fieldPath} (${indexEntries.length} unique values)`
+          : `  📝 Generated index for ${fieldPath} (${indexEntries.length} unique values)`
+      );
+    }
 
     return {
       field: fieldPath,
-      type: (this.fieldMetadata.get(fieldPath)?.type as any) || 'primitive',
+      type,
+      ...(range && { range }),
+      ...('pages' in indexData && {
+        paging: indexData.paging,
+        pages: indexData.pages.length,
+      }),
       uniqueValues: indexEntries.length,
       totalRecords: this.totalRecords,
-      coverage: indexData.metadata.coverage,
-      createdAt: indexData.metadata.createdAt,
+      coverage: (this.fieldMetadata.get(fieldPath)?.count || 0) / this.totalRecords,
+      createdAt: metadata.createdAt,
     };
   }
 
+  /**
+   * Split the entries of an index into page files and return the index header. Values
+   * of a single type are paged in value order, so lookups can select pages by their
+   * value range; mixed types are paged by hash, for equality lookups.
+   *
+   * Given the previous build's header, pages keep their value ranges (or the hash page
+   * count) so that only the pages holding changed entries are rewritten.
+   */
+  private writeIndexPages(
+    fieldPath: string,
+    entries: IndexEntry[],
+    pagesDir: string,
+    metadata: PagedIndex['metadata'],
+    previous: PagedIndex | null = null,
+    encode: (entry: IndexEntry) => EncodedEntry = entry => this.encodeEntry(entry)
+  ): PagedIndex {
+    const pageSize = this.options.indexPageSize;
+    const values = entries.filter(entry => entry.value !== null);
+    const nullEntry = entries.find(entry => entry.value === null);
+    const types = new Set(values.map(entry => typeof entry.value));
+    const paging: IndexPaging = types.size <= 1 ? 'range' : 'hash';
+
+    let pageEntries: IndexEntry[][];
+    if (paging === 'range') {
+      values.sort((a, b) => compareValues(a.value, b.value));
+      const bounds = previous?.paging === 'range' ? this.previousPageBounds(previous, values) : [];
+      pageEntries =
+        bounds.length > 0 ? this.splitAtBounds(values, bounds, pageSize) : chunk(values, pageSize);
+      // Null values get a page of their own, after the others
+      if (nullEntry) {
+        pageEntries.push([nullEntry]);
+      }
+    } else {
+      // Keep the previous page count while pages stay within half to twice the page size
+      const previousCount = previous?.paging === 'hash' ? previous.pages.length : 0;
+      const pageCount =
+        previousCount > 0 &&
+        entries.length >= (previousCount * pageSize) / 2 &&
+        entries.length <= previousCount * pageSize * 2
+          ? previousCount
+          : Math.ceil(entries.length / pageSize);
+      pageEntries = Array.from({ length: pageCount }, () => []);
+      for (const entry of entries) {
+        pageEntries[hashPage(entry.value, pageCount)].push(entry);
+      }
+    }
+
+    if (!fs.existsSync(pagesDir)) {
+      fs.mkdirSync(pagesDir, { recursive: true });
+    }
+    const filenames = new Set<string>();
+    const pages: IndexPage[] = pageEntries.map((page, i) => {
+      const filename = `${i}.json`;
+      filenames.add(filename);
+      this.writeIndexFile(path.join(pagesDir, filename), {
+        field: fieldPath,
+        page: i,
+        entries: page.map(encode),
+      });
+
+      return {
+        ...(paging === 'range' && { min: page[0]?.value, max: page[page.length - 1]?.value }),
+        values: page.length,
+        records: page.reduce((sum, entry) => sum + entry.recordIds.length, 0),
+      };
+    });
+
+    // Remove the pages of a previous build that had more of them
+    for (const file of fs.readdirSync(pagesDir)) {
+      if (!filenames.has(file)) {
+        fs.rmSync(path.join(pagesDir, file), { force: true });
+      }
+    }
+
+    return { field: fieldPath, paging, pages, metadata };
+  }
+
+  /**
+   * Smallest values of the previous build's range pages after the first, at which the
+   * values are split again. Empty when the values changed type.
+   */
+  private previousPageBounds(previous: PagedIndex, values: IndexEntry[]): unknown[] {
+    const bounds = previous.pages
+      .map(page => page.min)
+      .filter(min => min !== null && min !== undefined)
+      .slice(1);
+    const type = typeof values[0]?.value;
+    return bounds.every(bound => typeof bound === type) ? bounds : [];
+  }
+
+  /**
+   * Split values sorted ascending into pages at the given bounds. Pages that grew past
+   * twice the page size are split again and pages left empty are dropped, which renumbers
+   * the pages after them.
+   */
+  private splitAtBounds(values: IndexEntry[], bounds: unknown[], pageSize: number): IndexEntry[][] {
+    const pages: IndexEntry[][] = [[]];
+    for (const entry of values) {
+      while (
+        pages.length <= bounds.length &&
+        compareValues(entry.value, bounds[pages.length - 1]) >= 0
+      ) {
+        pages.push([]);
+      }
+      pages[pages.length - 1].push(entry);
+    }
+    return pages
+      .filter(page => page.length > 0)
+      .flatMap(page => (page.length > pageSize * 2 ? chunk(page, pageSize) : [page]));
+  }
+
+  /**
+   * Write a full-text index per text field, holding the term frequencies and lengths
+   * of each record for BM25 ranking
+   */
+  private generateTextIndexes(textDir: string): TextIndexMetadata[] {
+    const analyzer = resolveAnalyzer(this.options.textAnalyzer);
+    const filenames = new Set<string>();
+    const textMetadata: TextIndexMetadata[] = [];
+
+    for (const [field, stats] of this.textStats) {
+      // Fields without text in any record (e.g. of another collection) get no index
+      if (stats.lengths.size === 0) continue;
+
+      if (!fs.existsSync(textDir)) {
+        fs.mkdirSync(textDir, { recursive: true });
+      }
+
+      const lengths = Array.from(stats.lengths.values());
+      const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+      const terms: TextIndex['terms'] = {};
+      const sortedTerms = Array.from(stats.terms).sort(([a], [b]) => compareValues(a, b));
+      for (const [term, frequencies] of sortedTerms) {
+        terms[term] = Array.from(frequencies);
+      }
+
+      const indexData: TextIndex = {
+        field,
+        analyzer,
+        documentCount: lengths.length,
+        averageLength: lengths.length > 0 ? totalLength / lengths.length : 0,
+        lengths: Object.fromEntries(stats.lengths),
+        terms,
+      };
+
+      const filename = `${this.sanitizeFieldName(field)}.json`;
+      filenames.add(filename);
+      if (this.writeIndexFile(path.join(textDir, filename), indexData)) {
+        this.log(`  🔎 Generated full-text index for ${field} (${stats.terms.size} unique terms)`);
+      }
+      textMetadata.push({
+        field,
+        documentCount: indexData.documentCount,
+        uniqueTerms: stats.terms.size,
+      });
+    }
+
+    this.removeStaleFiles(textDir, filenames);
+    return textMetadata;
+  }
+
+  /**
+   * Write a trigram index per fuzzy field, mapping each trigram to the distinct values
+   * containing it, so misspelled values can be found without scanning every record
+   */
+  private generateTrigramIndexes(trigramDir: string): TrigramIndexMetadata[] {
+    const filenames = new Set<string>();
+    const trigramMetadata: TrigramIndexMetadata[] = [];
+
+    for (const [field, valueMap] of this.fuzzyValues) {
+      if (valueMap.size === 0) continue;
+
+      if (!fs.existsSync(trigramDir)) {
+        fs.mkdirSync(trigramDir, { recursive: true });
+      }
+
+      const sortedValues = Array.from(valueMap).sort(([a], [b]) => compareValues(a, b));
+      const values = sortedValues.map(([value]) => value);
+      const trigrams: TrigramIndex['trigrams'] = {};
+      values.forEach((value, position) => {
+        for (const trigram of trigramsOf(value)) {
+          (trigrams[trigram] ??= []).push(position);
+        }
+      });
+
+      const indexData: TrigramIndex = {
+        field,
+        values,
+        recordIds: sortedValues.map(([, recordIds]) => Array.from(recordIds).sort()),
+        trigrams,
+      };
+
+      const filename = `${this.sanitizeFieldName(field)}.json`;
+      filenames.add(filename);
+      if (this.writeIndexFile(path.join(trigramDir, filename), indexData)) {
+        this.log(`  🔤 Generated trigram index for ${field} (${values.length} unique values)`);
+      }
+      trigramMetadata.push({ field, uniqueValues: values.length });
+    }
+
+    this.removeStaleFiles(trigramDir, filenames);
+    return trigramMetadata;
+  }
+
+  /**
+   * Write an index per composite index, with the records of each value combination, so
+   * equality filters on all of its fields are answered by a single lookup
+   */
+  private generateCompositeIndexes(compositeDir: string): CompositeIndexMetadata[] {
+    const filenames = new Set<string>();
+    const compositeMetadata: CompositeIndexMetadata[] = [];
+
+    for (const [fields, entryMap] of this.compositeStats) {
+      if (!fs.existsSync(compositeDir)) {
+        fs.mkdirSync(compositeDir, { recursive: true });
+      }
+
+      const name = fields.join('+');
+      const filename = `${fields.map(field => this.sanitizeFieldName(field)).join('+')}.json`;
+      const filepath = path.join(compositeDir, filename);
+      filenames.add(filename);
+
+      // Entries whose records did not change are copied from the previous build
+      const previous = this.readPreviousIndex<{ values: unknown[] } & EncodedRecords>(filepath);
+      const unchanged = this.unchangedEntries(previous?.entries ?? [], entry =>
+        JSON.stringify(entry.values)
+      );
+      let untouched = previous !== null && previous.entries.length === entryMap.size;
+      const entries = Array.from(entryMap.values(), entry => {
+        const reused = this.reuseEntry(unchanged, JSON.stringify(entry.values), entry.recordIds);
+        untouched &&= reused !== undefined;
+        return reused ?? { values: entry.values, ...this.encodeRecords(entry.recordIds) };
+      });
+      entries.sort((a, b) => b.count - a.count);
+
+      const indexedRecords = entries.reduce((sum, entry) => sum + entry.count, 0);
+      const indexData = {
+        fields,
+        entries,
+        metadata: {
+          uniqueValues: entries.length,
+          createdAt: new Date().toISOString(),
+        },
+      };
+
+      if (!untouched && this.writeIndexFile(filepath, indexData)) {
+        this.log(`  🧩 Generated composite index for ${name} (${entries.length} combinations)`);
+      }
+      compositeMetadata.push({
+        fields,
+        uniqueValues: entries.length,
+        coverage: this.totalRecords > 0 ? indexedRecords / this.totalRecords : 0,
+      });
+    }
+
+    this.removeStaleFiles(compositeDir, filenames);
+    return compositeMetadata;
+  }
+
+  /**
+   * Write an index per collated field, merging the records of values that fold to the
+   * same key (e.g. "José", "jose" and "JOSE"), so collated filters read folded keys
+   * instead of folding every value of the field index
+   */
+  private generateCollatedIndexes(collatedDir: string): CollatedIndexMetadata[] {
+    const filenames = new Set<string>();
+    const collatedMetadata: CollatedIndexMetadata[] = [];
+    const collation = this.options.collation ?? DEFAULT_COLLATION;
+
+    for (const field of this.options.collatedFields ?? []) {
+      const valueMap = this.fieldStats.get(field);
+      if (!valueMap) continue;
+
+      if (!fs.existsSync(collatedDir)) {
+        fs.mkdirSync(collatedDir, { recursive: true });
+      }
+
+      const folded = new Map<unknown, string[]>();
+      for (const [value, recordIds] of valueMap) {
+        const key = foldValue(value, collation);
+        const foldedIds = folded.get(key) ?? [];
+        foldedIds.push(...recordIds);
+        folded.set(key, foldedIds);
+      }
+
+      const entries = Array.from(folded, ([value, recordIds]) =>
+        this.encodeEntry({ value, recordIds })
+      );
+      entries.sort((a, b) => b.count - a.count);
+
+      const indexData: CollatedIndex & { metadata: { createdAt: string } } = {
+        field,
+        collation,
+        entries,
+        metadata: {
+          uniqueValues: entries.length,
+          createdAt: new Date().toISOString(),
+        },
+      };
+
+      const filename = `${this.sanitizeFieldName(field)}.json`;
+      filenames.add(filename);
+      if (this.writeIndexFile(path.join(collatedDir, filename), indexData)) {
+        this.log(`  🔡 Generated collated index for ${field} (${entries.length} folded values)`);
+      }
+      collatedMetadata.push({ field, collation, uniqueValues: entries.length });
+    }
+
+    this.removeStaleFiles(collatedDir, filenames);
+    return collatedMetadata;
+  }
+
+  /**
+   * Write an index per geo field listing the point of every record in geohash order, so
+   * the points of an area are read from the few runs of geohashes covering it
+   */
+  private generateGeoIndexes(geoDir: string): GeoIndexMetadata[] {
+    const filenames = new Set<string>();
+    const geoMetadata: GeoIndexMetadata[] = [];
+
+    for (const [field, points] of this.geoPoints) {
+      if (!fs.existsSync(geoDir)) {
+        fs.mkdirSync(geoDir, { recursive: true });
+      }
+
+      points.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+      const indexData: GeoIndex = { field, precision: GEOHASH_PRECISION, points };
+
+      const filename = `${field
+        .split('+')
+        .map(part => this.sanitizeFieldName(part))
+        .join('+')}.json`;
+      filenames.add(filename);
+      if (this.writeIndexFile(path.join(geoDir, filename), indexData)) {
+        this.log(`  🌍 Generated geo index for ${field} (${points.length} points)`);
+      }
+      geoMetadata.push({ field, points: points.length });
+    }
+
+    this.removeStaleFiles(geoDir, filenames);
+    return geoMetadata;
+  }
+
+  /**
+   * Write a prefix index per prefix field: a header listing shards of the field's string
+   * values grouped by their first characters, and a file per shard sorted by value, so
+   * completions of a prefix only read the shards it can fall in
+   */
+  private generatePrefixIndexes(prefixDir: string): PrefixIndexMetadata[] {
+    const filenames = new Set<string>();
+    const prefixMetadata: PrefixIndexMetadata[] = [];
+
+    for (const field of this.options.prefixFields ?? []) {
+      const valueMap = this.fieldStats.get(field);
+      if (!valueMap) continue;
+
+      const shardEntries = new Map<string, IndexEntry[]>();
+      for (const [value, recordIds] of valueMap) {
+        if (typeof value !== 'string') continue;
+
+        const key = prefixKey(value);
+        const entries = shardEntries.get(key) ?? [];
+        entries.push({ value, recordIds: Array.from(recordIds).sort() });
+        shardEntries.set(key, entries);
+      }
+      // Fields without string values (e.g. of another collection) get no index
+      if (shardEntries.size === 0) continue;
+
+      const name = this.sanitizeFieldName(field);
+      const shardDir = path.join(prefixDir, name);
+      if (!fs.existsSync(shardDir)) {
+        fs.mkdirSync(shardDir, { recursive: true });
+      }
+
+      const shardFiles = new Set<string>();
+      const sortedShards = Array.from(shardEntries).sort(([a], [b]) => compareValues(a, b));
+      const shards: PrefixShard[] = sortedShards.map(([key, entries], i) => {
+        entries.sort((a, b) => compareValues(a.value, b.value));
+
+        const filename = `${i}.json`;
+        shardFiles.add(filename);
+        this.writeIndexFile(path.join(shardDir, filename), {
+          field,
+          shard: i,
+          entries: entries.map(entry => this.encodeEntry(entry)),
+        });
+        return {
+          key,
+          values: entries.length,
+          records: entries.reduce((sum, entry) => sum + entry.recordIds.length, 0),
+        };
+      });
+
+      // Remove the shards of a previous build that had more of them
+      for (const file of fs.readdirSync(shardDir)) {
+        if (!shardFiles.has(file)) {
+          fs.rmSync(path.join(shardDir, file), { force: true });
+        }
+      }
+
+      const uniqueValues = shards.reduce((sum, shard) => sum + shard.values, 0);
+      const indexData: PrefixIndex & { metadata: { createdAt: string } } = {
+        field,
+        keyLength: PREFIX_KEY_LENGTH,
+        shards,
+        metadata: {
+          uniqueValues,
+          createdAt: new Date().toISOString(),
+        },
+      };
+
+      filenames.add(`${name}.json`);
+      filenames.add(name);
+      if (this.writeIndexFile(path.join(prefixDir, `${name}.json`), indexData)) {
+        this.log(
+          `  🔤 Generated prefix index for ${field} (${uniqueValues} values in ${shards.length} shards)`
+        );
+      }
+      prefixMetadata.push({ field, uniqueValues, shards: shards.length });
+    }
+
+    this.removeStaleFiles(prefixDir, filenames);
+    return prefixMetadata;
+  }
+
+  /**
+   * Statistics of every field holding values; nested objects and arrays of objects are
+   * described by the statistics of their own fields
+   */
+  private collectFieldStats(rangeFields: Record<string, RangeType>): FieldStats[] {
+    const fieldStats: FieldStats[] = [];
+    for (const [field, valueMap] of this.fieldStats) {
+      if (valueMap.size === 0 || this.fieldMetadata.get(field)?.type === 'nested') continue;
+
+      // Records with a value, counted once for arrays with several elements
+      const withValue = new Set<string>();
+      const valueCounts: Array<[unknown, number]> = [];
+      for (const [value, recordIds] of valueMap) {
+        valueCounts.push([value, recordIds.size]);
+        if (value !== null) {
+          recordIds.forEach(id => withValue.add(id));
+        }
+      }
+
+      fieldStats.push(
+        computeFieldStats(
+          field,
+          valueCounts,
+          withValue.size,
+          this.totalRecords,
+          rangeFields[field] === 'date'
+        )
+      );
+    }
+    return fieldStats.sort((a, b) => (a.field < b.field ? -1 : a.field > b.field ? 1 : 0));
+  }
+
+  /**
+   * An index entry as written to index files, with its records as a bitmap
+   */
+  private encodeEntry({ value, recordIds }: IndexEntry): EncodedEntry {
+    return { value, ...this.encodeRecords(recordIds) };
+  }
+
+  private encodeRecords(recordIds: string[]): EncodedRecords {
+    const bitmap = RecordBitmap.of(recordIds.map(id => this.ordinalOf(id)));
+    return { count: bitmap.size, bitmap: bitmap.serialize() };
+  }
+
+  /**
+   * Entries of the previous build's index holding none of the changed records, by key.
+   * Empty unless the previous indexes are reused.
+   */
+  private unchangedEntries<E extends EncodedRecords>(
+    entries: E[],
+    key: (entry: E) => string
+  ): Map<string, E> {
+    const unchanged = new Map<string, E>();
+    if (!this.changes) return unchanged;
+
+    for (const entry of entries) {
+      const bitmap = RecordBitmap.deserialize(entry.bitmap);
+      if (bitmap.and(this.changes.ordinals).size === 0) {
+        unchanged.set(key(entry), entry);
+      }
+    }
+    return unchanged;
+  }
+
+  /**
+   * The previous build's entry for a key, when neither it nor the records now holding
+   * the key changed
+   */
+  private reuseEntry<E>(
+    unchanged: Map<string, E>,
+    key: string,
+    recordIds: string[]
+  ): E | undefined {
+    const entry = unchanged.get(key);
+    const changed = this.changes?.ids;
+    return entry && changed && !recordIds.some(id => changed.has(id)) ? entry : undefined;
+  }
+
+  /**
+   * Remove the index files of fields that are no longer configured (incremental builds)
+   */
+  private removeStaleFiles(dir: string, filenames: Set<string>): void {
+    if (!this.options.incremental || !fs.existsSync(dir)) return;
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!filenames.has(file)) {
+        fs.rmSync(path.join(dir, file), { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Give each record its position in the primary key index. Incremental builds keep the
+   * positions of the previous build and append new records after them; positions of
+   * removed records stay unused, so index entries of other records keep their bitmaps.
+   */
+  private assignOrdinals(previous?: PreviousPrimaryIndex): void {
+    const ordinals = new Map<string, number>();
+    let count = 0;
+
+    if (previous) {
+      const recordIds = new Set(this.primaryKeys);
+      for (const { id, index } of previous.entries) {
+        if (recordIds.has(id)) {
+          ordinals.set(id, index);
+        }
+        count = Math.max(count, index + 1);
+      }
+      count = Math.max(count, previous.metadata?.ordinals ?? 0);
+    }
+
+    for (const id of this.primaryKeys) {
+      if (!ordinals.has(id)) {
+        ordinals.set(id, count++);
+      }
+    }
+
+    this.recordOrdinals = ordinals;
+    this.ordinalCount = count;
+  }
+
+  /**
+   * Position of a record in the primary key index, assigned by assignOrdinals()
+   */
+  private ordinalOf(recordId: string): number {
+    const ordinal = this.recordOrdinals?.get(recordId);
+    if (ordinal === undefined) {
+      throw new Error(`Record "${recordId}" has no position in the primary key index`);
+    }
+    return ordinal;
+  }
+
   /**
    * Generate primary key index for fast record lookup
    */
   private async generatePrimaryKeyIndex(
-    records: any[],
     primaryKeyField: string,
     indexesDir: string
   ): Promise<void> {
-    const primaryIndex = records.map((record, index) => ({
-      id: record[primaryKeyField] || index.toString(),
-      index,
-    }));
+    if (!this.recordOrdinals) {
+      throw new Error('Record positions must be assigned before writing the primary key index');
+    }
+    const primaryIndex = Array.from(this.recordOrdinals, ([id, index]) => ({ id, index })).sort(
+      (a, b) => a.index - b.index
+    );
 
     const indexData = {
       field: primaryKeyField,
       type: 'primary',
       entries: primaryIndex,
       metadata: {
-        totalRecords: records.length,
+        totalRecords: this.totalRecords,
+        ordinals: this.ordinalCount,
         createdAt: new Date().toISOString(),
       },
     };
 
-    fs.writeFileSync(path.join(indexesDir, '_primary.json'), JSON.stringify(indexData, null, 2));
-
-    console.log(`  🔑 Generated primary key index for ${primaryKeyField}`);
+    if (this.writeIndexFile(path.join(indexesDir, '_primary.json'), indexData)) {
+      this.log(`  🔑 Generated primary key index for ${primaryKeyField}`);
+    }
   }
 
   /**
    * Generate database metadata file
    */
-  private async generateDatabaseMetadata(indexMetadata: IndexMetadata[]): Promise<void> {
+  private async generateDatabaseMetadata(
+    indexMetadata: IndexMetadata[],
+    fieldStats: FieldStats[],
+    additionalIndexes: Pick<
+      DatabaseMetadata,
+      | 'textIndexes'
+      | 'trigramIndexes'
+      | 'compositeIndexes'
+      | 'collatedIndexes'
+      | 'geoIndexes'
+      | 'prefixIndexes'
+    >
+  ): Promise<void> {
     const metadata: DatabaseMetadata = {
       totalRecords: this.totalRecords,
       indexes: indexMetadata,
+      fieldStats,
+      // Index types that were not configured are left out
+      ...Object.fromEntries(
+        Object.entries(additionalIndexes).filter(([, indexes]) => indexes.length > 0)
+      ),
       fields: Array.from(this.fieldStats.keys()).sort(),
       createdAt: new Date().toISOString(),
       version: '1.0.0',
+      indexFormat: INDEX_FORMAT,
     };
 
-    fs.writeFileSync(
-      path.join(this.options.outputDir, 'metadata.json'),
-      JSON.stringify(metadata, null, 2)
-    );
+    if (this.writeIndexFile(path.join(this.options.outputDir, 'metadata.json'), metadata)) {
+      this.log(`  📋 Generated database metadata`);
+    }
+  }
+
+  /**
+   * Write an index or metadata file as compact JSON. Incremental builds skip files
+   * whose content did not change. Returns whether the file was written.
+   */
+  private writeIndexFile(filepath: string, data: unknown): boolean {
+    if (this.options.incremental) {
+      return writeJSONIfChanged(filepath, data);
+    }
+
+    fs.writeFileSync(filepath, JSON.stringify(data));
+    return true;
+  }
+
+  /**
+   * Primary key index of the previous build, if it has one in the current format
+   */
+  private readPreviousPrimaryIndex(indexesDir: string): PreviousPrimaryIndex | undefined {
+    const primaryPath = path.join(indexesDir, '_primary.json');
+    if (!fs.existsSync(primaryPath)) return undefined;
 
-    console.log(`  📋 Generated database metadata`);
+    const primaryIndex = JSON.parse(fs.readFileSync(primaryPath, 'utf8'));
+    return Array.isArray(primaryIndex.entries) ? primaryIndex : undefined;
+  }
+
+  /**
+   * Entries of an index of the previous build, with the header of a paged index, whose
+   * entries are read from its pages. Null unless the previous indexes are reused.
+   */
+  private readPreviousIndex<E extends EncodedRecords = EncodedEntry>(
+    filepath: string,
+    pagesDir?: string
+  ): { header: PagedIndex | null; entries: E[] } | null {
+    if (!this.changes || !fs.existsSync(filepath)) return null;
+
+    const index = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+    if (!isPagedIndex(index) || !pagesDir) {
+      return { header: null, entries: Array.isArray(index.entries) ? index.entries : [] };
+    }
+
+    const entries: E[] = [];
+    for (let page = 0; page < index.pages.length; page++) {
+      const pagePath = path.join(pagesDir, `${page}.json`);
+      if (!fs.existsSync(pagePath)) return null;
+      entries.push(...JSON.parse(fs.readFileSync(pagePath, 'utf8')).entries);
+    }
+    return { header: index, entries };
+  }
+
+  /**
+   * Fields indexed by the previous build, read from its metadata.json
+   */
+  private readPreviousIndexFields(): string[] {
+    const metadataPath = path.join(this.options.outputDir, 'metadata.json');
+    if (!fs.existsSync(metadataPath)) return [];
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+    return metadata.indexes.map(index => index.field);
   }
 
   /**
@@ -265,13 +1246,25 @@ export class IndexGenerator {
     );
   }
 
+  private log(message: string): void {
+    if (this.options.verbose) {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+
   /**
    * Sanitize field names for use as filenames
    */
   private sanitizeFieldName(fieldName: string): string {
-    return fieldName
-      .replace(/[^a-zA-Z0-9.-]/g, '_')
-      .replace(/_{2,}/g, '_')
-      .replace(/^_|_$/g, '');
+    return indexFileName(fieldName);
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
   }
+  return chunks;
 }
@@ -2,8 +2,17 @@ import * as fs from 'fs';
 import * as path from 'path';
 import JSONToZodGenerator from '../jsontozod.js';
 import { IndexGenerator, type IndexMetadata } from './index-generator.js';
-import { DataSplitter } from './data-splitter.js';
-import { ClientGenerator } from './client-generator.js';
+import { DataSplitter, type SplitChanges, type SplitMetadata } from './data-splitter.js';
+import {
+  ClientGenerator,
+  type CollectionInfo,
+  type CollectionRelation,
+} from './client-generator.js';
+import { RecordReader, type InputError, type InputFormat } from './record-reader.js';
+import type { CSVOptions } from './csv-parser.js';
+import type { TextAnalyzerOptions } from '../runtime/core/text-search.js';
+import type { Collation } from '../runtime/core/collation.js';
+import { INDEX_FORMAT } from '../runtime/core/data-loader.js';
 
 export interface BuilderOptions {
   outputDir: string;
@@ -14,17 +23,48 @@ export interface BuilderOptions {
 
   // Index generation options
   indexFields?: string[];
-  maxIndexValues?: number;
+  maxIndexValues?: number; // Indexes of fields with more unique values are split into pages
+  indexPageSize?: number; // Values per page of a paged index (default: 1000)
+  textFields?: string[]; // Fields to build full-text search indexes for
+  textAnalyzer?: TextAnalyzerOptions; // Stemming, stop words and synonyms of the text indexes
+  fuzzyFields?: string[]; // Fields to build trigram indexes for fuzzy() matching
+  compositeIndexes?: string[][]; // Fields indexed together for equality filters on all of them
+  collatedFields?: string[]; // Fields to build case/accent-folded indexes for collated filters
+  collation?: Collation; // Folding of the collated indexes (default: case and accents)
+  geoFields?: string[]; // Point fields, or 'lat+lng' field pairs, for geo queries
+  prefixFields?: string[]; // String fields to build prefix indexes for suggest() and startsWith
+
+  // Input options
+  inputFormat?: InputFormat; // Detected from the file extension when omitted
+  streaming?: boolean; // Stream the input file instead of parsing it in memory (default: true)
+  csv?: CSVOptions; // Delimiter, quoting and header options for CSV/TSV input
+  collection?: string; // Top-level array property to build (default: the largest)
+  collections?: string[] | true; // Build top-level arrays as separate collections (true = all)
 
   // Data splitting options
   primaryKeyField?: string;
+  primaryKeys?: Record<string, string>; // Per-collection primary key fields
+  relations?: RelationDefinition[]; // Foreign keys between collections, resolved with include()
   batchSize?: number;
   useSubdirectories?: boolean;
 
+  // Rebuild options
+  incremental?: boolean; // Only rewrite files affected by changes since the previous build
+
   // General options
   verbose?: boolean;
 }
 
+// A build in progress, fed one record at a time
+interface BuildSession {
+  addRecord(record: unknown): void;
+  finish(reader: RecordReader): Promise<BuildResult>; // Writes the database
+}
+
+export interface RelationDefinition extends CollectionRelation {
+  collection: string; // Collection holding the foreign key field
+}
+
 export interface BuildResult {
   totalRecords: number;
   totalFiles: number;
@@ -32,13 +72,48 @@ export interface BuildResult {
   schemaGenerated: boolean;
   outputSize: number;
   buildTime: number;
-  summary: {
-    records: number;
-    dataFiles: number;
-    indexFiles: number;
-    schemas: number;
-    totalSizeMB: number;
+  inputErrors: InputError[];
+  incremental: boolean; // Whether the previous build was updated instead of rebuilt
+  changes: SplitChanges;
+  collections?: Record<string, BuildResult>; // Per-collection results of a multi-collection build
+  summary: BuildSummary;
+}
+
+// Output counts of a build, printed when verbose and stored in build-manifest.json
+export interface BuildSummary {
+  records: number;
+  dataFiles: number;
+  indexFiles: number;
+  schemas: number;
+  totalSizeMB: number;
+}
+
+export interface DatabaseInfo {
+  database: {
+    totalRecords: number;
+    totalFields: number;
+    totalIndexes: number;
+    createdAt: string;
+    version: string;
   };
+  data: {
+    totalFiles: number;
+    avgFileSize: number;
+    useSubdirectories: boolean;
+    batchSize: number;
+  };
+  build: { buildTime: number; inputFile: string; summary: BuildSummary } | null; // build-manifest.json
+  indexes: Array<{
+    field: string;
+    type: IndexMetadata['type'];
+    uniqueValues: number;
+    coverage: string; // Percentage of records with a value
+  }>;
+}
+
+// Info of a multi-collection build, by collection name
+export interface CollectionsInfo {
+  collections: Record<string, DatabaseInfo>;
 }
 
 export class AntipatternBuilder {
@@ -52,15 +127,46 @@ export class AntipatternBuilder {
       primaryKeyField: 'id',
       batchSize: 1, // Individual files by default
       useSubdirectories: true,
+      streaming: true,
+      incremental: false,
       verbose: true,
       ...options,
     };
   }
 
   /**
-   * Build a complete static file database from a JSON file
+   * Build a complete static file database from a JSON, NDJSON or CSV/TSV file
    */
   async build(inputPath: string): Promise<BuildResult> {
+    if (this.options.collections) {
+      return this.buildCollections(inputPath);
+    }
+
+    if (this.options.relations?.length) {
+      throw new Error('Relations can only be declared when building multiple collections');
+    }
+
+    const reader = new RecordReader(inputPath, {
+      format: this.options.inputFormat,
+      streaming: this.options.streaming,
+      csv: this.options.csv,
+      collection: this.options.collection,
+      primaryKeyField: this.options.primaryKeyField,
+    });
+
+    // Read records and feed every stage in a single pass
+    const session = this.begin(inputPath);
+    for await (const record of reader.records()) {
+      session.addRecord(record);
+    }
+    return session.finish(reader);
+  }
+
+  /**
+   * Start a build: set up the schema analyzer, data splitter and index generator, which
+   * then receive the records one at a time
+   */
+  private begin(inputPath: string): BuildSession {
     const startTime = Date.now();
 
     if (this.options.verbose) {
@@ -73,78 +179,338 @@ export class AntipatternBuilder {
       fs.mkdirSync(this.options.outputDir, { recursive: true });
     }
 
-    // Step 1: Read and extract records
-    const data = JSON.parse(fs.readFileSync(inputPath, 'utf8'));
-    const records = this.extractRecords(data);
-
-    if (this.options.verbose) {
-      console.log(`📊 Found ${records.length} records to process`);
-    }
+    const previousSplit = this.options.incremental ? this.loadPreviousBuild() : undefined;
+    const incremental = previousSplit !== undefined;
+    const reuseIndexes = incremental && this.canReuseIndexes();
 
-    // Step 2: Generate schemas
     const schemaGenerator = new JSONToZodGenerator({
       enumThreshold: this.options.enumThreshold,
       optionalThreshold: this.options.optionalThreshold,
+      verbose: this.options.verbose,
     });
 
-    await schemaGenerator.generateFromFile(inputPath, this.options.outputDir);
-
-    // Step 3: Split data into files
     const splitter = new DataSplitter({
       outputDir: this.options.outputDir,
       primaryKeyField: this.options.primaryKeyField,
       batchSize: this.options.batchSize,
       useSubdirectories: this.options.useSubdirectories,
+      previous: previousSplit,
+      verbose: this.options.verbose,
     });
 
-    const splitResult = splitter.splitRecords(records);
-
-    // Step 4: Generate indexes
     const indexGenerator = new IndexGenerator({
       outputDir: this.options.outputDir,
       indexFields: this.options.indexFields,
       maxIndexValues: this.options.maxIndexValues,
+      indexPageSize: this.options.indexPageSize,
+      incremental,
+      reuseIndexes,
+      textFields: this.options.textFields,
+      textAnalyzer: this.options.textAnalyzer,
+      fuzzyFields: this.options.fuzzyFields,
+      compositeIndexes: this.options.compositeIndexes,
+      collatedFields: this.options.collatedFields,
+      collation: this.options.collation,
+      geoFields: this.options.geoFields,
+      prefixFields: this.options.prefixFields,
+      verbose: this.options.verbose,
+    });
+
+    let recordCount = 0;
+    splitter.begin();
+
+    const addRecord = (record: unknown): void => {
+      schemaGenerator.addRecord(record);
+      splitter.addRecord(record);
+      indexGenerator.addRecord(record, this.options.primaryKeyField);
+      recordCount++;
+    };
+
+    const finish = async (reader: RecordReader): Promise<BuildResult> => {
+      if (this.options.verbose) {
+        console.log(`📊 Found ${recordCount} records to process`);
+        if (reader.errors.length > 0) {
+          console.log(`⚠️  Skipped ${reader.errors.length} malformed lines`);
+        }
+      }
+
+      // Write data files, schemas and indexes
+      const splitResult = splitter.finish();
+      schemaGenerator.writeSchemas(this.options.outputDir);
+      await indexGenerator.writeIndexes(
+        this.options.primaryKeyField,
+        schemaGenerator.getRangeFields(),
+        splitResult.changedRecordIds
+      );
+
+      // Generate type-safe database client
+      const clientGenerator = new ClientGenerator({
+        outputDir: this.options.outputDir,
+        primaryKeyField: this.options.primaryKeyField,
+        verbose: this.options.verbose,
+      });
+
+      await clientGenerator.generateClient();
+
+      // Calculate total output size
+      const outputSize = this.calculateOutputSize(this.options.outputDir);
+      const buildTime = Date.now() - startTime;
+
+      // Generate build summary
+      const summary: BuildSummary = {
+        records: recordCount,
+        dataFiles: splitResult.totalFiles,
+        indexFiles: this.countIndexFiles(),
+        schemas: 4, // schema.ts, types.ts, index.ts, client.ts
+        totalSizeMB: Math.round((outputSize / 1024 / 1024) * 100) / 100,
+      };
+
+      if (this.options.verbose) {
+        this.printBuildSummary(summary, buildTime);
+      }
+
+      // Write build manifest
+      await this.generateBuildManifest(summary, buildTime, inputPath, reader, splitResult.changes);
+
+      return {
+        totalRecords: recordCount,
+        totalFiles: splitResult.totalFiles,
+        totalIndexes: summary.indexFiles,
+        schemaGenerated: true,
+        outputSize,
+        buildTime,
+        inputErrors: reader.errors,
+        incremental,
+        changes: splitResult.changes,
+        summary,
+      };
+    };
+
+    return { addRecord, finish };
+  }
+
+  /**
+   * Build several top-level arrays of the input into one database. Each collection is
+   * built into its own subdirectory, and a shared client exposes them as db.<collection>.
+   * The input is read once, and each record goes to the build of its collection.
+   */
+  private async buildCollections(inputPath: string): Promise<BuildResult> {
+    const startTime = Date.now();
+
+    const reader = new RecordReader(inputPath, {
+      format: this.options.inputFormat,
+      streaming: this.options.streaming,
     });
+    const names =
+      this.options.collections === true
+        ? await reader.collections()
+        : (this.options.collections as string[]);
+
+    if (names.length === 0) {
+      throw new Error(`No collections found in ${inputPath}`);
+    }
+
+    for (const name of names) {
+      if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+        throw new Error(`Invalid collection name "${name}" (use letters, digits, _ and -)`);
+      }
+    }
+
+    for (const relation of this.options.relations ?? []) {
+      for (const name of [relation.collection, relation.target]) {
+        if (!names.includes(name)) {
+          throw new Error(`Relation "${relation.name}" refers to unknown collection "${name}"`);
+        }
+      }
+    }
+
+    if (this.options.verbose) {
+      console.log(`🗂️  Building ${names.length} collections: ${names.join(', ')}`);
+    }
+
+    const builds = new Map(
+      names.map(name => {
+        const primaryKeyField =
+          this.options.primaryKeys?.[name] ?? this.options.primaryKeyField ?? 'id';
+        const builder = new AntipatternBuilder({
+          ...this.options,
+          outputDir: path.join(this.options.outputDir, name),
+          primaryKeyField,
+          collection: name,
+          collections: undefined,
+          relations: undefined,
+        });
+        return [name, { primaryKeyField, session: builder.begin(inputPath) }];
+      })
+    );
+
+    for await (const [name, record] of reader.collectionRecords(names)) {
+      const build = builds.get(name);
+      if (!build) {
+        throw new Error(`Read a record of unknown collection "${name}"`);
+      }
+      build.session.addRecord(record);
+    }
 
-    await indexGenerator.generateIndexes(records, this.options.primaryKeyField);
+    const results: Record<string, BuildResult> = {};
+    const collections: CollectionInfo[] = [];
+
+    for (const [name, { primaryKeyField, session }] of builds) {
+      results[name] = await session.finish(reader);
+
+      const relations = (this.options.relations ?? [])
+        .filter(relation => relation.collection === name)
+        .map(relation => ({ name: relation.name, field: relation.field, target: relation.target }));
+      collections.push({
+        name,
+        primaryKeyField,
+        totalRecords: results[name].totalRecords,
+        ...(relations.length > 0 && { relations }),
+      });
+    }
+
+    fs.writeFileSync(
+      path.join(this.options.outputDir, 'collections.json'),
+      JSON.stringify(
+        { version: '1.0.0', createdAt: new Date().toISOString(), collections },
+        null,
+        2
+      )
+    );
 
-    // Step 5: Generate type-safe database client
     const clientGenerator = new ClientGenerator({
       outputDir: this.options.outputDir,
-      primaryKeyField: this.options.primaryKeyField,
+      collections,
+      verbose: this.options.verbose,
     });
-
     await clientGenerator.generateClient();
 
-    // Calculate total output size
+    const buildResults = Object.values(results);
+    const sum = (value: (result: BuildResult) => number) =>
+      buildResults.reduce((total, result) => total + value(result), 0);
     const outputSize = this.calculateOutputSize(this.options.outputDir);
-    const buildTime = Date.now() - startTime;
-
-    // Generate build summary
-    const summary = {
-      records: records.length,
-      dataFiles: splitResult.totalFiles,
-      indexFiles: this.countIndexFiles(),
-      schemas: 4, // schema.ts, types.ts, index.ts, client.ts
-      totalSizeMB: Math.round((outputSize / 1024 / 1024) * 100) / 100,
+
+    return {
+      totalRecords: sum(result => result.totalRecords),
+      totalFiles: sum(result => result.totalFiles),
+      totalIndexes: sum(result => result.totalIndexes),
+      schemaGenerated: true,
+      outputSize,
+      buildTime: Date.now() - startTime,
+      inputErrors: reader.errors,
+      incremental: buildResults.every(result => result.incremental),
+      changes: {
+        added: sum(result => result.changes.added),
+        updated: sum(result => result.changes.updated),
+        removed: sum(result => result.changes.removed),
+        unchanged: sum(result => result.changes.unchanged),
+      },
+      collections: results,
+      summary: {
+        records: sum(result => result.summary.records),
+        dataFiles: sum(result => result.summary.dataFiles),
+        indexFiles: sum(result => result.summary.indexFiles),
+        schemas: sum(result => result.summary.schemas),
+        totalSizeMB: Math.round((outputSize / 1024 / 1024) * 100) / 100,
+      },
     };
+  }
+
+  /**
+   * Names of the collections of a multi-collection database, or null for a
+   * single-collection database
+   */
+  private readCollectionNames(dbDir: string): string[] | null {
+    const collectionsPath = path.join(dbDir, 'collections.json');
+    if (!fs.existsSync(collectionsPath)) return null;
+
+    const { collections } = JSON.parse(fs.readFileSync(collectionsPath, 'utf8'));
+    return collections.map((collection: CollectionInfo) => collection.name);
+  }
+
+  /**
+   * Load the split metadata of the previous build for an incremental rebuild. Returns
+   * undefined (so a full build runs) when there is no compatible previous build.
+   */
+  private loadPreviousBuild(): SplitMetadata | undefined {
+    const manifestPath = path.join(this.options.outputDir, 'build-manifest.json');
+    const splitMetadataPath = path.join(this.options.outputDir, 'split-metadata.json');
+
+    const fullBuild = (reason: string): undefined => {
+      if (this.options.verbose) {
+        console.log(`♻️  ${reason}, running a full build`);
+      }
+      return undefined;
+    };
+
+    if (!fs.existsSync(manifestPath) || !fs.existsSync(splitMetadataPath)) {
+      return fullBuild('No previous build found');
+    }
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    const splitMetadata: SplitMetadata = JSON.parse(fs.readFileSync(splitMetadataPath, 'utf8'));
+
+    const layoutOptions = ['primaryKeyField', 'batchSize', 'useSubdirectories'] as const;
+    const changedOption = layoutOptions.find(
+      option => manifest.options?.[option] !== this.options[option]
+    );
+    if (changedOption) {
+      return fullBuild(`Option "${changedOption}" changed since the previous build`);
+    }
+
+    if (!splitMetadata.files.every(file => Array.isArray(file.recordHashes))) {
+      return fullBuild('Previous build has no record hashes');
+    }
 
     if (this.options.verbose) {
-      this.printBuildSummary(summary, buildTime);
+      console.log(`♻️  Updating previous build (${splitMetadata.totalRecords} records)`);
     }
 
-    // Write build manifest
-    await this.generateBuildManifest(summary, buildTime, inputPath);
+    return splitMetadata;
+  }
 
-    return {
-      totalRecords: records.length,
-      totalFiles: splitResult.totalFiles,
-      totalIndexes: summary.indexFiles,
-      schemaGenerated: true,
-      outputSize,
-      buildTime,
-      summary,
+  /**
+   * Whether an incremental build can copy unchanged entries and page bounds from the
+   * previous build's indexes: they must have the current format and have been built
+   * with the same index options. Otherwise every index is rebuilt, while data files
+   * are still only rewritten when their records changed.
+   */
+  private canReuseIndexes(): boolean {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(this.options.outputDir, 'build-manifest.json'), 'utf8')
+    );
+    const metadataPath = path.join(this.options.outputDir, 'metadata.json');
+    const metadata = fs.existsSync(metadataPath)
+      ? JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+      : undefined;
+
+    const rebuildIndexes = (reason: string): false => {
+      if (this.options.verbose) {
+        console.log(`♻️  ${reason}, rebuilding all indexes`);
+      }
+      return false;
     };
+
+    if (metadata?.indexFormat !== INDEX_FORMAT) {
+      return rebuildIndexes('Previous indexes have an older format');
+    }
+
+    const indexOptions = [
+      'indexFields',
+      'maxIndexValues',
+      'indexPageSize',
+      'compositeIndexes',
+      'collatedFields',
+      'collation',
+    ] as const;
+    const changedOption = indexOptions.find(
+      option => JSON.stringify(manifest.options?.[option]) !== JSON.stringify(this.options[option])
+    );
+    if (changedOption) {
+      return rebuildIndexes(`Option "${changedOption}" changed since the previous build`);
+    }
+
+    return true;
   }
 
   /**
@@ -153,6 +519,21 @@ export class AntipatternBuilder {
   async validate(outputDir?: string): Promise<boolean> {
     const dbDir = outputDir || this.options.outputDir;
 
+    const collectionNames = this.readCollectionNames(dbDir);
+    if (collectionNames) {
+      if (!fs.existsSync(path.join(dbDir, 'client.ts'))) {
+        console.error(`❌ Missing required file: client.ts`);
+        return false;
+      }
+
+      for (const name of collectionNames) {
+        if (!(await this.validate(path.join(dbDir, name)))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
     console.log(`🔍 Validating database at ${dbDir}...`);
 
     try {
@@ -212,9 +593,24 @@ export class AntipatternBuilder {
   /**
    * Get database info
    */
-  async info(outputDir?: string): Promise<any> {
+  async info(outputDir?: string): Promise<DatabaseInfo | CollectionsInfo> {
     const dbDir = outputDir || this.options.outputDir;
 
+    const collectionNames = this.readCollectionNames(dbDir);
+    if (collectionNames) {
+      const collections: Record<string, DatabaseInfo> = {};
+      for (const name of collectionNames) {
+        collections[name] = await this.databaseInfo(path.join(dbDir, name));
+      }
+      return { collections };
+    }
+    return this.databaseInfo(dbDir);
+  }
+
+  /**
+   * Info of a single-collection database
+   */
+  private async databaseInfo(dbDir: string): Promise<DatabaseInfo> {
     try {
       const metadata = JSON.parse(fs.readFileSync(path.join(dbDir, 'metadata.json'), 'utf8'));
       const splitMetadata = JSON.parse(
@@ -254,13 +650,6 @@ export class AntipatternBuilder {
     }
   }
 
-  /**
-   * Extract records from various JSON structures
-   */
-  private extractRecords(data: unknown): any[] {
-    return DataSplitter.extractRecords(data);
-  }
-
   /**
    * Calculate total output size
    */
@@ -292,13 +681,15 @@ export class AntipatternBuilder {
     const indexesDir = path.join(this.options.outputDir, 'indexes');
     if (!fs.existsSync(indexesDir)) return 0;
 
-    return fs.readdirSync(indexesDir).filter(file => file.endsWith('.json')).length;
+    // Including index pages and the full-text, trigram, composite, collated and geo subdirectories
+    const files = fs.readdirSync(indexesDir, { recursive: true }) as string[];
+    return files.filter(file => file.endsWith('.json')).length;
   }
 
   /**
    * Print build summary
    */
-  private printBuildSummary(summary: any, buildTime: number): void {
+  private printBuildSummary(summary: BuildSummary, buildTime: number): void {
     console.log(`\n🎉 Build completed successfully!`);
     console.log(`⏱️  Build time: ${buildTime}ms`);
     console.log(`📊 Summary:`);
@@ -322,22 +713,39 @@ export class AntipatternBuilder {
    * Generate build manifest
    */
   private async generateBuildManifest(
-    summary: any,
+    summary: BuildSummary,
     buildTime: number,
-    inputPath: string
+    inputPath: string,
+    reader: RecordReader,
+    changes: SplitChanges
   ): Promise<void> {
     const manifest = {
       version: '1.0.0',
       createdAt: new Date().toISOString(),
       buildTime,
       inputFile: path.basename(inputPath),
+      inputFormat: reader.format,
+      inputErrors: reader.errors,
+      changes,
       options: {
         enumThreshold: this.options.enumThreshold,
         optionalThreshold: this.options.optionalThreshold,
+        indexFields: this.options.indexFields,
         maxIndexValues: this.options.maxIndexValues,
+        indexPageSize: this.options.indexPageSize,
+        textFields: this.options.textFields,
+        textAnalyzer: this.options.textAnalyzer,
+        fuzzyFields: this.options.fuzzyFields,
+        compositeIndexes: this.options.compositeIndexes,
+        collatedFields: this.options.collatedFields,
+        collation: this.options.collation,
+        geoFields: this.options.geoFields,
+        prefixFields: this.options.prefixFields,
         primaryKeyField: this.options.primaryKeyField,
         batchSize: this.options.batchSize,
         useSubdirectories: this.options.useSubdirectories,
+        streaming: this.options.streaming,
+        incremental: this.options.incremental,
       },
       summary,
     };
@@ -0,0 +1,629 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { DataSplitter } from './data-splitter.js';
+import { CSVParser, type CSVOptions, type CSVRow } from './csv-parser.js';
+import JSONToZodGenerator from '../jsontozod.js';
+
+export type InputFormat = 'json' | 'ndjson' | 'csv' | 'tsv';
+
+export interface RecordReaderOptions {
+  format?: InputFormat; // Detected from the file extension when omitted
+  streaming?: boolean; // Read the input incrementally instead of parsing it in one go (default: true)
+  chunkSize?: number; // Bytes read per chunk in streaming mode
+  csv?: CSVOptions; // Parsing options for CSV/TSV input
+  collection?: string; // Top-level array property to read (default: the largest)
+  primaryKeyField?: string; // NDJSON lines without it are skipped and reported
+}
+
+type ColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+export interface InputError {
+  line: number;
+  message: string;
+}
+
+// Receives a scanned record and the name of its collection ('' for a top-level array)
+type EmitRecord = (record: unknown, collection: string) => void;
+
+interface ScanFrame {
+  type: 'array' | 'object';
+  key: string | null; // Current member name (objects only)
+  expectKey: boolean;
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+
+/**
+ * Incremental JSON scanner that emits the elements of the record collection
+ * without ever holding the whole document in memory.
+ *
+ * Without collection names it emits the elements of a top-level array and, for a
+ * top-level object, only counts the elements of each array property. With collection
+ * names it emits the elements of those properties of the top-level object, along with
+ * the name of their collection.
+ */
+class JSONCollectionScanner {
+  readonly arrayLengths = new Map<string, number>();
+  rootType: 'array' | 'object' | 'value' | null = null;
+
+  private stack: ScanFrame[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringIsKey = false;
+  private keyBuffer = '';
+  private inLiteral = false; // Inside a number, true, false or null
+  private capturing = false;
+  private captureKind: 'container' | 'string' | 'literal' = 'container';
+  private captureDepth = 0;
+  private captureStart = 0;
+  private pending = '';
+  private emitted = 0;
+  private collections?: Set<string>;
+
+  constructor(collections?: string[]) {
+    this.collections = collections && new Set(collections);
+  }
+
+  /**
+   * Feed the next chunk of text, calling emit for every completed record
+   */
+  write(chunk: string, emit: EmitRecord): void {
+    this.captureStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.stringIsKey) {
+            this.stack[0].key = JSON.parse(`"${this.keyBuffer}"`);
+          } else if (
+            this.capturing &&
+            this.captureKind === 'string' &&
+            this.stack.length === this.captureDepth
+          ) {
+            this.finishCapture(chunk, i + 1, emit);
+          }
+          continue;
+        }
+        if (this.stringIsKey) {
+          this.keyBuffer += ch;
+        }
+        continue;
+      }
+
+      if (this.inLiteral) {
+        if (!WHITESPACE.has(ch) && ch !== ',' && ch !== ']' && ch !== '}') continue;
+        this.inLiteral = false;
+        if (this.capturing && this.captureKind === 'literal') {
+          this.finishCapture(chunk, i, emit);
+        }
+      }
+
+      if (WHITESPACE.has(ch)) continue;
+
+      const frame = this.stack[this.stack.length - 1];
+
+      if (ch === ',') {
+        if (frame?.type === 'object') frame.expectKey = true;
+        continue;
+      }
+
+      if (ch === ':') {
+        if (frame?.type === 'object') frame.expectKey = false;
+        continue;
+      }
+
+      if (ch === ']' || ch === '}') {
+        this.stack.pop();
+        if (
+          this.capturing &&
+          this.captureKind === 'container' &&
+          this.stack.length === this.captureDepth
+        ) {
+          this.finishCapture(chunk, i + 1, emit);
+        }
+        continue;
+      }
+
+      if (frame?.type === 'object' && frame.expectKey) {
+        if (ch !== '"') {
+          throw new Error(`Unexpected character "${ch}" where an object key was expected`);
+        }
+        this.inString = true;
+        this.stringIsKey = this.stack.length === 1;
+        this.keyBuffer = '';
+        continue;
+      }
+
+      // Anything else starts a value
+      this.startValue(ch, i);
+
+      if (ch === '"') {
+        this.inString = true;
+        this.stringIsKey = false;
+      } else if (ch === '[' || ch === '{') {
+        if (ch === '[' && this.stack.length === 1 && this.stack[0].type === 'object') {
+          this.arrayLengths.set(this.stack[0].key ?? '', 0);
+        }
+        this.stack.push({
+          type: ch === '[' ? 'array' : 'object',
+          key: null,
+          expectKey: ch === '{',
+        });
+      } else {
+        this.inLiteral = true;
+      }
+    }
+
+    if (this.capturing) {
+      this.pending += chunk.slice(this.captureStart);
+    }
+  }
+
+  /**
+   * Signal the end of input, failing on truncated documents
+   */
+  end(): void {
+    if (this.inString || this.stack.length > 0 || this.rootType === null) {
+      throw new Error('Unexpected end of JSON input');
+    }
+  }
+
+  private startValue(ch: string, position: number): void {
+    const depth = this.stack.length;
+
+    if (depth === 0) {
+      this.rootType = ch === '[' ? 'array' : ch === '{' ? 'object' : 'value';
+      return;
+    }
+
+    if (depth === 2 && this.stack[0].type === 'object' && this.stack[1].type === 'array') {
+      const key = this.stack[0].key ?? '';
+      this.arrayLengths.set(key, (this.arrayLengths.get(key) || 0) + 1);
+    }
+
+    if (this.isCollectionFrame()) {
+      this.capturing = true;
+      this.captureKind = ch === '"' ? 'string' : ch === '[' || ch === '{' ? 'container' : 'literal';
+      this.captureDepth = depth;
+      this.captureStart = position;
+      this.pending = '';
+    }
+  }
+
+  private isCollectionFrame(): boolean {
+    const depth = this.stack.length;
+
+    if (this.collections === undefined) {
+      return depth === 1 && this.stack[0].type === 'array';
+    }
+
+    return (
+      depth === 2 &&
+      this.stack[0].type === 'object' &&
+      this.collections.has(this.stack[0].key ?? '') &&
+      this.stack[1].type === 'array'
+    );
+  }
+
+  private finishCapture(chunk: string, end: number, emit: EmitRecord): void {
+    const text = this.pending + chunk.slice(this.captureStart, end);
+    this.pending = '';
+    this.capturing = false;
+    this.emitted++;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON in record #${this.emitted}: ${(error as Error).message}`);
+    }
+    // The capture ended at its own depth, so the top-level object still holds its key
+    emit(record, this.collections ? (this.stack[0].key ?? '') : '');
+  }
+}
+
+/**
+ * Reads the records of a JSON input file, either by parsing the whole document or by
+ * streaming it so that only one record is held in memory at a time
+ */
+export class RecordReader {
+  readonly errors: InputError[] = []; // Malformed lines skipped while reading NDJSON or CSV
+  private options: RecordReaderOptions;
+  private document?: unknown; // Parsed input when not streaming
+
+  constructor(
+    private inputPath: string,
+    options: RecordReaderOptions = {}
+  ) {
+    this.options = {
+      streaming: true,
+      chunkSize: 64 * 1024,
+      ...options,
+    };
+  }
+
+  /**
+   * Detect the input format from a file extension
+   */
+  static detectFormat(inputPath: string): InputFormat {
+    switch (path.extname(inputPath).toLowerCase()) {
+      case '.ndjson':
+      case '.jsonl':
+        return 'ndjson';
+      case '.csv':
+        return 'csv';
+      case '.tsv':
+      case '.tab':
+        return 'tsv';
+      default:
+        return 'json';
+    }
+  }
+
+  /**
+   * The format the input file is read as
+   */
+  get format(): InputFormat {
+    return this.options.format || RecordReader.detectFormat(this.inputPath);
+  }
+
+  /**
+   * Iterate over every record of the input file
+   */
+  async *records(): AsyncGenerator<unknown> {
+    const { collection } = this.options;
+    if (collection !== undefined && this.format !== 'json') {
+      throw new Error(`Collections can only be read from JSON input, not ${this.format}`);
+    }
+
+    if (this.format === 'ndjson') {
+      yield* this.readLines();
+      return;
+    }
+
+    if (this.format === 'csv' || this.format === 'tsv') {
+      yield* this.readDelimited();
+      return;
+    }
+
+    if (collection !== undefined) {
+      for await (const [, record] of this.collectionRecords([collection])) {
+        yield record;
+      }
+      return;
+    }
+
+    if (!this.options.streaming) {
+      yield* DataSplitter.extractRecords(this.readDocument());
+      return;
+    }
+
+    // First pass: emits top-level array elements directly, or measures the array
+    // properties of a top-level object so the collection can be picked like extractRecords does
+    const scanner = new JSONCollectionScanner();
+    yield* this.scan(scanner);
+
+    if (scanner.rootType !== 'object') {
+      return;
+    }
+
+    if (scanner.arrayLengths.size === 0) {
+      // An object without array properties is a single record
+      yield JSON.parse(fs.readFileSync(this.inputPath, 'utf8'));
+      return;
+    }
+
+    const [largest, length] = Array.from(scanner.arrayLengths).reduce((max, entry) =>
+      entry[1] > max[1] ? entry : max
+    );
+    const ignored = Array.from(scanner.arrayLengths.keys()).filter(key => key !== largest);
+    const note = ignored.length > 0 ? `, ignoring ${ignored.join(', ')}` : '';
+    // eslint-disable-next-line no-console
+    console.log(`📋 Using collection: ${largest} (${length} records)${note}`);
+
+    // Second pass: emit the elements of the chosen collection
+    yield* this.scan(new JSONCollectionScanner([largest]));
+  }
+
+  /**
+   * Names of the top-level array properties of a JSON input, in document order.
+   * Each of them can be built as a separate collection.
+   */
+  async collections(): Promise<string[]> {
+    if (this.format !== 'json') {
+      return [];
+    }
+
+    if (!this.options.streaming) {
+      const data = this.readDocument() as Record<string, unknown> | null;
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return [];
+      }
+      return Object.keys(data).filter(key => Array.isArray(data[key]));
+    }
+
+    const scanner = new JSONCollectionScanner();
+    for await (const record of this.scan(scanner)) {
+      // Elements of a top-level array are not needed here
+      void record;
+    }
+    return Array.from(scanner.arrayLengths.keys());
+  }
+
+  /**
+   * Iterate over the records of several top-level arrays of a JSON input in a single
+   * pass, each with the name of its collection
+   */
+  async *collectionRecords(names: string[]): AsyncGenerator<[collection: string, record: unknown]> {
+    if (this.format !== 'json') {
+      throw new Error(`Collections can only be read from JSON input, not ${this.format}`);
+    }
+
+    if (!this.options.streaming) {
+      const data = this.readDocument() as Record<string, unknown> | null;
+      for (const name of names) {
+        if (Array.isArray(data) || !Array.isArray(data?.[name])) {
+          throw this.collectionNotFound(name);
+        }
+      }
+      for (const name of names) {
+        for (const record of (data as Record<string, unknown>)[name] as unknown[]) {
+          yield [name, record];
+        }
+      }
+      return;
+    }
+
+    const scanner = new JSONCollectionScanner(names);
+    yield* this.scanEntries(scanner);
+
+    const missing = names.find(
+      name => scanner.rootType !== 'object' || !scanner.arrayLengths.has(name)
+    );
+    if (missing !== undefined) {
+      throw this.collectionNotFound(missing);
+    }
+  }
+
+  /**
+   * The parsed input document, read once and shared by collections() and the records
+   */
+  private readDocument(): unknown {
+    if (this.document === undefined) {
+      this.document = JSON.parse(fs.readFileSync(this.inputPath, 'utf8'));
+    }
+    return this.document;
+  }
+
+  private collectionNotFound(collection: string): Error {
+    return new Error(`Collection "${collection}" not found in ${this.inputPath}`);
+  }
+
+  /**
+   * Read newline-delimited JSON, one record per line. Malformed lines are skipped
+   * and reported in errors instead of failing the whole input.
+   */
+  private async *readLines(): AsyncGenerator<unknown> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.inputPath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        this.reportError(lineNumber, (error as Error).message);
+        continue;
+      }
+
+      const { primaryKeyField } = this.options;
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        this.reportError(lineNumber, 'Expected a JSON object');
+        continue;
+      }
+      if (
+        primaryKeyField !== undefined &&
+        !Object.prototype.hasOwnProperty.call(record, primaryKeyField)
+      ) {
+        this.reportError(lineNumber, `Missing primary key field "${primaryKeyField}"`);
+        continue;
+      }
+
+      yield record;
+    }
+  }
+
+  /**
+   * Read CSV/TSV rows as records. A first pass infers a type for every column so
+   * values are coerced consistently without holding the file in memory.
+   */
+  private async *readDelimited(): AsyncGenerator<unknown> {
+    const csvOptions: CSVOptions = {
+      ...this.options.csv,
+      delimiter: this.options.csv?.delimiter ?? (this.format === 'tsv' ? '\t' : ','),
+    };
+    const hasHeaderRow = csvOptions.header !== false && !Array.isArray(csvOptions.header);
+    const columnTypes =
+      csvOptions.inferTypes !== false ? await this.inferColumnTypes(csvOptions) : null;
+
+    let columns = Array.isArray(csvOptions.header) ? csvOptions.header : null;
+
+    for await (const row of this.readRows(csvOptions)) {
+      if (!columns) {
+        columns = hasHeaderRow
+          ? this.normalizeHeader(row.fields)
+          : row.fields.map((_, i) => `column${i + 1}`);
+        if (hasHeaderRow) continue;
+      }
+
+      if (row.fields.length !== columns.length) {
+        this.reportError(
+          row.line,
+          `Expected ${columns.length} fields but found ${row.fields.length}`
+        );
+        continue;
+      }
+
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        const raw = row.fields[i];
+        record[column] = columnTypes ? this.coerceValue(raw, columnTypes[i]) : raw;
+      });
+
+      yield record;
+    }
+  }
+
+  /**
+   * Detect the type of every column using the schema generator's type detection. Rows
+   * with the wrong number of fields are left out; the reading pass reports them.
+   */
+  private async inferColumnTypes(csvOptions: CSVOptions): Promise<ColumnType[]> {
+    const detector = new JSONToZodGenerator();
+    const columnTypes: Set<string>[] = [];
+    // The header (or the first row without one) sets the number of fields
+    let columnCount = Array.isArray(csvOptions.header) ? csvOptions.header.length : undefined;
+
+    for await (const row of this.readRows(csvOptions)) {
+      if (columnCount === undefined) {
+        columnCount = row.fields.length;
+        if (csvOptions.header !== false) continue;
+      }
+      if (row.fields.length !== columnCount) continue;
+
+      row.fields.forEach((raw, i) => {
+        if (!columnTypes[i]) columnTypes[i] = new Set();
+        columnTypes[i].add(this.detectCellType(raw, detector));
+      });
+    }
+
+    return columnTypes.map(types => {
+      const detected = Array.from(types).filter(type => type !== 'null');
+      if (detected.length === 0) return 'string';
+      if (detected.every(type => type === 'integer' || type === 'number')) return 'number';
+      if (detected.every(type => type === 'boolean')) return 'boolean';
+      if (detected.every(type => type === 'date-string')) return 'date';
+      return 'string';
+    });
+  }
+
+  /**
+   * Detect the type a raw cell would have once coerced
+   */
+  private detectCellType(raw: string, detector: JSONToZodGenerator): string {
+    if (raw === '') return 'null';
+    if (BOOLEAN_PATTERN.test(raw)) return 'boolean';
+
+    // Numbers with leading zeros (zip codes, SKUs) stay strings, and so do integers
+    // too large to read without losing precision (e.g. snowflake IDs)
+    if (NUMBER_PATTERN.test(raw) && !/^-?0\d/.test(raw)) {
+      const value = Number(raw);
+      if (INTEGER_PATTERN.test(raw) && !Number.isSafeInteger(value)) return 'string';
+      return detector.getDetailedType(value);
+    }
+
+    return detector.getDetailedType(raw);
+  }
+
+  /**
+   * Convert a cell to its column type. Empty cells are null except in string columns,
+   * and dates become full ISO 8601 strings in UTC (e.g. "2023-01-15T00:00:00.000Z") so
+   * they sort and compare as one form in the range indexes.
+   */
+  private coerceValue(raw: string, type: ColumnType | undefined): unknown {
+    if (raw === '') return type === 'string' || type === undefined ? '' : null;
+
+    switch (type) {
+      case 'number':
+        return Number(raw);
+      case 'boolean':
+        return raw.toLowerCase() === 'true';
+      case 'date':
+        // Times without a zone are read as UTC rather than local time
+        return new Date(raw.includes('T') && !raw.endsWith('Z') ? `${raw}Z` : raw).toISOString();
+      default:
+        return raw;
+    }
+  }
+
+  /**
+   * Fill in names for empty header cells and make duplicate names unique
+   */
+  private normalizeHeader(fields: string[]): string[] {
+    const used = new Set<string>();
+
+    return fields.map((field, i) => {
+      const base = field.trim() || `column${i + 1}`;
+      let name = base;
+      for (let n = 2; used.has(name); n++) {
+        name = `${base}_${n}`;
+      }
+      used.add(name);
+      return name;
+    });
+  }
+
+  private async *readRows(csvOptions: CSVOptions): AsyncGenerator<CSVRow> {
+    const parser = new CSVParser(csvOptions);
+    const stream = fs.createReadStream(this.inputPath, {
+      encoding: 'utf8',
+      highWaterMark: this.options.chunkSize,
+    });
+
+    for await (const chunk of stream) {
+      const rows: CSVRow[] = [];
+      parser.write(chunk as string, row => rows.push(row));
+      yield* rows;
+    }
+
+    const rows: CSVRow[] = [];
+    parser.end(row => rows.push(row));
+    yield* rows;
+  }
+
+  private reportError(line: number, message: string): void {
+    this.errors.push({ line, message });
+    // eslint-disable-next-line no-console
+    console.warn(`⚠️  Skipping malformed line ${line}: ${message}`);
+  }
+
+  private async *scan(scanner: JSONCollectionScanner): AsyncGenerator<unknown> {
+    for await (const [, record] of this.scanEntries(scanner)) {
+      yield record;
+    }
+  }
+
+  private async *scanEntries(
+    scanner: JSONCollectionScanner
+  ): AsyncGenerator<[collection: string, record: unknown]> {
+    const stream = fs.createReadStream(this.inputPath, {
+      encoding: 'utf8',
+      highWaterMark: this.options.chunkSize,
+    });
+
+    for await (const chunk of stream) {
+      const entries: Array<[string, unknown]> = [];
+      scanner.write(chunk as string, (record, collection) => entries.push([collection, record]));
+      yield* entries;
+    }
+
+    scanner.end();
+  }
+}
@@ -1,7 +1,11 @@
 #!/usr/bin/env node
 
 import { program } from 'commander';
-import { AntipatternBuilder } from '../builder/index.js';
+import {
+  AntipatternBuilder,
+  type DatabaseInfo,
+  type RelationDefinition,
+} from '../builder/index.js';
 import * as fs from 'fs';
 
 program
@@ -11,16 +15,60 @@ program
 
 program
   .command('build <input-file>')
-  .description('Build a complete static file database from a JSON file')
+  .description('Build a complete static file database from a JSON, NDJSON or CSV file')
   .option('-o, --output <dir>', 'Output directory', './db')
   .option('-p, --primary-key <field>', 'Primary key field', 'id')
   .option('-b, --batch-size <size>', 'Records per file (1 = individual files)', '1')
   .option('-i, --index-fields <fields>', 'Comma-separated list of fields to index (default: all)')
-  .option('--max-index-values <count>', 'Skip indexing fields with more unique values', '10000')
+  .option(
+    '--max-index-values <count>',
+    'Split indexes of fields with more unique values into pages',
+    '10000'
+  )
+  .option('--index-page-size <count>', 'Values per page of a paged index', '1000')
+  .option('--text-fields <fields>', 'Comma-separated list of fields to index for full-text search')
+  .option('--fuzzy-fields <fields>', 'Comma-separated list of fields to index for fuzzy matching')
+  .option(
+    '--composite-indexes <indexes>',
+    'Comma-separated field combinations to index together, e.g. set+rarity'
+  )
+  .option(
+    '--collated-fields <fields>',
+    'Comma-separated list of fields to index case- and accent-insensitively'
+  )
+  .option('--collation-locale <locale>', 'Locale of the case folding of collated indexes')
+  .option(
+    '--geo-fields <fields>',
+    'Comma-separated point fields, or lat+lng field pairs, to index for geo queries'
+  )
+  .option(
+    '--prefix-fields <fields>',
+    'Comma-separated list of string fields to build prefix indexes for autocompletion'
+  )
+  .option('--stemming', 'Stem English words in full-text indexes (e.g. "running" -> "run")')
   .option('--sample-size <size>', 'Number of records to analyze for schema', '1000')
   .option('--enum-threshold <count>', 'Max unique values for enum generation', '20')
   .option('--optional-threshold <ratio>', 'Threshold for optional fields (0-1)', '0.5')
   .option('--no-subdirectories', 'Disable subdirectory organization')
+  .option(
+    '-f, --format <format>',
+    'Input format: json, ndjson, csv or tsv (default: from file extension)'
+  )
+  .option('--delimiter <char>', 'Field delimiter for CSV input (use "\\t" for tabs)')
+  .option('--no-header', 'CSV input has no header row (columns are named column1, column2, ...)')
+  .option('--no-stream', 'Parse JSON input in one go instead of streaming it')
+  .option('--collection <name>', 'Top-level array to build (default: the largest)')
+  .option(
+    '--collections [names]',
+    'Build top-level arrays as separate collections (comma-separated, default: all)'
+  )
+  .option(
+    '--relation <spec>',
+    'Declare a relation as <collection>.<name>:<field>-><target> (repeatable)',
+    collectRelation,
+    []
+  )
+  .option('--incremental', 'Only rewrite files that changed since the previous build')
   .option('-q, --quiet', 'Suppress verbose output')
   .action(async (inputFile: string, options: any) => {
     try {
@@ -30,20 +78,55 @@ program
         process.exit(1);
       }
 
+      if (options.format && !['json', 'ndjson', 'csv', 'tsv'].includes(options.format)) {
+        console.error(`❌ Unsupported input format: ${options.format}`);
+        process.exit(1);
+      }
+
       // Parse options
       const indexFields = options.indexFields
         ? options.indexFields.split(',').map((f: string) => f.trim())
         : undefined;
 
+      const collections =
+        typeof options.collections === 'string'
+          ? options.collections.split(',').map((c: string) => c.trim())
+          : options.collections;
+
       const builder = new AntipatternBuilder({
         outputDir: options.output,
         primaryKeyField: options.primaryKey,
         batchSize: parseInt(options.batchSize),
         indexFields,
         maxIndexValues: parseInt(options.maxIndexValues),
+        indexPageSize: parseInt(options.indexPageSize),
+        textFields: options.textFields?.split(',').map((f: string) => f.trim()),
+        textAnalyzer: { stemming: !!options.stemming },
+        fuzzyFields: options.fuzzyFields?.split(',').map((f: string) => f.trim()),
+        compositeIndexes: options.compositeIndexes
+          ?.split(',')
+          .map((index: string) => index.split('+').map(f => f.trim())),
+        collatedFields: options.collatedFields?.split(',').map((f: string) => f.trim()),
+        geoFields: options.geoFields?.split(',').map((f: string) => f.trim()),
+        prefixFields: options.prefixFields?.split(',').map((f: string) => f.trim()),
+        collation: options.collationLocale && {
+          caseInsensitive: true,
+          accentInsensitive: true,
+          locale: options.collationLocale,
+        },
         enumThreshold: parseInt(options.enumThreshold),
         optionalThreshold: parseFloat(options.optionalThreshold),
         useSubdirectories: !options.noSubdirectories,
+        inputFormat: options.format,
+        streaming: options.stream,
+        incremental: !!options.incremental,
+        collection: options.collection,
+        collections,
+        relations: options.relation,
+        csv: {
+          delimiter: options.delimiter === '\\t' ? '\t' : options.delimiter,
+          header: options.header,
+        },
         verbose: !options.quiet,
       });
 
@@ -59,10 +142,32 @@ program
       console.log(`⏱️  Build time: ${result.buildTime}ms`);
       console.log(`💾 Size: ${result.summary.totalSizeMB} MB`);
 
+      if (result.incremental) {
+        const { added, updated, removed, unchanged } = result.changes;
+        console.log(
+          `♻️  Changes: ${added} added, ${updated} updated, ${removed} removed, ${unchanged} unchanged`
+        );
+      }
+
+      if (result.inputErrors.length > 0) {
+        console.log(`\n⚠️  Skipped ${result.inputErrors.length} malformed input lines:`);
+        result.inputErrors.forEach(error => {
+          console.log(`   Line ${error.line}: ${error.message}`);
+        });
+      }
+
       console.log(`\n🎯 Usage:`);
       console.log(`   import { db } from '${options.output}';`);
-      console.log(`   await db.init();`);
-      console.log(`   const results = await db.query().where('field').equals('value').exec();`);
+      if (result.collections) {
+        // One client per collection, each initialized on first use
+        for (const name of Object.keys(result.collections)) {
+          const client = /^[A-Za-z_$][\w$]*$/.test(name) ? `db.${name}` : `db['${name}']`;
+          console.log(`   await ${client}.query().where('field').equals('value').exec();`);
+        }
+      } else {
+        console.log(`   await db.init();`);
+        console.log(`   const results = await db.query().where('field').equals('value').exec();`);
+      }
     } catch (error) {
       console.error(`❌ Build failed:`, error);
       process.exit(1);
@@ -99,29 +204,14 @@ program
       const info = await builder.info();
 
       console.log(`📊 Database Information`);
-      console.log(`🗄️  Database:`);
-      console.log(`   Records: ${info.database.totalRecords.toLocaleString()}`);
-      console.log(`   Fields: ${info.database.totalFields}`);
-      console.log(`   Indexes: ${info.database.totalIndexes}`);
-      console.log(`   Created: ${new Date(info.database.createdAt).toLocaleString()}`);
-
-      console.log(`📁 Data Files:`);
-      console.log(`   Total files: ${info.data.totalFiles.toLocaleString()}`);
-      console.log(`   Avg file size: ${info.data.avgFileSize} bytes`);
-      console.log(`   Batch size: ${info.data.batchSize}`);
-      console.log(`   Subdirectories: ${info.data.useSubdirectories ? 'Yes' : 'No'}`);
-
-      if (info.indexes.length > 0) {
-        console.log(`📇 Indexes:`);
-        info.indexes.forEach((idx: any) => {
-          console.log(`   ${idx.field}: ${idx.uniqueValues} values (${idx.coverage} coverage)`);
-        });
-      }
 
-      if (info.build) {
-        console.log(`🔨 Build Info:`);
-        console.log(`   Build time: ${info.build.buildTime}ms`);
-        console.log(`   Input file: ${info.build.inputFile}`);
+      if ('collections' in info) {
+        for (const [name, collectionInfo] of Object.entries(info.collections)) {
+          console.log(`\n🗂️  Collection: ${name}`);
+          printDatabaseInfo(collectionInfo);
+        }
+      } else {
+        printDatabaseInfo(info);
       }
     } catch (error) {
       console.error(`❌ Failed to get database info:`, error);
@@ -129,6 +219,49 @@ program
     }
   });
 
+/**
+ * Parse a --relation value such as "cards.artist:artistId->artists"
+ */
+function collectRelation(spec: string, relations: RelationDefinition[]): RelationDefinition[] {
+  const match = spec.match(/^([\w-]+)\.(\w+):([\w.]+)->([\w-]+)$/);
+  if (!match) {
+    throw new Error(`Invalid relation "${spec}" (expected <collection>.<name>:<field>-><target>)`);
+  }
+
+  const [, collection, name, field, target] = match;
+  return [...relations, { collection, name, field, target }];
+}
+
+/**
+ * Print the info of a single-collection database
+ */
+function printDatabaseInfo(info: DatabaseInfo): void {
+  console.log(`🗄️  Database:`);
+  console.log(`   Records: ${info.database.totalRecords.toLocaleString()}`);
+  console.log(`   Fields: ${info.database.totalFields}`);
+  console.log(`   Indexes: ${info.database.totalIndexes}`);
+  console.log(`   Created: ${new Date(info.database.createdAt).toLocaleString()}`);
+
+  console.log(`📁 Data Files:`);
+  console.log(`   Total files: ${info.data.totalFiles.toLocaleString()}`);
+  console.log(`   Avg file size: ${info.data.avgFileSize} bytes`);
+  console.log(`   Batch size: ${info.data.batchSize}`);
+  console.log(`   Subdirectories: ${info.data.useSubdirectories ? 'Yes' : 'No'}`);
+
+  if (info.indexes.length > 0) {
+    console.log(`📇 Indexes:`);
+    info.indexes.forEach(idx => {
+      console.log(`   ${idx.field}: ${idx.uniqueValues} values (${idx.coverage} coverage)`);
+    });
+  }
+
+  if (info.build) {
+    console.log(`🔨 Build Info:`);
+    console.log(`   Build time: ${info.build.buildTime}ms`);
+    console.log(`   Input file: ${info.build.inputFile}`);
+  }
+}
+
 // Quick build command (legacy compatibility)
 program
   .command('generate <input-file> [output-dir]')
@@ -2,7 +2,18 @@
 
 // Builder functionality
 export { AntipatternBuilder } from './builder/index.js';
-export type { BuilderOptions, BuildResult } from './builder/index.js';
+export type {
+  BuilderOptions,
+  BuildResult,
+  BuildSummary,
+  DatabaseInfo,
+  CollectionsInfo,
+  RelationDefinition,
+} from './builder/index.js';
+export type { InputFormat, InputError } from './builder/record-reader.js';
+export type { CSVOptions } from './builder/csv-parser.js';
+export type { SplitChanges } from './builder/data-splitter.js';
+export type { CollectionInfo, CollectionRelation } from './builder/client-generator.js';
 
 // Schema generation
 export { default as JSONToZodGenerator } from './jsontozod.js';
@@ -15,6 +26,7 @@ export {
   FieldPaths,
   ArrayElementType,
   ArrayFields,
+  Projection,
 } from './runtime/typed-query-builder.js';
 
 // Browser-compatible runtime
@@ -31,6 +43,9 @@ export {
 export type {
   QueryResult,
   QueryFilter,
+  QueryGroup,
+  QueryCondition,
+  ElementMatchOptions,
   QuerySort,
   QueryOptions,
   DatabaseRecord,
@@ -39,6 +54,86 @@ export type {
 // Array filtering types
 export type { ArrayFieldFilter, EnhancedQueryResult } from './runtime/typed-query-builder.js';
 
+// Aggregations
+export { count, sum, avg, min, max } from './runtime/core/aggregation.js';
+export type {
+  Aggregation,
+  AggregateSpec,
+  AggregateOptions,
+  AggregateResult,
+  FacetResult,
+  FacetValue,
+} from './runtime/core/aggregation.js';
+export type {
+  AggregateRow,
+  TypedAggregateSpec,
+  TypedFacets,
+} from './runtime/typed-query-builder.js';
+
+// Query plans
+export type {
+  QueryExplanation,
+  PlanNode,
+  FilterPlan,
+  CompositePlan,
+  GroupPlan,
+  PlanStrategy,
+} from './runtime/core/query-planner.js';
+
+// Full-text search
+export type {
+  SearchOptions,
+  SearchResult,
+  SearchHit,
+  TextAnalyzerOptions,
+  TextIndex,
+} from './runtime/core/text-search.js';
+
+// Fuzzy matching
+export type { FuzzyOptions, FuzzyResult, FuzzyHit, TrigramIndex } from './runtime/core/fuzzy.js';
+
+// Case- and accent-insensitive matching
+export type { Collation, CollatedIndex } from './runtime/core/collation.js';
+
+// Geo queries
+export type {
+  GeoPoint,
+  GeoBox,
+  GeoIndex,
+  NearestOptions,
+  NearestResult,
+  NearestHit,
+} from './runtime/core/geo.js';
+export type { GeoField } from './runtime/typed-query-builder.js';
+
+// Autocompletion
+export type {
+  SuggestOptions,
+  Suggestion,
+  PrefixIndex,
+  PrefixShard,
+  PrefixShardData,
+} from './runtime/core/prefix.js';
+
+// Field statistics
+export type { FieldStats, HistogramBucket } from './runtime/core/field-stats.js';
+
+// Compressed record sets of index entries
+export { RecordBitmap } from './runtime/core/bitmap.js';
+
+// Paged indexes of high-cardinality fields
+export type {
+  IndexPaging,
+  IndexPage,
+  PagedIndex,
+  IndexPageData,
+} from './runtime/core/index-pages.js';
+
+// Relations between collections
+export { RelationResolver } from './runtime/core/relations.js';
+export type { RelationConfig, RecordSource } from './runtime/core/relations.js';
+export type { RelatedRecord, QueryExtensions } from './runtime/typed-query-builder.js';
+
 // Core types
 export type {
   DatabaseIndex,
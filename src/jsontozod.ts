@@ -5,6 +5,7 @@ import * as path from 'path';
 interface GeneratorOptions {
   enumThreshold?: number;
   optionalThreshold?: number;
+  verbose?: boolean; // Log progress (default: true)
 }
 
 interface FieldStats {
@@ -37,33 +38,53 @@ class JSONToZodGenerator {
   private optionalThreshold: number;
   private fieldStats: Map<string, FieldStats>;
   private totalRecords: number;
+  private verbose: boolean;
 
   constructor(options: GeneratorOptions = {}) {
     this.enumThreshold = options.enumThreshold || 20; // If field has ≤20 unique values, make it enum
     this.optionalThreshold = options.optionalThreshold || 0.5; // If field present in <50% of records, make optional
     this.fieldStats = new Map();
     this.totalRecords = 0;
+    this.verbose = options.verbose ?? true;
+  }
+
+  private log(message: string): void {
+    if (this.verbose) {
+      console.log(message);
+    }
   }
 
   async generateFromFile(
     inputPath: string,
     outputDir: string = './generated'
   ): Promise<GenerationResult> {
-    console.log(`🔍 Analyzing ${inputPath}...`);
+    this.log(`🔍 Analyzing ${inputPath}...`);
 
     // Read and analyze JSON
     const data = JSON.parse(fs.readFileSync(inputPath, 'utf8'));
     const records = this.extractRecords(data);
 
-    console.log(`📊 Found ${records.length} records`);
+    this.log(`📊 Found ${records.length} records`);
 
     // Analyze all records (no sampling)
-    this.totalRecords = records.length;
+    records.forEach(record => this.addRecord(record));
 
-    records.forEach(record => {
-      this.analyzeRecord(record, '');
-    });
+    return this.writeSchemas(outputDir);
+  }
 
+  /**
+   * Analyze a single record. Lets callers feed records incrementally (e.g. while
+   * streaming a large input) instead of handing over a whole file.
+   */
+  addRecord(record: unknown): void {
+    this.totalRecords++;
+    this.analyzeRecord(record, '');
+  }
+
+  /**
+   * Generate and write schema, type and index files for all records analyzed so far
+   */
+  writeSchemas(outputDir: string = './generated'): GenerationResult {
     // Generate schemas
     const schema = this.generateZodSchema();
     const types = this.generateTypeScript();
@@ -77,10 +98,10 @@ class JSONToZodGenerator {
     fs.writeFileSync(path.join(outputDir, 'types.ts'), types);
     fs.writeFileSync(path.join(outputDir, 'index.ts'), this.generateIndexFile());
 
-    console.log(`✅ Generated schemas in ${outputDir}/`);
-    console.log(`   - schema.ts (Zod schemas)`);
-    console.log(`   - types.ts (TypeScript types)`);
-    console.log(`   - index.ts (exports)`);
+    this.log(`✅ Generated schemas in ${outputDir}/`);
+    this.log(`   - schema.ts (Zod schemas)`);
+    this.log(`   - types.ts (TypeScript types)`);
+    this.log(`   - index.ts (exports)`);
 
     return {
       schema,
@@ -100,8 +121,10 @@ class JSONToZodGenerator {
         const largest = arrayProps.reduce((max, prop) =>
           (dataObj[prop] as unknown[]).length > (dataObj[max] as unknown[]).length ? prop : max
         );
-        console.log(
-          `📋 Using collection: ${largest} (${(dataObj[largest] as unknown[]).length} records)`
+        const ignored = arrayProps.filter(prop => prop !== largest);
+        const note = ignored.length > 0 ? `, ignoring ${ignored.join(', ')}` : '';
+        this.log(
+          `📋 Using collection: ${largest} (${(dataObj[largest] as unknown[]).length} records)${note}`
         );
         return dataObj[largest] as unknown[];
       }
@@ -684,6 +707,25 @@ export { db, TypedDatabaseClient } from './client.js';
 `;
   }
 
+  /**
+   * Fields whose values are all numbers or all ISO 8601 date strings. Their indexes
+   * are written in value order so range queries can binary search them.
+   */
+  getRangeFields(): Record<string, 'number' | 'date'> {
+    const rangeFields: Record<string, 'number' | 'date'> = {};
+    this.fieldStats.forEach((stats, field) => {
+      const types = Array.from(stats.types.keys());
+      if (stats.isArray || types.length === 0) return;
+
+      if (types.every(type => type === 'integer' || type === 'number')) {
+        rangeFields[field] = 'number';
+      } else if (types.every(type => type === 'date-string')) {
+        rangeFields[field] = 'date';
+      }
+    });
+    return rangeFields;
+  }
+
   getFieldStats(): Record<
     string,
     { coverage: number; types: string[]; uniqueValues: number; samples: unknown[] }
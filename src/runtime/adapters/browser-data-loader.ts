@@ -4,7 +4,15 @@ import {
   DatabaseMetadata,
   SplitMetadata,
   DatabaseIndex,
+  CompositeIndex,
+  indexFileName,
 } from '../core/data-loader.js';
+import type { TextIndex } from '../core/text-search.js';
+import type { TrigramIndex } from '../core/fuzzy.js';
+import type { CollatedIndex } from '../core/collation.js';
+import type { GeoIndex } from '../core/geo.js';
+import type { IndexPageData } from '../core/index-pages.js';
+import type { PrefixIndex, PrefixShardData } from '../core/prefix.js';
 
 // Declare fetch for browser environments
 declare const fetch: typeof globalThis.fetch;
@@ -79,7 +87,7 @@ export class BrowserDataLoader implements DataLoader {
 
   async loadIndex(field: string): Promise<DatabaseIndex | any | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/indexes/${field}.json`);
+      const response = await fetch(`${this.baseUrl}/indexes/${indexFileName(field)}.json`);
 
       if (!response.ok) {
         return null;
@@ -92,6 +100,127 @@ export class BrowserDataLoader implements DataLoader {
     }
   }
 
+  async loadTextIndex(field: string): Promise<TextIndex | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/text/${field}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load text index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  async loadIndexPage(field: string, page: number): Promise<IndexPageData> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/indexes/pages/${indexFileName(field)}/${page}.json`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Index page not found`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      throw new Error(`Failed to load index page ${page} of field ${field}: ${error}`);
+    }
+  }
+
+  async loadCompositeIndex(fields: string[]): Promise<CompositeIndex | null> {
+    const name = fields.join('+');
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/composite/${name}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load composite index ${name}:`, error);
+      return null;
+    }
+  }
+
+  async loadTrigramIndex(field: string): Promise<TrigramIndex | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/trigram/${field}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load trigram index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  async loadCollatedIndex(field: string): Promise<CollatedIndex | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/collated/${field}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load collated index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  async loadGeoIndex(field: string): Promise<GeoIndex | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/geo/${field}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load geo index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  async loadPrefixIndex(field: string): Promise<PrefixIndex | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/prefix/${field}.json`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`Failed to load prefix index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  async loadPrefixShard(field: string, shard: number): Promise<PrefixShardData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/indexes/prefix/${field}/${shard}.json`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Prefix shard not found`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      throw new Error(`Failed to load prefix shard ${shard} of field ${field}: ${error}`);
+    }
+  }
+
   async loadPrimaryIndex(): Promise<any> {
     try {
       const response = await fetch(`${this.baseUrl}/indexes/_primary.json`);
@@ -138,4 +267,22 @@ export class BrowserDataLoader implements DataLoader {
 
     return null;
   }
+
+  async loadFile(
+    fileInfo: SplitMetadata['files'][0],
+    splitMetadata: SplitMetadata
+  ): Promise<DatabaseRecord[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/data/${fileInfo.filename}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Data file not found`);
+      }
+
+      const fileContent = await response.json();
+      return splitMetadata.batchSize > 1 ? fileContent : [fileContent];
+    } catch (error) {
+      throw new Error(`Failed to load data file ${fileInfo.filename}: ${error}`);
+    }
+  }
 }
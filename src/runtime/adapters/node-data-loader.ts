@@ -6,7 +6,15 @@ import {
   DatabaseMetadata,
   SplitMetadata,
   DatabaseIndex,
+  CompositeIndex,
+  indexFileName,
 } from '../core/data-loader.js';
+import type { TextIndex } from '../core/text-search.js';
+import type { TrigramIndex } from '../core/fuzzy.js';
+import type { CollatedIndex } from '../core/collation.js';
+import type { GeoIndex } from '../core/geo.js';
+import type { IndexPageData } from '../core/index-pages.js';
+import type { PrefixIndex, PrefixShardData } from '../core/prefix.js';
 
 /**
  * Node.js implementation of DataLoader using file system operations
@@ -76,7 +84,7 @@ export class NodeDataLoader implements DataLoader {
   }
 
   async loadIndex(field: string): Promise<DatabaseIndex | any | null> {
-    const indexPath = path.join(this.databaseDir, 'indexes', `${field}.json`);
+    const indexPath = path.join(this.databaseDir, 'indexes', `${indexFileName(field)}.json`);
 
     if (!fs.existsSync(indexPath)) {
       return null;
@@ -90,6 +98,131 @@ export class NodeDataLoader implements DataLoader {
     }
   }
 
+  async loadTextIndex(field: string): Promise<TextIndex | null> {
+    const indexPath = path.join(this.databaseDir, 'indexes', 'text', `${field}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load text index for field ${field}: ${error}`);
+    }
+  }
+
+  async loadIndexPage(field: string, page: number): Promise<IndexPageData> {
+    const pagePath = path.join(
+      this.databaseDir,
+      'indexes',
+      'pages',
+      indexFileName(field),
+      `${page}.json`
+    );
+
+    if (!fs.existsSync(pagePath)) {
+      throw new Error(`Index page ${page} of field ${field} not found`);
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(pagePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to load index page ${page} of field ${field}: ${error}`);
+    }
+  }
+
+  async loadCompositeIndex(fields: string[]): Promise<CompositeIndex | null> {
+    const name = fields.join('+');
+    const indexPath = path.join(this.databaseDir, 'indexes', 'composite', `${name}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load composite index ${name}: ${error}`);
+    }
+  }
+
+  async loadTrigramIndex(field: string): Promise<TrigramIndex | null> {
+    const indexPath = path.join(this.databaseDir, 'indexes', 'trigram', `${field}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load trigram index for field ${field}: ${error}`);
+    }
+  }
+
+  async loadCollatedIndex(field: string): Promise<CollatedIndex | null> {
+    const indexPath = path.join(this.databaseDir, 'indexes', 'collated', `${field}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load collated index for field ${field}: ${error}`);
+    }
+  }
+
+  async loadGeoIndex(field: string): Promise<GeoIndex | null> {
+    const indexPath = path.join(this.databaseDir, 'indexes', 'geo', `${field}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load geo index for field ${field}: ${error}`);
+    }
+  }
+
+  async loadPrefixIndex(field: string): Promise<PrefixIndex | null> {
+    const indexPath = path.join(this.databaseDir, 'indexes', 'prefix', `${field}.json`);
+
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+
+    try {
+      const indexContent = fs.readFileSync(indexPath, 'utf8');
+      return JSON.parse(indexContent);
+    } catch (error) {
+      throw new Error(`Failed to load prefix index for field ${field}: ${error}`);
+    }
+  }
+
+  async loadPrefixShard(field: string, shard: number): Promise<PrefixShardData> {
+    const shardPath = path.join(this.databaseDir, 'indexes', 'prefix', field, `${shard}.json`);
+
+    if (!fs.existsSync(shardPath)) {
+      throw new Error(`Prefix shard ${shard} of field ${field} not found`);
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(shardPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to load prefix shard ${shard} of field ${field}: ${error}`);
+    }
+  }
+
   async loadPrimaryIndex(): Promise<any> {
     const indexPath = path.join(this.databaseDir, 'indexes', '_primary.json');
 
@@ -137,4 +270,22 @@ export class NodeDataLoader implements DataLoader {
 
     return null;
   }
+
+  async loadFile(
+    fileInfo: SplitMetadata['files'][0],
+    splitMetadata: SplitMetadata
+  ): Promise<DatabaseRecord[]> {
+    const filePath = path.join(this.databaseDir, 'data', fileInfo.filename);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Data file ${fileInfo.filename} not found`);
+    }
+
+    try {
+      const fileContent = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return splitMetadata.batchSize > 1 ? fileContent : [fileContent];
+    } catch (error) {
+      throw new Error(`Failed to load data file ${fileInfo.filename}: ${error}`);
+    }
+  }
 }
@@ -1,17 +1,50 @@
 import {
   QueryEngine,
-  type QueryFilter as CoreQueryFilter,
+  type QueryCondition as CoreQueryCondition,
   type QueryOptions as CoreQueryOptions,
+  type ElementMatchOptions,
 } from './core/query-engine.js';
+import type { QueryExplanation } from './core/query-planner.js';
+import type { SearchOptions, SearchResult } from './core/text-search.js';
+import type { FuzzyOptions, FuzzyResult } from './core/fuzzy.js';
 import { BrowserDataLoader } from './adapters/browser-data-loader.js';
+import { withCollation, type Collation } from './core/collation.js';
+import {
+  checkPoint,
+  geoBox,
+  geoRadius,
+  type GeoPoint,
+  type NearestOptions,
+  type NearestResult,
+} from './core/geo.js';
+import type { SuggestOptions, Suggestion } from './core/prefix.js';
+import type { FieldStats, HistogramBucket } from './core/field-stats.js';
 import { DatabaseRecord, DatabaseMetadata } from './core/data-loader.js';
+import {
+  distinctValues,
+  type AggregateOptions,
+  type AggregateResult,
+  type AggregateSpec,
+  type FacetResult,
+  type FacetValue,
+} from './core/aggregation.js';
 
 export interface QueryFilter {
   field: string;
   operator: QueryOperator;
   value: unknown;
+  collation?: Collation; // Compare strings ignoring case and/or accents
+}
+
+export interface QueryGroup {
+  type: 'and' | 'or' | 'not' | 'element';
+  field?: string; // Array field of an 'element' group
+  onlyMatching?: boolean; // Return only the matching elements of an 'element' group's array
+  conditions: QueryCondition[];
 }
 
+export type QueryCondition = QueryFilter | QueryGroup;
+
 export interface QuerySort {
   field: string;
   direction: 'asc' | 'desc';
@@ -21,16 +54,19 @@ export interface QueryOptions {
   limit?: number;
   offset?: number;
   sort?: QuerySort[];
+  select?: string[];
+  after?: string;
 }
 
 export interface QueryResult<T = DatabaseRecord> {
   records: T[];
   total: number;
   hasMore: boolean;
+  nextCursor?: string;
   metadata: {
     took: number;
     query: {
-      filters: QueryFilter[];
+      filters: QueryCondition[];
       options: QueryOptions;
     };
   };
@@ -44,6 +80,7 @@ export enum QueryOperator {
   GREATER_THAN_OR_EQUAL = 'greater_than_or_equal',
   LESS_THAN = 'less_than',
   LESS_THAN_OR_EQUAL = 'less_than_or_equal',
+  BETWEEN = 'between',
   IN = 'in',
   NOT_IN = 'not_in',
   CONTAINS = 'contains',
@@ -53,10 +90,15 @@ export enum QueryOperator {
   REGEX = 'regex',
   EXISTS = 'exists',
   NOT_EXISTS = 'not_exists',
+  WITHIN_RADIUS = 'within_radius',
+  WITHIN_BOX = 'within_box',
 }
 
 // Re-export from core
-export type { DatabaseRecord, DatabaseMetadata };
+export type { DatabaseRecord, DatabaseMetadata, Collation, ElementMatchOptions };
+export type { AggregateOptions, AggregateResult, AggregateSpec, FacetResult, FacetValue };
+export type { SuggestOptions, Suggestion };
+export type { FieldStats, HistogramBucket };
 
 // Mapping between browser and core query operators
 const OPERATOR_MAPPING: Record<QueryOperator, string> = {
@@ -66,20 +108,45 @@ const OPERATOR_MAPPING: Record<QueryOperator, string> = {
   [QueryOperator.GREATER_THAN_OR_EQUAL]: 'GREATER_THAN_OR_EQUAL',
   [QueryOperator.LESS_THAN]: 'LESS_THAN',
   [QueryOperator.LESS_THAN_OR_EQUAL]: 'LESS_THAN_OR_EQUAL',
+  [QueryOperator.BETWEEN]: 'BETWEEN',
   [QueryOperator.IN]: 'IN',
-  [QueryOperator.NOT_IN]: 'IN', // Map to IN for now, handle negation in core
+  [QueryOperator.NOT_IN]: 'IN', // Negated with a 'not' group, see toCoreCondition
   [QueryOperator.CONTAINS]: 'CONTAINS',
-  [QueryOperator.NOT_CONTAINS]: 'CONTAINS', // Map to CONTAINS, handle negation in core
+  [QueryOperator.NOT_CONTAINS]: 'CONTAINS', // Negated with a 'not' group, see toCoreCondition
   [QueryOperator.STARTS_WITH]: 'STARTS_WITH',
   [QueryOperator.ENDS_WITH]: 'ENDS_WITH',
   [QueryOperator.REGEX]: 'CONTAINS', // Fallback to CONTAINS for regex
   [QueryOperator.EXISTS]: 'EQUALS', // Special handling needed
   [QueryOperator.NOT_EXISTS]: 'EQUALS', // Special handling needed
+  [QueryOperator.WITHIN_RADIUS]: 'WITHIN_RADIUS',
+  [QueryOperator.WITHIN_BOX]: 'WITHIN_BOX',
 };
 
+// Operators evaluated as the negation of another operator
+const NEGATED_OPERATORS = new Set([QueryOperator.NOT_IN, QueryOperator.NOT_CONTAINS]);
+
+/**
+ * Convert a browser condition to a core condition
+ */
+function toCoreCondition(condition: QueryCondition): CoreQueryCondition {
+  if ('conditions' in condition) {
+    return { ...condition, conditions: condition.conditions.map(toCoreCondition) };
+  }
+
+  const filter = {
+    field: condition.field,
+    operator: OPERATOR_MAPPING[condition.operator] as any, // Type assertion needed for enum conversion
+    value: condition.value,
+    ...(condition.collation && { collation: condition.collation }),
+  };
+  return NEGATED_OPERATORS.has(condition.operator) ? { type: 'not', conditions: [filter] } : filter;
+}
+
 export class BrowserQueryBuilder<T = DatabaseRecord> {
-  private filters: QueryFilter[] = [];
+  private filters: QueryCondition[] = [];
   private options: QueryOptions = {};
+  private groupByField?: string;
+  private collation?: Collation; // Applied to the filters without a collation of their own
 
   constructor(private client: BrowserAntipatternDB) {}
 
@@ -97,6 +164,12 @@ export class BrowserQueryBuilder<T = DatabaseRecord> {
     return this;
   }
 
+  // Continue after the last record of a previous page (its nextCursor)
+  after(cursor: string): this {
+    this.options.after = cursor;
+    return this;
+  }
+
   sort(field: string, direction: 'asc' | 'desc' = 'asc'): this {
     if (!this.options.sort) {
       this.options.sort = [];
@@ -105,13 +178,188 @@ export class BrowserQueryBuilder<T = DatabaseRecord> {
     return this;
   }
 
-  addFilter(filter: QueryFilter): this {
+  addFilter(filter: QueryCondition): this {
     this.filters.push(filter);
     return this;
   }
 
+  /**
+   * Compare strings ignoring case and/or accents in every filter of the query. Filters
+   * given a collation of their own keep it.
+   */
+  collate(collation: Collation): this {
+    this.collation = collation;
+    return this;
+  }
+
+  /**
+   * Match records that satisfy any of the branches (conditions within a branch are ANDed)
+   */
+  or(...branches: ((query: BrowserQueryBuilder<T>) => BrowserQueryBuilder<T>)[]): this {
+    return this.addFilter({
+      type: 'or',
+      conditions: branches.map(branch => this.group('and', branch)),
+    });
+  }
+
+  /**
+   * Match records that do not satisfy all conditions of the branch
+   */
+  not(branch: (query: BrowserQueryBuilder<T>) => BrowserQueryBuilder<T>): this {
+    return this.addFilter(this.group('not', branch));
+  }
+
+  /**
+   * Nest conditions that must all match, e.g. inside an or() branch
+   */
+  and(branch: (query: BrowserQueryBuilder<T>) => BrowserQueryBuilder<T>): this {
+    return this.addFilter(this.group('and', branch));
+  }
+
+  /**
+   * Match records where a single element of an array field satisfies all conditions of
+   * the branch, whose fields are paths within the element
+   */
+  whereElement(
+    field: string,
+    branch: (query: BrowserQueryBuilder<any>) => BrowserQueryBuilder<any>,
+    options: ElementMatchOptions = {}
+  ): this {
+    const { conditions } = this.group('element', branch);
+    return this.addFilter({ type: 'element', field, conditions, ...options });
+  }
+
+  private group(
+    type: QueryGroup['type'],
+    branch: (query: BrowserQueryBuilder<T>) => BrowserQueryBuilder<T>
+  ): QueryGroup {
+    return {
+      type,
+      conditions: branch(new BrowserQueryBuilder<T>(this.client)).collatedFilters(),
+    };
+  }
+
+  // Filters with the query collation applied
+  private collatedFilters(): QueryCondition[] {
+    return withCollation(this.filters, this.collation);
+  }
+
+  /**
+   * Match records whose point lies within a distance (km) of a center, using the field's
+   * geo index. The field holds a point, or names latitude and longitude fields as 'lat+lng'.
+   */
+  withinRadius(field: string, center: GeoPoint, km: number): this {
+    return this.addFilter({
+      field,
+      operator: QueryOperator.WITHIN_RADIUS,
+      value: geoRadius(center, km),
+    });
+  }
+
+  /**
+   * Match records whose point lies within a box, from its south-west to its north-east corner
+   */
+  withinBox(field: string, southWest: GeoPoint, northEast: GeoPoint): this {
+    return this.addFilter({
+      field,
+      operator: QueryOperator.WITHIN_BOX,
+      value: geoBox(southWest, northEast),
+    });
+  }
+
+  /**
+   * Group the results of aggregate() by the values of a field
+   */
+  groupBy(field: string): this {
+    this.groupByField = field;
+    return this;
+  }
+
+  /**
+   * Aggregate the matching records instead of returning them
+   */
+  async aggregate(aggregates: AggregateSpec): Promise<AggregateResult> {
+    return this.client.aggregate(this.collatedFilters(), {
+      groupBy: this.groupByField,
+      aggregates,
+    });
+  }
+
+  /**
+   * Count the values of fields among the matching records
+   */
+  async facets(fields: string[]): Promise<FacetResult> {
+    return this.client.facets(this.collatedFilters(), fields);
+  }
+
+  /**
+   * Distinct values of a field among the matching records, in ascending order
+   */
+  async distinct(field: string): Promise<unknown[]> {
+    const { facets } = await this.client.facets(this.collatedFilters(), [field]);
+    return distinctValues(facets[field]);
+  }
+
+  /**
+   * Run the query and report how it was planned
+   */
+  async explain(): Promise<QueryExplanation> {
+    return this.client.explain(this.collatedFilters());
+  }
+
+  /**
+   * Rank the matching records by relevance to the text, using the full-text indexes
+   */
+  async search(text: string, options: SearchOptions = {}): Promise<SearchResult<T>> {
+    if (this.options.sort?.length || this.options.after !== undefined) {
+      throw new Error('Search results are ordered by relevance and cannot be sorted');
+    }
+    return this.client.search<T>(this.collatedFilters(), text, options, this.options);
+  }
+
+  /**
+   * Find the matching records whose field is within a few typos of the text, closest
+   * first, using the field's trigram index
+   */
+  async fuzzy(field: string, text: string, options: FuzzyOptions = {}): Promise<FuzzyResult<T>> {
+    if (this.options.sort?.length || this.options.after !== undefined) {
+      throw new Error('Fuzzy matches are ordered by similarity and cannot be sorted');
+    }
+    return this.client.fuzzy<T>(this.collatedFilters(), field, text, options, this.options);
+  }
+
+  /**
+   * Find the k matching records whose point field is closest to a point, closest first,
+   * using the field's geo index
+   */
+  async nearest(
+    field: string,
+    point: GeoPoint,
+    k = 10,
+    options: NearestOptions = {}
+  ): Promise<NearestResult<T>> {
+    if (this.options.sort?.length || this.options.after !== undefined) {
+      throw new Error('Nearest matches are ordered by distance and cannot be sorted');
+    }
+    checkPoint(point);
+    return this.client.nearest<T>(this.collatedFilters(), field, point, options, {
+      ...this.options,
+      limit: k,
+    });
+  }
+
   async exec(): Promise<QueryResult<T>> {
-    return this.client.executeQuery<T>(this.filters, this.options);
+    return this.client.executeQuery<T>(this.collatedFilters(), this.options);
+  }
+
+  /**
+   * Stream the matching records one data file at a time, in storage order
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    if (this.options.sort?.length || this.options.after !== undefined) {
+      throw new Error('Sorted queries cannot be streamed; page through them with after() instead');
+    }
+    return this.client.streamQuery<T>(this.collatedFilters(), this.options);
   }
 }
 
@@ -121,19 +369,21 @@ export class BrowserFieldQuery<T = DatabaseRecord> {
     private field: string
   ) {}
 
-  equals(value: unknown): BrowserQueryBuilder<T> {
+  equals(value: unknown, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.EQUALS,
       value,
+      ...(collation && { collation }),
     });
   }
 
-  notEquals(value: unknown): BrowserQueryBuilder<T> {
+  notEquals(value: unknown, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.NOT_EQUALS,
       value,
+      ...(collation && { collation }),
     });
   }
 
@@ -169,51 +419,66 @@ export class BrowserFieldQuery<T = DatabaseRecord> {
     });
   }
 
-  in(values: unknown[]): BrowserQueryBuilder<T> {
+  // Inclusive range, min <= value <= max
+  between(min: unknown, max: unknown): BrowserQueryBuilder<T> {
+    return this.builder.addFilter({
+      field: this.field,
+      operator: QueryOperator.BETWEEN,
+      value: [min, max],
+    });
+  }
+
+  in(values: unknown[], collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.IN,
       value: values,
+      ...(collation && { collation }),
     });
   }
 
-  notIn(values: unknown[]): BrowserQueryBuilder<T> {
+  notIn(values: unknown[], collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.NOT_IN,
       value: values,
+      ...(collation && { collation }),
     });
   }
 
-  contains(value: string): BrowserQueryBuilder<T> {
+  contains(value: string, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.CONTAINS,
       value,
+      ...(collation && { collation }),
     });
   }
 
-  notContains(value: string): BrowserQueryBuilder<T> {
+  notContains(value: string, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.NOT_CONTAINS,
       value,
+      ...(collation && { collation }),
     });
   }
 
-  startsWith(value: string): BrowserQueryBuilder<T> {
+  startsWith(value: string, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.STARTS_WITH,
       value,
+      ...(collation && { collation }),
     });
   }
 
-  endsWith(value: string): BrowserQueryBuilder<T> {
+  endsWith(value: string, collation?: Collation): BrowserQueryBuilder<T> {
     return this.builder.addFilter({
       field: this.field,
       operator: QueryOperator.ENDS_WITH,
       value,
+      ...(collation && { collation }),
     });
   }
 
@@ -251,23 +516,21 @@ export class BrowserAntipatternDB {
   }
 
   async executeQuery<T = DatabaseRecord>(
-    filters: QueryFilter[],
+    filters: QueryCondition[],
     options: QueryOptions = {}
   ): Promise<QueryResult<T>> {
     const startTime = performance.now();
 
     // Convert browser filters to core filters
-    const coreFilters: CoreQueryFilter[] = filters.map(filter => ({
-      field: filter.field,
-      operator: OPERATOR_MAPPING[filter.operator] as any, // Type assertion needed for enum conversion
-      value: filter.value,
-    }));
+    const coreFilters = filters.map(toCoreCondition);
 
     // Convert browser options to core options
     const coreOptions: CoreQueryOptions = {
       limit: options.limit,
       offset: options.offset,
       sort: options.sort,
+      select: options.select,
+      after: options.after,
     };
 
     const result = await this.engine.executeQuery<T>(coreFilters, coreOptions);
@@ -279,6 +542,7 @@ export class BrowserAntipatternDB {
       records: result.records,
       total: result.totalCount,
       hasMore: result.hasMore,
+      nextCursor: result.nextCursor,
       metadata: {
         took: endTime - startTime,
         query: { filters, options },
@@ -286,14 +550,102 @@ export class BrowserAntipatternDB {
     };
   }
 
+  streamQuery<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    options: QueryOptions = {}
+  ): AsyncGenerator<T> {
+    return this.engine.streamQuery<T>(filters.map(toCoreCondition), {
+      limit: options.limit,
+      offset: options.offset,
+      select: options.select,
+    });
+  }
+
+  async search<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    text: string,
+    options: SearchOptions = {},
+    page: QueryOptions = {}
+  ): Promise<SearchResult<T>> {
+    return this.engine.search<T>(filters.map(toCoreCondition), text, options, {
+      limit: page.limit,
+      offset: page.offset,
+      select: page.select,
+    });
+  }
+
+  async fuzzy<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    text: string,
+    options: FuzzyOptions = {},
+    page: QueryOptions = {}
+  ): Promise<FuzzyResult<T>> {
+    return this.engine.fuzzy<T>(filters.map(toCoreCondition), field, text, options, {
+      limit: page.limit,
+      offset: page.offset,
+      select: page.select,
+    });
+  }
+
+  async nearest<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    point: GeoPoint,
+    options: NearestOptions = {},
+    page: QueryOptions = {}
+  ): Promise<NearestResult<T>> {
+    return this.engine.nearest<T>(filters.map(toCoreCondition), field, point, options, {
+      limit: page.limit,
+      offset: page.offset,
+      select: page.select,
+    });
+  }
+
+  /**
+   * Complete a prefix with the most frequent values of a field (case-insensitive),
+   * fetching only the prefix index shards the prefix can fall in
+   */
+  async suggest(
+    field: string,
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<Suggestion[]> {
+    return this.engine.suggest(field, prefix, options);
+  }
+
+  async explain(filters: QueryCondition[]): Promise<QueryExplanation> {
+    return this.engine.explain(filters.map(toCoreCondition));
+  }
+
+  async aggregate(filters: QueryCondition[], options: AggregateOptions): Promise<AggregateResult> {
+    return this.engine.aggregate(filters.map(toCoreCondition), options);
+  }
+
+  async facets(filters: QueryCondition[], fields: string[]): Promise<FacetResult> {
+    return this.engine.facets(filters.map(toCoreCondition), fields);
+  }
+
   async getMetadata(): Promise<DatabaseMetadata | undefined> {
     return this.engine.getMetadata();
   }
 
+  /**
+   * Bounds, mean, null count, most common values and histogram of a field, computed at
+   * build time (e.g. for range slider bounds)
+   */
+  async getFieldStats(field: string): Promise<FieldStats | null> {
+    return this.engine.getFieldStats(field);
+  }
+
   async getRecord<T = DatabaseRecord>(id: string): Promise<T | null> {
     return this.engine.getRecord<T>(id);
   }
 
+  async getRecords<T = DatabaseRecord>(ids: unknown[]): Promise<(T | null)[]> {
+    return this.engine.getRecords<T>(ids);
+  }
+
   async getAllRecords<T = DatabaseRecord>(limit?: number): Promise<T[]> {
     return this.engine.getAllRecords<T>(limit);
   }
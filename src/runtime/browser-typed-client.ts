@@ -1,21 +1,66 @@
-import { BrowserAntipatternDB, QueryResult, QueryFilter, QueryOptions } from './browser-client.js';
-import { TypeSafeQueryBuilder } from './typed-query-builder.js';
+import {
+  BrowserAntipatternDB,
+  QueryCondition,
+  QueryOperator,
+  QueryOptions,
+  type FieldStats,
+  type SuggestOptions,
+  type Suggestion,
+} from './browser-client.js';
+import { TypeSafeQueryBuilder, type FieldPaths } from './typed-query-builder.js';
+import {
+  QueryOperator as CoreQueryOperator,
+  type QueryCondition as CoreQueryCondition,
+  type QueryResult as CoreQueryResult,
+} from './core/query-engine.js';
+import { RelationConfig, RelationResolver } from './core/relations.js';
 import { z } from 'zod';
 
+// Browser operators of the core operators used by TypeSafeQueryBuilder
+const BROWSER_OPERATORS: Record<CoreQueryOperator, QueryOperator> = {
+  [CoreQueryOperator.EQUALS]: QueryOperator.EQUALS,
+  [CoreQueryOperator.NOT_EQUALS]: QueryOperator.NOT_EQUALS,
+  [CoreQueryOperator.GREATER_THAN]: QueryOperator.GREATER_THAN,
+  [CoreQueryOperator.LESS_THAN]: QueryOperator.LESS_THAN,
+  [CoreQueryOperator.GREATER_THAN_OR_EQUAL]: QueryOperator.GREATER_THAN_OR_EQUAL,
+  [CoreQueryOperator.LESS_THAN_OR_EQUAL]: QueryOperator.LESS_THAN_OR_EQUAL,
+  [CoreQueryOperator.BETWEEN]: QueryOperator.BETWEEN,
+  [CoreQueryOperator.IN]: QueryOperator.IN,
+  [CoreQueryOperator.CONTAINS]: QueryOperator.CONTAINS,
+  [CoreQueryOperator.STARTS_WITH]: QueryOperator.STARTS_WITH,
+  [CoreQueryOperator.ENDS_WITH]: QueryOperator.ENDS_WITH,
+  [CoreQueryOperator.WITHIN_RADIUS]: QueryOperator.WITHIN_RADIUS,
+  [CoreQueryOperator.WITHIN_BOX]: QueryOperator.WITHIN_BOX,
+};
+
+/**
+ * Convert the conditions built by TypeSafeQueryBuilder to browser conditions
+ */
+function toBrowserConditions(conditions: CoreQueryCondition[]): QueryCondition[] {
+  return conditions.map(condition =>
+    'conditions' in condition
+      ? { ...condition, conditions: toBrowserConditions(condition.conditions) }
+      : { ...condition, operator: BROWSER_OPERATORS[condition.operator] }
+  );
+}
+
 /**
  * Browser-compatible type-safe database client that wraps BrowserAntipatternDB with specific record types
  */
 export class BrowserTypedDatabaseClient<
   TRecord extends Record<string, unknown>,
   TSchema extends z.ZodSchema = z.ZodSchema,
+  TRelations extends object = Record<never, never>,
 > {
   private client: BrowserAntipatternDB;
   private schema?: TSchema;
+  private relations: RelationResolver;
   private initialized = false;
 
-  constructor(baseUrl: string, schema?: TSchema) {
+  constructor(baseUrl: string, schema?: TSchema, relations?: Record<string, RelationConfig>) {
     this.client = new BrowserAntipatternDB(baseUrl);
     this.schema = schema;
+    this.relations = new RelationResolver(relations);
   }
 
   /**
@@ -33,18 +78,65 @@ export class BrowserTypedDatabaseClient<
    * Create a type-safe query builder
    * Database auto-initializes on first use
    */
-  query(): TypeSafeQueryBuilder<TRecord> {
+  query(): TypeSafeQueryBuilder<TRecord, TRelations> {
     // Create a bound executeQuery function for the TypeSafeQueryBuilder
     const executeQuery = async (
-      filters: QueryFilter[],
+      filters: CoreQueryCondition[],
       options?: QueryOptions
-    ): Promise<QueryResult<TRecord>> => {
+    ): Promise<CoreQueryResult<TRecord>> => {
       if (!this.initialized) {
         await this.init();
       }
-      return this.client.executeQuery<TRecord>(filters, options);
+      const result = await this.client.executeQuery<TRecord>(toBrowserConditions(filters), options);
+      return {
+        records: result.records,
+        totalCount: result.total,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+        executionTime: result.metadata.took,
+      };
     };
-    return new TypeSafeQueryBuilder<TRecord>(executeQuery as any);
+    return new TypeSafeQueryBuilder<TRecord, TRelations>(executeQuery, {
+      resolveInclude: (records, relation) => this.relations.include(records, relation),
+      relationField: relation => this.relations.fieldOf(relation),
+      aggregate: async (filters, options) => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.aggregate(toBrowserConditions(filters), options);
+      },
+      facets: async (filters, fields) => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.facets(toBrowserConditions(filters), fields);
+      },
+      stream: (filters, options) => this.client.streamQuery(toBrowserConditions(filters), options),
+      explain: async filters => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.explain(toBrowserConditions(filters));
+      },
+      search: async (filters, text, options, page) => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.search(toBrowserConditions(filters), text, options, page);
+      },
+      fuzzy: async (filters, field, text, options, page) => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.fuzzy(toBrowserConditions(filters), field, text, options, page);
+      },
+      nearest: async (filters, field, point, options, page) => {
+        if (!this.initialized) {
+          await this.init();
+        }
+        return this.client.nearest(toBrowserConditions(filters), field, point, options, page);
+      },
+    });
   }
 
   /**
@@ -57,6 +149,30 @@ export class BrowserTypedDatabaseClient<
     return this.client.getRecord<TRecord>(id);
   }
 
+  /**
+   * Get several records by primary key in one call, in the order of the keys
+   */
+  async getRecords(ids: unknown[]): Promise<(TRecord | null)[]> {
+    if (!this.initialized) {
+      await this.init();
+    }
+    return this.client.getRecords<TRecord>(ids);
+  }
+
+  /**
+   * Complete a prefix with the most frequent values of a field that has a prefix index
+   */
+  async suggest(
+    field: FieldPaths<TRecord> & string,
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<Suggestion[]> {
+    if (!this.initialized) {
+      await this.init();
+    }
+    return this.client.suggest(field, prefix, options);
+  }
+
   /**
    * Get all records (with optional limit)
    */
@@ -77,6 +193,16 @@ export class BrowserTypedDatabaseClient<
     return this.client.getMetadata();
   }
 
+  /**
+   * Get the statistics of a field computed at build time
+   */
+  async getFieldStats(field: FieldPaths<TRecord> & string): Promise<FieldStats | null> {
+    if (!this.initialized) {
+      await this.init();
+    }
+    return this.client.getFieldStats(field);
+  }
+
   /**
    * Validate a record against the schema (if provided)
    */
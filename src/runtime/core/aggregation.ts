@@ -0,0 +1,225 @@
+import type { DatabaseRecord } from './data-loader.js';
+import { getNestedValue } from './projection.js';
+
+export type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface Aggregation<O extends AggregateOperation = AggregateOperation, F = string> {
+  operation: O;
+  field?: F;
+}
+
+// Output property -> aggregation; `true` is shorthand for count()
+export type AggregateSpec = Record<string, true | Aggregation>;
+
+export interface AggregateOptions {
+  groupBy?: string;
+  aggregates: AggregateSpec;
+}
+
+export interface AggregateResult<Row = Record<string, unknown>> {
+  groups: Row[]; // One row per group (a single row without groupBy)
+  totalCount: number; // Number of records aggregated
+  fromIndex: boolean; // Answered from index files without loading records
+  executionTime: number;
+}
+
+export interface FacetValue<V = unknown> {
+  value: V;
+  count: number; // Number of matching records with this value
+}
+
+export interface FacetResult<Facets = Record<string, FacetValue[]>> {
+  facets: Facets; // Field -> values with counts, most common first
+  totalCount: number; // Number of matching records
+  executionTime: number;
+}
+
+// Aggregation helpers, e.g. aggregate({ count: true, avgCost: avg('cost') })
+export function count(): Aggregation<'count', never> {
+  return { operation: 'count' };
+}
+
+export function sum<F extends string>(field: F): Aggregation<'sum', F> {
+  return { operation: 'sum', field };
+}
+
+export function avg<F extends string>(field: F): Aggregation<'avg', F> {
+  return { operation: 'avg', field };
+}
+
+export function min<F extends string>(field: F): Aggregation<'min', F> {
+  return { operation: 'min', field };
+}
+
+export function max<F extends string>(field: F): Aggregation<'max', F> {
+  return { operation: 'max', field };
+}
+
+/**
+ * Whether every aggregation of a spec only counts records
+ */
+export function isCountOnly(aggregates: AggregateSpec): boolean {
+  return Object.values(aggregates).every(
+    aggregation => aggregation === true || aggregation.operation === 'count'
+  );
+}
+
+/**
+ * Group keys of a value. Array values put a record in the group of every element,
+ * like array field indexes do; missing values and empty arrays group under null.
+ */
+export function groupKeys(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value : [null];
+  }
+  return [value ?? null];
+}
+
+/**
+ * Count the records of each group of a field (see groupKeys)
+ */
+export function countGroups(records: DatabaseRecord[], field: string): Map<unknown, number> {
+  const counts = new Map<unknown, number>();
+  for (const record of records) {
+    for (const key of groupKeys(getNestedValue(record, field))) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Facet values from group counts, most common first. Records without a value are
+ * not a facet value.
+ */
+export function facetValues(counts: Map<unknown, number>): FacetValue[] {
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .filter(facet => facet.value !== null)
+    .sort((a, b) => b.count - a.count || compareValues(a.value, b.value));
+}
+
+/**
+ * The values of a facet in ascending order
+ */
+export function distinctValues<V>(facet: FacetValue<V>[]): V[] {
+  return facet.map(({ value }) => value).sort(compareValues);
+}
+
+/**
+ * Build result rows from the record count of each group
+ */
+export function rowsFromCounts(
+  counts: Map<unknown, number>,
+  options: AggregateOptions
+): Record<string, unknown>[] {
+  const rows = Array.from(counts, ([key, recordCount]) => {
+    const row: Record<string, unknown> = options.groupBy ? { [options.groupBy]: key } : {};
+    for (const name of Object.keys(options.aggregates)) {
+      row[name] = recordCount;
+    }
+    return row;
+  });
+
+  return sortRows(rows, options.groupBy);
+}
+
+/**
+ * Aggregate loaded records, grouped by options.groupBy when given
+ */
+export function aggregateRecords(
+  records: DatabaseRecord[],
+  options: AggregateOptions
+): Record<string, unknown>[] {
+  const groups = new Map<unknown, DatabaseRecord[]>();
+  if (!options.groupBy) {
+    groups.set(null, records);
+  } else {
+    for (const record of records) {
+      for (const key of groupKeys(getNestedValue(record, options.groupBy))) {
+        const group = groups.get(key) ?? [];
+        group.push(record);
+        groups.set(key, group);
+      }
+    }
+  }
+
+  const rows = Array.from(groups, ([key, groupRecords]) => {
+    const row: Record<string, unknown> = options.groupBy ? { [options.groupBy]: key } : {};
+    for (const [name, aggregation] of Object.entries(options.aggregates)) {
+      row[name] = aggregation === true ? groupRecords.length : compute(groupRecords, aggregation);
+    }
+    return row;
+  });
+
+  return sortRows(rows, options.groupBy);
+}
+
+function compute(records: DatabaseRecord[], aggregation: Aggregation): unknown {
+  if (aggregation.operation === 'count') {
+    return records.length;
+  }
+
+  const { field } = aggregation;
+  if (field === undefined) {
+    throw new Error(`Aggregation "${aggregation.operation}" needs a field`);
+  }
+  const values = records
+    .map(record => getNestedValue(record, field))
+    .filter(value => value !== null && value !== undefined);
+
+  switch (aggregation.operation) {
+    case 'sum':
+    case 'avg': {
+      const numbers = values.filter((value): value is number => typeof value === 'number');
+      const total = numbers.reduce((result, value) => result + value, 0);
+      if (aggregation.operation === 'sum') return total;
+      return numbers.length > 0 ? total / numbers.length : null;
+    }
+    case 'min':
+      return values.reduce<unknown>(
+        (result, value) => (result === null || compareValues(value, result) < 0 ? value : result),
+        null
+      );
+    case 'max':
+      return values.reduce<unknown>(
+        (result, value) => (result === null || compareValues(value, result) > 0 ? value : result),
+        null
+      );
+    default:
+      throw new Error(`Unknown aggregation "${aggregation.operation}"`);
+  }
+}
+
+// Groups are ordered by key, with the null group last
+function sortRows(rows: Record<string, unknown>[], groupBy?: string): Record<string, unknown>[] {
+  if (!groupBy) return rows;
+
+  return rows.sort((a, b) => compareValues(a[groupBy], b[groupBy]));
+}
+
+// Order of values of different types: numbers, strings, booleans, then anything else
+const TYPE_ORDER = ['number', 'string', 'boolean'];
+
+/**
+ * Order values ascending, with null last. Values of different types are ordered by
+ * type, numbers first.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === null) return b === null ? 0 : 1;
+  if (b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return typeRank(a) - typeRank(b);
+}
+
+function typeRank(value: unknown): number {
+  const rank = TYPE_ORDER.indexOf(typeof value);
+  return rank === -1 ? TYPE_ORDER.length : rank;
+}
@@ -0,0 +1,434 @@
+/**
+ * Compressed sets of record ordinals (positions in the primary key index), after roaring
+ * bitmaps: ordinals are grouped by their upper 16 bits into containers that hold the
+ * lower 16 bits as a sorted array while sparse and as a 65536-bit bitset once dense.
+ * Index files store the records of each entry as a serialized bitmap, and the query
+ * engine combines filters with and(), or() and andNot() on whole containers.
+ */
+
+const ARRAY_MAX = 4096; // Containers with more values are smaller as bitsets (8 KB)
+const WORDS = 2048; // 32-bit words of a bitset container
+
+// Serialized container formats
+const ARRAY = 0;
+const BITSET = 1;
+const RUNS = 2; // [start, length - 1] pairs of consecutive values
+
+// Sorted lower 16 bits, or a bitset of WORDS words
+type Container = Uint16Array | Uint32Array;
+
+export class RecordBitmap implements Iterable<number> {
+  private constructor(
+    private readonly keys: number[], // Upper 16 bits of each container's ordinals, ascending
+    private readonly containers: Container[]
+  ) {}
+
+  static empty(): RecordBitmap {
+    return new RecordBitmap([], []);
+  }
+
+  /**
+   * Bitmap of the given ordinals, in any order
+   */
+  static of(ordinals: Iterable<number>): RecordBitmap {
+    const sorted = Uint32Array.from(ordinals).sort();
+    const keys: number[] = [];
+    const containers: Container[] = [];
+
+    let start = 0;
+    while (start < sorted.length) {
+      const key = sorted[start] >>> 16;
+      let end = start;
+      while (end < sorted.length && sorted[end] >>> 16 === key) end++;
+
+      const values = Uint16Array.from(sorted.subarray(start, end), ordinal => ordinal & 0xffff);
+      const container = compact(dedupe(values));
+      if (container) {
+        keys.push(key);
+        containers.push(container);
+      }
+      start = end;
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  /**
+   * Bitmap of the ordinals 0 to count - 1, i.e. all records
+   */
+  static range(count: number): RecordBitmap {
+    const keys: number[] = [];
+    const containers: Container[] = [];
+    for (let key = 0; key * 0x10000 < count; key++) {
+      const values = Math.min(count - key * 0x10000, 0x10000);
+      const bits = new Uint32Array(WORDS);
+      for (let value = 0; value < values; value++) {
+        bits[value >>> 5] |= 1 << (value & 31);
+      }
+      const container = compact(bits);
+      if (container) {
+        keys.push(key);
+        containers.push(container);
+      }
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  /**
+   * Read a bitmap written by serialize()
+   */
+  static deserialize(data: string): RecordBitmap {
+    const bytes = decodeBase64(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const keys: number[] = [];
+    const containers: Container[] = [];
+
+    let offset = 0;
+    const count = view.getUint32(offset, true);
+    offset += 4;
+    for (let i = 0; i < count; i++) {
+      keys.push(view.getUint16(offset, true));
+      const format = view.getUint8(offset + 2);
+      const length = view.getUint32(offset + 3, true);
+      offset += 7;
+
+      if (format === BITSET) {
+        const bits = new Uint32Array(WORDS);
+        for (let word = 0; word < WORDS; word++, offset += 4) {
+          bits[word] = view.getUint32(offset, true);
+        }
+        containers.push(bits);
+      } else if (format === RUNS) {
+        const values: number[] = [];
+        for (let run = 0; run < length; run++, offset += 4) {
+          const runStart = view.getUint16(offset, true);
+          const runLength = view.getUint16(offset + 2, true) + 1;
+          for (let value = runStart; value < runStart + runLength; value++) values.push(value);
+        }
+        const runValues = Uint16Array.from(values);
+        containers.push(runValues.length > ARRAY_MAX ? toBitset(runValues) : runValues);
+      } else {
+        const values = new Uint16Array(length);
+        for (let value = 0; value < length; value++, offset += 2) {
+          values[value] = view.getUint16(offset, true);
+        }
+        containers.push(values);
+      }
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  get size(): number {
+    return this.containers.reduce((sum, container) => sum + cardinality(container), 0);
+  }
+
+  has(ordinal: number): boolean {
+    const position = this.keys.indexOf(ordinal >>> 16);
+    return position >= 0 && containerHas(this.containers[position], ordinal & 0xffff);
+  }
+
+  /**
+   * Ordinals in both bitmaps
+   */
+  and(other: RecordBitmap): RecordBitmap {
+    const keys: number[] = [];
+    const containers: Container[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this.keys.length && j < other.keys.length) {
+      if (this.keys[i] < other.keys[j]) {
+        i++;
+      } else if (this.keys[i] > other.keys[j]) {
+        j++;
+      } else {
+        const container = compact(andContainers(this.containers[i], other.containers[j]));
+        if (container) {
+          keys.push(this.keys[i]);
+          containers.push(container);
+        }
+        i++;
+        j++;
+      }
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  /**
+   * Ordinals in either bitmap
+   */
+  or(other: RecordBitmap): RecordBitmap {
+    const keys: number[] = [];
+    const containers: Container[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this.keys.length || j < other.keys.length) {
+      if (j >= other.keys.length || (i < this.keys.length && this.keys[i] < other.keys[j])) {
+        keys.push(this.keys[i]);
+        containers.push(this.containers[i++]);
+      } else if (i >= this.keys.length || this.keys[i] > other.keys[j]) {
+        keys.push(other.keys[j]);
+        containers.push(other.containers[j++]);
+      } else {
+        const key = this.keys[i];
+        const container = compact(orContainers(this.containers[i++], other.containers[j++]));
+        if (container) {
+          keys.push(key);
+          containers.push(container);
+        }
+      }
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  /**
+   * Ordinals of this bitmap that are not in the other
+   */
+  andNot(other: RecordBitmap): RecordBitmap {
+    const keys: number[] = [];
+    const containers: Container[] = [];
+    let j = 0;
+    for (let i = 0; i < this.keys.length; i++) {
+      while (j < other.keys.length && other.keys[j] < this.keys[i]) j++;
+
+      const container =
+        j < other.keys.length && other.keys[j] === this.keys[i]
+          ? compact(andNotContainers(this.containers[i], other.containers[j]))
+          : this.containers[i];
+      if (container) {
+        keys.push(this.keys[i]);
+        containers.push(container);
+      }
+    }
+    return new RecordBitmap(keys, containers);
+  }
+
+  /**
+   * Ordinals in ascending order
+   */
+  *[Symbol.iterator](): Iterator<number> {
+    for (let i = 0; i < this.keys.length; i++) {
+      const high = this.keys[i] * 0x10000;
+      for (const value of containerValues(this.containers[i])) {
+        yield high + value;
+      }
+    }
+  }
+
+  toArray(): number[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Encode the bitmap as a base64 string. Each container is written in the smallest of
+   * its formats, so runs of consecutive ordinals take four bytes.
+   */
+  serialize(): string {
+    const parts: Uint8Array[] = [];
+    const header = new Uint8Array(4);
+    new DataView(header.buffer).setUint32(0, this.keys.length, true);
+    parts.push(header);
+
+    this.containers.forEach((container, i) => {
+      const values = Array.from(containerValues(container));
+      const runs = runsOf(values);
+      const format =
+        runs.length * 4 < Math.min(values.length * 2, WORDS * 4)
+          ? RUNS
+          : container instanceof Uint32Array
+            ? BITSET
+            : ARRAY;
+      const length = format === RUNS ? runs.length : format === ARRAY ? values.length : 0;
+      const payload = format === RUNS ? runs.length * 4 : format === ARRAY ? length * 2 : WORDS * 4;
+
+      const bytes = new Uint8Array(7 + payload);
+      const view = new DataView(bytes.buffer);
+      view.setUint16(0, this.keys[i], true);
+      view.setUint8(2, format);
+      view.setUint32(3, length, true);
+      let offset = 7;
+      if (format === RUNS) {
+        for (const [start, runLength] of runs) {
+          view.setUint16(offset, start, true);
+          view.setUint16(offset + 2, runLength - 1, true);
+          offset += 4;
+        }
+      } else if (format === BITSET) {
+        for (const word of container) {
+          view.setUint32(offset, word, true);
+          offset += 4;
+        }
+      } else {
+        for (const value of values) {
+          view.setUint16(offset, value, true);
+          offset += 2;
+        }
+      }
+      parts.push(bytes);
+    });
+
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return encodeBase64(bytes);
+  }
+}
+
+function isBitset(container: Container): container is Uint32Array {
+  return container instanceof Uint32Array;
+}
+
+function cardinality(container: Container): number {
+  if (!isBitset(container)) return container.length;
+
+  let count = 0;
+  for (let word of container) {
+    // Population count
+    word -= (word >>> 1) & 0x55555555;
+    word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+    count += Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+  }
+  return count;
+}
+
+function containerHas(container: Container, value: number): boolean {
+  if (isBitset(container)) {
+    return (container[value >>> 5] & (1 << (value & 31))) !== 0;
+  }
+
+  let low = 0;
+  let high = container.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (container[middle] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return container[low] === value;
+}
+
+function* containerValues(container: Container): Generator<number> {
+  if (!isBitset(container)) {
+    yield* container;
+    return;
+  }
+  for (let word = 0; word < WORDS; word++) {
+    let bits = container[word];
+    while (bits !== 0) {
+      const lowest = bits & -bits;
+      yield word * 32 + 31 - Math.clz32(lowest);
+      bits ^= lowest;
+    }
+  }
+}
+
+function toBitset(container: Container): Uint32Array {
+  if (isBitset(container)) return container.slice();
+
+  const bits = new Uint32Array(WORDS);
+  for (const value of container) {
+    bits[value >>> 5] |= 1 << (value & 31);
+  }
+  return bits;
+}
+
+/**
+ * The container in its format for its number of values, or null when it is empty
+ */
+function compact(container: Container): Container | null {
+  const size = cardinality(container);
+  if (size === 0) return null;
+  if (isBitset(container)) {
+    return size > ARRAY_MAX ? container : Uint16Array.from(containerValues(container));
+  }
+  return size > ARRAY_MAX ? toBitset(container) : container;
+}
+
+function andContainers(a: Container, b: Container): Container {
+  if (isBitset(a) && isBitset(b)) {
+    return a.map((word, i) => word & b[i]);
+  }
+  const [array, other] = isBitset(a) ? [b, a] : [a, b];
+  return array.filter(value => containerHas(other, value));
+}
+
+function orContainers(a: Container, b: Container): Container {
+  if (!isBitset(a) && !isBitset(b) && a.length + b.length <= ARRAY_MAX) {
+    return dedupe(Uint16Array.from([...a, ...b]).sort());
+  }
+  const bits = toBitset(a);
+  if (isBitset(b)) {
+    b.forEach((word, i) => (bits[i] |= word));
+  } else {
+    for (const value of b) bits[value >>> 5] |= 1 << (value & 31);
+  }
+  return bits;
+}
+
+function andNotContainers(a: Container, b: Container): Container {
+  if (!isBitset(a)) {
+    return a.filter(value => !containerHas(b, value));
+  }
+  const bits = a.slice();
+  if (isBitset(b)) {
+    b.forEach((word, i) => (bits[i] &= ~word));
+  } else {
+    for (const value of b) bits[value >>> 5] &= ~(1 << (value & 31));
+  }
+  return bits;
+}
+
+function dedupe(sorted: Uint16Array): Uint16Array {
+  return sorted.filter((value, i) => i === 0 || value !== sorted[i - 1]);
+}
+
+// [start, length] of each run of consecutive values
+function runsOf(sorted: number[]): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  for (const value of sorted) {
+    const last = runs[runs.length - 1];
+    if (last && last[0] + last[1] === value) {
+      last[1]++;
+    } else {
+      runs.push([value, 1]);
+    }
+  }
+  return runs;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 by hand, so bitmaps decode the same in Node and browsers
+function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64[chunk >>> 18] + BASE64[(chunk >>> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64[(chunk >>> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64[chunk & 63] : '=';
+  }
+  return result;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const text = data.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((text.length * 3) / 4));
+  let byte = 0;
+  for (let i = 0; i < text.length; i += 4) {
+    let chunk = 0;
+    for (let j = 0; j < 4; j++) {
+      const digit = BASE64.indexOf(text[i + j] ?? 'A');
+      if (digit < 0) {
+        throw new Error(`Invalid bitmap data: unexpected character "${text[i + j]}"`);
+      }
+      chunk = (chunk << 6) | digit;
+    }
+    for (let shift = 16; shift >= 0 && byte < bytes.length; shift -= 8) {
+      bytes[byte++] = (chunk >>> shift) & 0xff;
+    }
+  }
+  return bytes;
+}
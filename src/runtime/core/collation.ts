@@ -0,0 +1,95 @@
+/**
+ * Collations compare strings after folding away differences of case and accents. Index
+ * keys folded at build time let collated filters be answered from the index.
+ */
+
+export interface Collation {
+  caseInsensitive?: boolean; // "jose" matches "Jose"
+  accentInsensitive?: boolean; // "Jose" matches "José"
+  locale?: string; // Case mapping rules, e.g. 'tr' maps "I" to "ı"
+}
+
+// Collated index of a field: the records of each folded value
+export interface CollatedIndex {
+  field: string;
+  collation: Collation; // How the values were folded
+  entries: Array<{
+    value: unknown; // Folded value
+    count: number;
+    bitmap: string;
+  }>;
+  metadata: {
+    uniqueValues: number;
+  };
+}
+
+// Collation of collated indexes when the build does not specify one
+export const DEFAULT_COLLATION: Collation = { caseInsensitive: true, accentInsensitive: true };
+
+// Combining marks left as separate code points by canonical decomposition (NFD)
+const COMBINING_MARKS = /\p{M}/gu;
+
+export function isCollated(collation: Collation | undefined): collation is Collation {
+  return !!(collation?.caseInsensitive || collation?.accentInsensitive);
+}
+
+/**
+ * Fold a value for comparison under a collation. Strings are lowercased and/or stripped
+ * of accents, array elements are folded one by one and other values are kept.
+ */
+export function foldValue(value: unknown, collation: Collation | undefined): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => foldValue(item, collation));
+  }
+  if (typeof value !== 'string' || !isCollated(collation)) {
+    return value;
+  }
+
+  let folded = value;
+  if (collation.caseInsensitive) {
+    folded = collation.locale ? folded.toLocaleLowerCase(collation.locale) : folded.toLowerCase();
+  }
+  if (collation.accentInsensitive) {
+    folded = folded.normalize('NFD').replace(COMBINING_MARKS, '');
+  }
+  return folded.normalize('NFC');
+}
+
+/**
+ * Whether values folded by an index collation can answer filters of a query collation:
+ * 'exact' when both fold the same way, 'partial' when the index folds more (its matches
+ * are a superset), or null when the index keeps differences the query ignores
+ */
+export function collationCovers(index: Collation, query: Collation): 'exact' | 'partial' | null {
+  if (
+    (query.caseInsensitive && !index.caseInsensitive) ||
+    (query.accentInsensitive && !index.accentInsensitive)
+  ) {
+    return null;
+  }
+  // Case mapping differs between locales
+  if (query.caseInsensitive && (query.locale ?? '') !== (index.locale ?? '')) {
+    return null;
+  }
+
+  const sameFolding =
+    !!query.caseInsensitive === !!index.caseInsensitive &&
+    !!query.accentInsensitive === !!index.accentInsensitive;
+  return sameFolding ? 'exact' : 'partial';
+}
+
+/**
+ * Apply the collation of a query to its filters, including those in groups. Filters with
+ * a collation of their own keep it.
+ */
+export function withCollation<C extends object>(conditions: C[], collation?: Collation): C[] {
+  if (!collation) return conditions;
+
+  return conditions.map(condition => {
+    if ('conditions' in condition) {
+      return { ...condition, conditions: withCollation(condition.conditions as C[], collation) };
+    }
+    const { collation: own } = condition as { collation?: Collation };
+    return { ...condition, collation: own ?? collation };
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Position of a record in a sorted result: its sort field values and primary key.
+ * Cursors are opaque to callers; they are hex-encoded UTF-8 JSON, so they work the
+ * same in Node and browsers and can be put in URLs as-is.
+ */
+export interface CursorPosition {
+  sort: string; // Sort signature, e.g. "age:desc,id:asc"
+  values: unknown[]; // Sort field values of the record, ending with its primary key
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(position));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    if (!/^(?:[0-9a-f]{2})+$/.test(cursor)) {
+      throw new Error('not a cursor string');
+    }
+    const bytes = Uint8Array.from(cursor.match(/../g) ?? [], pair => parseInt(pair, 16));
+    const position = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (typeof position?.sort !== 'string' || !Array.isArray(position.values)) {
+      throw new Error('missing sort position');
+    }
+    if (!position.values.every(isSortValue)) {
+      throw new Error('sort values must be strings, numbers, booleans or null');
+    }
+    return position;
+  } catch (error) {
+    throw new Error(
+      `Invalid cursor "${cursor}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function isSortValue(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
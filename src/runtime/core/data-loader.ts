@@ -1,17 +1,44 @@
+import type { TextIndex } from './text-search.js';
+import type { TrigramIndex } from './fuzzy.js';
+import type { IndexPageData } from './index-pages.js';
+import type { CollatedIndex, Collation } from './collation.js';
+import type { GeoIndex } from './geo.js';
+import type { PrefixIndex, PrefixShardData } from './prefix.js';
+import type { FieldStats } from './field-stats.js';
+
 export interface DatabaseRecord {
   [key: string]: any;
 }
 
+/**
+ * Layout of index entries, recorded as indexFormat in metadata.json. Format 1 (databases
+ * without indexFormat) listed the record IDs of each entry; format 2 encodes them as a
+ * RecordBitmap of record ordinals.
+ */
+export const INDEX_FORMAT = 2;
+
 export interface DatabaseIndex {
   field: string;
   entries: Array<{
     value: any;
-    recordIds: string[];
+    count: number; // Records holding the value
+    bitmap: string; // Serialized RecordBitmap of the records' positions in the primary key index
+  }>;
+  metadata: {
+    uniqueValues: number;
+  };
+}
+
+// Index of several fields, with the records of each combination of their values
+export interface CompositeIndex {
+  fields: string[];
+  entries: Array<{
+    values: unknown[]; // In the order of the fields
+    count: number;
+    bitmap: string;
   }>;
   metadata: {
     uniqueValues: number;
-    totalRecords: number;
-    coverage: number;
   };
 }
 
@@ -20,12 +47,45 @@ export interface DatabaseMetadata {
   indexes: Array<{
     field: string;
     type: 'primitive' | 'array' | 'nested';
+    range?: 'number' | 'date'; // Entries are sorted by value, with null last
+    paging?: 'range' | 'hash'; // Entries are split into pages listed by the index file
+    pages?: number;
     uniqueValues: number;
     coverage: number;
   }>;
+  fieldStats?: FieldStats[]; // Missing in databases built before field statistics
+  textIndexes?: Array<{
+    field: string;
+    documentCount: number;
+    uniqueTerms: number;
+  }>;
+  trigramIndexes?: Array<{
+    field: string;
+    uniqueValues: number;
+  }>;
+  compositeIndexes?: Array<{
+    fields: string[];
+    uniqueValues: number;
+    coverage: number;
+  }>;
+  collatedIndexes?: Array<{
+    field: string;
+    collation: Collation;
+    uniqueValues: number; // Distinct folded values
+  }>;
+  geoIndexes?: Array<{
+    field: string;
+    points: number;
+  }>;
+  prefixIndexes?: Array<{
+    field: string;
+    uniqueValues: number;
+    shards: number;
+  }>;
   fields: string[];
   createdAt: string;
   version: string;
+  indexFormat?: number; // See INDEX_FORMAT; missing in databases built before bitmaps
 }
 
 export interface SplitMetadata {
@@ -44,6 +104,17 @@ export interface SplitMetadata {
   }>;
 }
 
+/**
+ * File name of a field's index, as written by IndexGenerator (e.g. "cards_.set" for the
+ * elements' "cards[].set")
+ */
+export function indexFileName(field: string): string {
+  return field
+    .replace(/[^a-zA-Z0-9.-]/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
 /**
  * Abstract interface for loading data from different environments
  * Implementations handle the specific I/O operations for Node.js vs Browser
@@ -71,6 +142,62 @@ export interface DataLoader {
    */
   loadIndex(field: string): Promise<DatabaseIndex | any | null>;
 
+  /**
+   * Load the full-text index of a field
+   * @param field The field name
+   * @returns Text index or null if not found
+   */
+  loadTextIndex(field: string): Promise<TextIndex | null>;
+
+  /**
+   * Load a page of a paged index
+   * @param field The field name
+   * @param page Position of the page in the index's page list
+   */
+  loadIndexPage(field: string, page: number): Promise<IndexPageData>;
+
+  /**
+   * Load the composite index of several fields
+   * @param fields The indexed fields, in the order they were declared
+   * @returns Composite index or null if not found
+   */
+  loadCompositeIndex(fields: string[]): Promise<CompositeIndex | null>;
+
+  /**
+   * Load the trigram index of a field, used for fuzzy matching
+   * @param field The field name
+   * @returns Trigram index or null if not found
+   */
+  loadTrigramIndex(field: string): Promise<TrigramIndex | null>;
+
+  /**
+   * Load the collated index of a field, keyed by folded values
+   * @param field The field name
+   * @returns Collated index or null if not found
+   */
+  loadCollatedIndex(field: string): Promise<CollatedIndex | null>;
+
+  /**
+   * Load the geohash index of a point field
+   * @param field The point field, or latitude and longitude fields joined by '+'
+   * @returns Geo index or null if not found
+   */
+  loadGeoIndex(field: string): Promise<GeoIndex | null>;
+
+  /**
+   * Load the header of the prefix index of a field, listing its shards
+   * @param field The field name
+   * @returns Prefix index or null if not found
+   */
+  loadPrefixIndex(field: string): Promise<PrefixIndex | null>;
+
+  /**
+   * Load a shard of a prefix index
+   * @param field The field name
+   * @param shard Position of the shard in the index's shard list
+   */
+  loadPrefixShard(field: string, shard: number): Promise<PrefixShardData>;
+
   /**
    * Load the primary index
    */
@@ -88,6 +215,16 @@ export interface DataLoader {
     splitMetadata: SplitMetadata
   ): Promise<DatabaseRecord | null>;
 
+  /**
+   * Load all records of a data file, in storage order
+   * @param fileInfo File information from split metadata
+   * @param splitMetadata Split metadata for batch info
+   */
+  loadFile(
+    fileInfo: SplitMetadata['files'][0],
+    splitMetadata: SplitMetadata
+  ): Promise<DatabaseRecord[]>;
+
   /**
    * Check if the data source is available/initialized
    */
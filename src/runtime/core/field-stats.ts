@@ -0,0 +1,158 @@
+/**
+ * Statistics of every field, computed by the index generator and stored in metadata.json:
+ * null count, most common values, bounds of number, date and string fields, and the mean
+ * and a histogram of number and date fields. The planner estimates range filters from
+ * the histograms.
+ */
+
+import { compareValues } from './aggregation.js';
+
+export interface HistogramBucket {
+  min: number | string; // Lower bound (ISO string for dates)
+  max: number | string; // Upper bound, included by the last bucket only
+  count: number; // Records holding a value in the bucket
+}
+
+export interface FieldStats {
+  field: string;
+  range?: 'number' | 'date'; // Values are all numbers or all ISO dates
+  count: number; // Records with a non-null value
+  nullCount: number; // Records where the field is null or missing
+  uniqueValues: number;
+  min?: number | string; // Smallest value of number, date and string fields
+  max?: number | string; // Largest value of number, date and string fields
+  mean?: number; // Of number fields
+  topValues: Array<{ value: unknown; count: number }>; // Most common first
+  histogram?: HistogramBucket[]; // Equal-width buckets of number and date fields
+}
+
+export const TOP_VALUES = 10;
+export const HISTOGRAM_BUCKETS = 10;
+
+/**
+ * Statistics of a field from the number of records holding each of its values. Array
+ * fields count a record once for each of its distinct elements. String fields get
+ * lexicographic bounds but no mean or histogram, which only number and date fields have.
+ *
+ * @param count Records with a non-null value
+ * @param dates Whether the field holds ISO dates (see JSONToZodGenerator.getRangeFields)
+ */
+export function computeFieldStats(
+  field: string,
+  valueCounts: Array<[value: unknown, count: number]>,
+  count: number,
+  totalRecords: number,
+  dates = false
+): FieldStats {
+  const values = valueCounts.filter(([value]) => value !== null);
+  const topValues = [...values]
+    .sort((a, b) => b[1] - a[1] || compareValues(a[0], b[0]))
+    .slice(0, TOP_VALUES)
+    .map(([value, valueCount]) => ({ value, count: valueCount }));
+
+  const stats: FieldStats = {
+    field,
+    count,
+    nullCount: totalRecords - count,
+    uniqueValues: values.length,
+    topValues,
+  };
+
+  let range: FieldStats['range'];
+  if (values.length > 0 && values.every(([value]) => Number.isFinite(value))) {
+    range = 'number';
+  } else if (
+    dates &&
+    values.length > 0 &&
+    values.every(([value]) => typeof value === 'string' && !Number.isNaN(Date.parse(value)))
+  ) {
+    range = 'date';
+  }
+  if (!range) return withStringBounds(stats, values);
+
+  // Dates are bucketed by timestamp
+  const points = values.map(([value, valueCount]) => ({
+    position: range === 'date' ? Date.parse(value as string) : (value as number),
+    count: valueCount,
+  }));
+  const low = points.reduce((min, point) => Math.min(min, point.position), Infinity);
+  const high = points.reduce((max, point) => Math.max(max, point.position), -Infinity);
+  const format = (position: number) =>
+    range === 'date' ? new Date(position).toISOString() : position;
+
+  const bucketCount = low === high ? 1 : HISTOGRAM_BUCKETS;
+  const width = (high - low) / bucketCount;
+  const histogram: HistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    min: format(low + i * width),
+    max: format(i === bucketCount - 1 ? high : low + (i + 1) * width),
+    count: 0,
+  }));
+  for (const point of points) {
+    const bucket = width > 0 ? Math.floor((point.position - low) / width) : 0;
+    histogram[Math.min(bucket, bucketCount - 1)].count += point.count;
+  }
+
+  const weight = points.reduce((sum, point) => sum + point.count, 0);
+  return {
+    ...stats,
+    range,
+    min: format(low),
+    max: format(high),
+    ...(range === 'number' && {
+      mean: points.reduce((sum, point) => sum + point.position * point.count, 0) / weight,
+    }),
+    histogram,
+  };
+}
+
+// Bounds of a field of strings in code unit order, like the range indexes sort them
+function withStringBounds(
+  stats: FieldStats,
+  values: Array<[value: unknown, count: number]>
+): FieldStats {
+  const strings = values
+    .map(([value]) => value)
+    .filter((value): value is string => typeof value === 'string');
+  if (strings.length === 0 || strings.length < values.length) return stats;
+
+  return {
+    ...stats,
+    min: strings.reduce((min, value) => (compareValues(value, min) < 0 ? value : min)),
+    max: strings.reduce((max, value) => (compareValues(value, max) > 0 ? value : max)),
+  };
+}
+
+/**
+ * Records estimated to hold a value between two bounds (either may be left open), from
+ * the histogram of a number or date field, assuming values spread evenly within each
+ * bucket. Undefined when the field has no histogram or a bound is not comparable.
+ */
+export function histogramRows(
+  stats: FieldStats,
+  low?: unknown,
+  high?: unknown
+): number | undefined {
+  if (!stats.histogram) return undefined;
+
+  const position = (value: unknown): number =>
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+        ? Date.parse(value)
+        : value instanceof Date
+          ? value.getTime()
+          : NaN;
+  const from = low === undefined ? -Infinity : position(low);
+  const to = high === undefined ? Infinity : position(high);
+  if (Number.isNaN(from) || Number.isNaN(to)) return undefined;
+
+  let rows = 0;
+  for (const bucket of stats.histogram) {
+    const min = position(bucket.min);
+    const max = position(bucket.max);
+    const overlap = Math.min(to, max) - Math.max(from, min);
+    if (overlap < 0) continue;
+    rows += max > min ? (bucket.count * overlap) / (max - min) : bucket.count;
+  }
+  return rows;
+}
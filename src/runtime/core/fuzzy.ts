@@ -0,0 +1,115 @@
+/**
+ * Trigram index and edit distance for typo-tolerant matching, shared by the index
+ * generator and the query engine.
+ */
+
+// Trigram index of a field, written to indexes/trigram/<field>.json
+export interface TrigramIndex {
+  field: string;
+  values: string[]; // Distinct string values, sorted
+  recordIds: string[][]; // Records holding each value, by position in values
+  trigrams: Record<string, number[]>; // Trigram -> positions of the values containing it
+}
+
+export interface FuzzyOptions {
+  maxDistance?: number; // Most character edits between the text and a value (default: 2)
+}
+
+export interface FuzzyHit<T> {
+  record: T;
+  value: string; // Closest value of the field
+  distance: number; // Character edits between the text and the value
+  similarity: number; // Share of trigrams the text and the value have in common (0-1)
+}
+
+export interface FuzzyResult<T> {
+  hits: FuzzyHit<T>[]; // Closest first
+  totalCount: number; // Records within the distance that match the filters
+  hasMore: boolean;
+  executionTime: number;
+}
+
+export const DEFAULT_MAX_DISTANCE = 2;
+
+/**
+ * Distinct trigrams of a text, lowercased and padded so that word starts and ends
+ * count as well, e.g. '  j', ' jo', 'joh', 'ohn', 'hn ' for 'John'
+ */
+export function trigramsOf(text: string): string[] {
+  const normalized = normalize(text);
+  if (normalized === '') return [];
+
+  const padded = `  ${normalized} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(trigrams);
+}
+
+/**
+ * Case-insensitive Levenshtein distance, or null when it exceeds the maximum
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number | null {
+  const source = normalize(a);
+  const target = normalize(b);
+  if (Math.abs(source.length - target.length) > maxDistance) return null;
+
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    // Distances only grow from row to row
+    if (rowMinimum > maxDistance) return null;
+    previous = current;
+  }
+
+  const distance = previous[target.length];
+  return distance <= maxDistance ? distance : null;
+}
+
+/**
+ * Positions of the index values within the edit distance of the text, with their
+ * distance and trigram similarity. Each edit changes at most three trigrams, so only
+ * values sharing enough trigrams with the text are compared.
+ */
+export function findSimilarValues(
+  index: TrigramIndex,
+  text: string,
+  maxDistance: number
+): Map<number, { distance: number; similarity: number }> {
+  const textTrigrams = trigramsOf(text);
+  const shared = new Map<number, number>();
+  for (const trigram of textTrigrams) {
+    for (const position of index.trigrams[trigram] ?? []) {
+      shared.set(position, (shared.get(position) ?? 0) + 1);
+    }
+  }
+
+  // Short texts can be within the distance of values without a common trigram
+  const minimumShared = textTrigrams.length - 3 * maxDistance;
+  const positions = minimumShared > 0 ? shared.keys() : index.values.keys();
+
+  const matches = new Map<number, { distance: number; similarity: number }>();
+  for (const position of positions) {
+    const common = shared.get(position) ?? 0;
+    if (common < minimumShared) continue;
+
+    const value = index.values[position];
+    const distance = editDistance(text, value, maxDistance);
+    if (distance === null) continue;
+
+    const union = textTrigrams.length + trigramsOf(value).length - common;
+    matches.set(position, { distance, similarity: union > 0 ? common / union : 1 });
+  }
+  return matches;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().trim().replace(/\s+/g, ' ');
+}
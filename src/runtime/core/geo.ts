@@ -0,0 +1,288 @@
+/**
+ * Geohash index of point fields for radius, bounding box and nearest neighbour queries,
+ * shared by the index generator and the query engine.
+ */
+
+import { getNestedValue } from './projection.js';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Box from its south-west to its north-east corner; a west longitude greater than the
+// east one spans the antimeridian
+export interface GeoBox {
+  southWest: GeoPoint;
+  northEast: GeoPoint;
+}
+
+// Geo index of a field, written to indexes/geo/<field>.json
+export interface GeoIndex {
+  field: string; // Point field, or latitude and longitude fields joined by '+'
+  precision: number; // Geohash characters of each point
+  points: Array<[geohash: string, lat: number, lng: number, id: string]>; // Sorted by geohash
+}
+
+export interface NearestOptions {
+  maxDistance?: number; // Farthest distance in kilometers (default: unlimited)
+}
+
+export interface NearestHit<T> {
+  record: T;
+  distance: number; // Kilometers from the point
+}
+
+export interface NearestResult<T> {
+  hits: NearestHit<T>[]; // Closest first
+  hasMore: boolean; // More matching records lie beyond the last hit
+  executionTime: number;
+}
+
+// Value of a WITHIN_RADIUS filter
+export interface GeoRadius {
+  center: GeoPoint;
+  km: number;
+}
+
+export const GEOHASH_PRECISION = 9; // About 5 m by 5 m
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+export const MAX_DISTANCE_KM = Math.PI * EARTH_RADIUS_KM; // Half the circumference
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Most geohash cells looked up to cover a box; larger boxes use coarser cells
+const MAX_CELLS = 32;
+
+/**
+ * Point of a field value: a GeoJSON Point ({ type: 'Point', coordinates: [lng, lat] })
+ * or an object with lat/latitude and lng/lon/longitude. Null for anything else,
+ * including coordinates out of range.
+ */
+export function toPoint(value: unknown): GeoPoint | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const object = value as Record<string, unknown>;
+  let lat: unknown;
+  let lng: unknown;
+  if (object.type === 'Point' && Array.isArray(object.coordinates)) {
+    [lng, lat] = object.coordinates;
+  } else {
+    lat = object.lat ?? object.latitude;
+    lng = object.lng ?? object.lon ?? object.longitude;
+  }
+  return isCoordinate(lat, 90) && isCoordinate(lng, 180) ? { lat, lng } : null;
+}
+
+/**
+ * Point of a record for a geo field: the value of a point field, or the values of the
+ * latitude and longitude fields of a 'lat+lng' field
+ */
+export function recordPoint(record: unknown, field: string): GeoPoint | null {
+  const valueOf = (path: string) => getNestedValue(record, path);
+
+  const pair = field.split('+');
+  if (pair.length === 2) {
+    const [lat, lng] = pair.map(valueOf);
+    return isCoordinate(lat, 90) && isCoordinate(lng, 180) ? { lat, lng } : null;
+  }
+  return toPoint(valueOf(field));
+}
+
+/**
+ * Value of a WITHIN_RADIUS filter, after checking the center and the distance
+ */
+export function geoRadius(center: GeoPoint, km: number): GeoRadius {
+  checkPoint(center);
+  if (typeof km !== 'number' || !(km >= 0)) {
+    throw new Error(`Radius must be a non-negative number of kilometers, got ${km}`);
+  }
+  return { center, km };
+}
+
+/**
+ * Value of a WITHIN_BOX filter, after checking the corners
+ */
+export function geoBox(southWest: GeoPoint, northEast: GeoPoint): GeoBox {
+  checkPoint(southWest);
+  checkPoint(northEast);
+  if (southWest.lat > northEast.lat) {
+    throw new Error('The south-west corner of a box must not lie north of its north-east corner');
+  }
+  return { southWest, northEast };
+}
+
+export function checkPoint(point: GeoPoint): void {
+  if (!isCoordinate(point?.lat, 90) || !isCoordinate(point?.lng, 180)) {
+    throw new Error(`Invalid point ${JSON.stringify(point)}: expected { lat, lng } in degrees`);
+  }
+}
+
+/**
+ * Great-circle distance between two points in kilometers (haversine formula)
+ */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function inBox(point: GeoPoint, box: GeoBox): boolean {
+  const { southWest, northEast } = box;
+  if (point.lat < southWest.lat || point.lat > northEast.lat) return false;
+  return southWest.lng <= northEast.lng
+    ? point.lng >= southWest.lng && point.lng <= northEast.lng
+    : point.lng >= southWest.lng || point.lng <= northEast.lng;
+}
+
+/**
+ * Geohash of a point: alternating longitude and latitude bisections, five bits per
+ * base32 character. Points sharing a prefix lie in the same cell.
+ */
+export function geohash(point: GeoPoint, precision = GEOHASH_PRECISION): string {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let character = 0;
+  let even = true;
+
+  while (hash.length < precision) {
+    const range = even ? lng : lat;
+    const value = even ? point.lng : point.lat;
+    const middle = (range[0] + range[1]) / 2;
+    character <<= 1;
+    if (value >= middle) {
+      character |= 1;
+      range[0] = middle;
+    } else {
+      range[1] = middle;
+    }
+    even = !even;
+
+    if (++bits === 5) {
+      hash += BASE32[character];
+      bits = 0;
+      character = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Box around the points within a distance of a center. Spans all longitudes near the
+ * poles; wraps around the antimeridian when needed.
+ */
+export function radiusBox(center: GeoPoint, km: number): GeoBox {
+  const dLat = km / KM_PER_DEGREE;
+  const south = Math.max(-90, center.lat - dLat);
+  const north = Math.min(90, center.lat + dLat);
+
+  // Longitude degrees shrink towards the poles, so widen by the latitude nearest to one
+  const cosine = Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180);
+  const dLng = cosine > 0 ? km / (KM_PER_DEGREE * cosine) : Infinity;
+  if (dLng >= 180) {
+    return { southWest: { lat: south, lng: -180 }, northEast: { lat: north, lng: 180 } };
+  }
+
+  const wrap = (lng: number) => (lng < -180 ? lng + 360 : lng > 180 ? lng - 360 : lng);
+  return {
+    southWest: { lat: south, lng: wrap(center.lng - dLng) },
+    northEast: { lat: north, lng: wrap(center.lng + dLng) },
+  };
+}
+
+/**
+ * IDs and points of the index within a box, read from the geohash cells covering it
+ */
+export function pointsInBox(index: GeoIndex, box: GeoBox): Array<{ id: string; point: GeoPoint }> {
+  const found: Array<{ id: string; point: GeoPoint }> = [];
+  for (const prefix of coveringCells(box, index.precision)) {
+    // First point whose geohash is not below the prefix
+    let low = 0;
+    let high = index.points.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (index.points[middle][0] < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    for (let i = low; i < index.points.length && index.points[i][0].startsWith(prefix); i++) {
+      const [, lat, lng, id] = index.points[i];
+      const point = { lat, lng };
+      if (inBox(point, box)) {
+        found.push({ id, point });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Distance within which about `count` of the index's points lie if they were spread
+ * evenly over the globe, where nearest neighbour searches start
+ */
+export function initialSearchRadius(index: GeoIndex, count: number): number {
+  const share = Math.min(1, count / Math.max(index.points.length, 1));
+  return Math.max(0.1, 2 * EARTH_RADIUS_KM * Math.sqrt(share));
+}
+
+/**
+ * Geohash prefixes of the cells covering a box, at the finest precision that needs at
+ * most MAX_CELLS of them
+ */
+function coveringCells(box: GeoBox, maxPrecision: number): string[] {
+  const { southWest, northEast } = box;
+  const lngRanges: Array<[number, number]> =
+    southWest.lng <= northEast.lng
+      ? [[southWest.lng, northEast.lng]]
+      : [
+          [southWest.lng, 180],
+          [-180, northEast.lng],
+        ];
+
+  for (let precision = maxPrecision; precision >= 1; precision--) {
+    const lngCells = 2 ** Math.ceil((5 * precision) / 2);
+    const latCells = 2 ** Math.floor((5 * precision) / 2);
+    const cellOf = (value: number, min: number, span: number, cells: number) =>
+      Math.min(cells - 1, Math.floor(((value - min) / span) * cells));
+
+    const latStart = cellOf(southWest.lat, -90, 180, latCells);
+    const latEnd = cellOf(northEast.lat, -90, 180, latCells);
+    const lngSpans = lngRanges.map(([west, east]) => [
+      cellOf(west, -180, 360, lngCells),
+      cellOf(east, -180, 360, lngCells),
+    ]);
+    const count =
+      (latEnd - latStart + 1) * lngSpans.reduce((sum, [start, end]) => sum + end - start + 1, 0);
+    if (count > MAX_CELLS && precision > 1) continue;
+
+    // Geohash of the center of each cell
+    const cells = new Set<string>();
+    for (let latCell = latStart; latCell <= latEnd; latCell++) {
+      for (const [start, end] of lngSpans) {
+        for (let lngCell = start; lngCell <= end; lngCell++) {
+          const center = {
+            lat: -90 + ((latCell + 0.5) * 180) / latCells,
+            lng: -180 + ((lngCell + 0.5) * 360) / lngCells,
+          };
+          cells.add(geohash(center, precision));
+        }
+      }
+    }
+    return Array.from(cells);
+  }
+  return [];
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
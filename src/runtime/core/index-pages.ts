@@ -0,0 +1,48 @@
+/**
+ * Paged indexes of high-cardinality fields. The index file is a small header listing
+ * its pages; the entries are split over indexes/pages/<field>/<page>.json, so lookups
+ * only fetch the pages that can hold the values they look for.
+ */
+
+// 'range' pages hold consecutive values in value order, for fields whose values share a
+// type; 'hash' pages group values by hash, for fields mixing types
+export type IndexPaging = 'range' | 'hash';
+
+export interface IndexPage {
+  min?: unknown; // Smallest value of a range page (null for the page of null values)
+  max?: unknown; // Largest value of a range page
+  values: number; // Entries in the page
+  records: number; // Record IDs in the page
+}
+
+export interface PagedIndex {
+  field: string;
+  paging: IndexPaging;
+  pages: IndexPage[];
+  metadata: {
+    uniqueValues: number;
+  };
+}
+
+export interface IndexPageData {
+  field: string;
+  page: number;
+  entries: Array<{ value: unknown; count: number; bitmap: string }>;
+}
+
+export function isPagedIndex(index: unknown): index is PagedIndex {
+  return Array.isArray((index as PagedIndex | null)?.pages);
+}
+
+/**
+ * Hash page of a value (FNV-1a of its JSON), shared by the index generator and lookups
+ */
+export function hashPage(value: unknown, pageCount: number): number {
+  const key = JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % pageCount;
+}
@@ -0,0 +1,78 @@
+/**
+ * Prefix indexes of string fields for autocompletion and STARTS_WITH filters. The index
+ * file is a small header listing shards; the values are split over
+ * indexes/prefix/<field>/<shard>.json by their first characters, so each keystroke only
+ * fetches the shards its prefix can fall in.
+ */
+
+export interface PrefixShard {
+  key: string; // First characters of the shard's values, lowercased
+  values: number; // Entries in the shard
+  records: number; // Record IDs in the shard
+}
+
+export interface PrefixIndex {
+  field: string;
+  keyLength: number; // Characters of the shard keys
+  shards: PrefixShard[]; // Sorted by key
+  metadata: {
+    uniqueValues: number;
+  };
+}
+
+export interface PrefixShardData {
+  field: string;
+  shard: number;
+  entries: Array<{ value: string; count: number; bitmap: string }>; // Sorted by value
+}
+
+export interface SuggestOptions {
+  limit?: number; // Most completions to return (default: 10)
+}
+
+export interface Suggestion {
+  value: string;
+  count: number; // Records holding the value
+}
+
+export const PREFIX_KEY_LENGTH = 2;
+export const DEFAULT_SUGGEST_LIMIT = 10;
+
+/**
+ * Lowercase a string one character at a time. Unlike toLowerCase() on the whole string
+ * (e.g. a final "Σ" becomes "ς"), the result for a prefix is always a prefix of the
+ * result for the full value.
+ */
+export function foldCase(value: string): string {
+  return Array.from(value, character => character.toLowerCase()).join('');
+}
+
+/**
+ * Key of the shard holding a value: its first characters, lowercased
+ */
+export function prefixKey(value: string, keyLength = PREFIX_KEY_LENGTH): string {
+  return foldCase(Array.from(value).slice(0, keyLength).join(''));
+}
+
+/**
+ * Positions of the shards that can hold values starting with a prefix, ignoring case.
+ * Prefixes shorter than the shard keys span every shard whose key they start.
+ */
+export function prefixShards(index: PrefixIndex, prefix: string): number[] {
+  const positions: number[] = [];
+  if (Array.from(prefix).length >= index.keyLength) {
+    const key = prefixKey(prefix, index.keyLength);
+    const position = index.shards.findIndex(shard => shard.key === key);
+    if (position !== -1) {
+      positions.push(position);
+    }
+  } else {
+    const start = foldCase(prefix);
+    index.shards.forEach((shard, position) => {
+      if (shard.key.startsWith(start)) {
+        positions.push(position);
+      }
+    });
+  }
+  return positions;
+}
@@ -0,0 +1,74 @@
+/**
+ * Copy only the selected field paths of a record. Nested paths ('profile.age') keep
+ * their parent objects, and paths through arrays ('cards.name') are applied to every
+ * element. Returns a new object, so projected results never share state with cached
+ * records.
+ */
+export function projectRecord<T extends object>(record: T, paths: string[]): Partial<T> {
+  return projectValue(
+    record,
+    paths.map(path => path.split('.'))
+  ) as Partial<T>;
+}
+
+function projectValue(value: unknown, paths: string[][]): unknown {
+  // The whole value is selected
+  if (paths.some(path => path.length === 0)) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => projectValue(item, paths));
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const subPaths = new Map<string, string[][]>();
+  for (const [key, ...rest] of paths) {
+    const keyPaths = subPaths.get(key) ?? [];
+    keyPaths.push(rest);
+    subPaths.set(key, keyPaths);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, rest] of subPaths) {
+    if (key in value) {
+      result[key] = projectValue((value as Record<string, unknown>)[key], rest);
+    }
+  }
+  return result;
+}
+
+/**
+ * Copy a record with the value at a field path replaced. The objects along the path are
+ * copied too, so the original record is left untouched.
+ */
+export function replaceValue<T extends object>(record: T, path: string, value: unknown): T {
+  const [key, ...rest] = path.split('.');
+  const current = (record as Record<string, unknown>)[key];
+  return {
+    ...record,
+    [key]:
+      rest.length > 0 && typeof current === 'object' && current !== null
+        ? replaceValue(current, rest.join('.'), value)
+        : value,
+  };
+}
+
+/**
+ * Value at a field path of a record ('profile.age'), or undefined when a parent along the
+ * path is missing
+ */
+export function getNestedValue(record: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      record
+    );
+}
@@ -5,7 +5,79 @@ import {
   DatabaseMetadata,
   SplitMetadata,
   DatabaseIndex,
+  CompositeIndex,
+  INDEX_FORMAT,
 } from './data-loader.js';
+import {
+  aggregateRecords,
+  compareValues,
+  countGroups,
+  facetValues,
+  isCountOnly,
+  rowsFromCounts,
+  type AggregateOptions,
+  type AggregateResult,
+  type FacetResult,
+} from './aggregation.js';
+import { getNestedValue, projectRecord, replaceValue } from './projection.js';
+import { decodeCursor, encodeCursor } from './cursor.js';
+import {
+  filtersWithStrategy,
+  planCondition,
+  type CompositePlan,
+  type FilterPlan,
+  type GroupPlan,
+  type PlanNode,
+  type QueryExplanation,
+} from './query-planner.js';
+import {
+  analyzeQuery,
+  highlight,
+  scoreBM25,
+  textOf,
+  type SearchOptions,
+  type SearchResult,
+  type TextIndex,
+} from './text-search.js';
+import {
+  DEFAULT_MAX_DISTANCE,
+  findSimilarValues,
+  type FuzzyOptions,
+  type FuzzyResult,
+  type TrigramIndex,
+} from './fuzzy.js';
+import { hashPage, isPagedIndex, type IndexPage, type PagedIndex } from './index-pages.js';
+import { RecordBitmap } from './bitmap.js';
+import {
+  collationCovers,
+  foldValue,
+  isCollated,
+  type CollatedIndex,
+  type Collation,
+} from './collation.js';
+import {
+  MAX_DISTANCE_KM,
+  distanceKm,
+  inBox,
+  initialSearchRadius,
+  pointsInBox,
+  radiusBox,
+  recordPoint,
+  type GeoIndex,
+  type GeoPoint,
+  type NearestOptions,
+  type NearestResult,
+} from './geo.js';
+import {
+  DEFAULT_SUGGEST_LIMIT,
+  foldCase,
+  prefixShards,
+  type PrefixIndex,
+  type PrefixShardData,
+  type SuggestOptions,
+  type Suggestion,
+} from './prefix.js';
+import type { FieldStats } from './field-stats.js';
 
 // Query types and enums
 export enum QueryOperator {
@@ -15,16 +87,67 @@ export enum QueryOperator {
   LESS_THAN = 'LESS_THAN',
   GREATER_THAN_OR_EQUAL = 'GREATER_THAN_OR_EQUAL',
   LESS_THAN_OR_EQUAL = 'LESS_THAN_OR_EQUAL',
+  BETWEEN = 'BETWEEN', // Inclusive range, value is [min, max]
   IN = 'IN',
   CONTAINS = 'CONTAINS',
   STARTS_WITH = 'STARTS_WITH',
   ENDS_WITH = 'ENDS_WITH',
+  WITHIN_RADIUS = 'WITHIN_RADIUS', // Point within value.km kilometers of value.center
+  WITHIN_BOX = 'WITHIN_BOX', // Point within the box value ({ southWest, northEast })
+}
+
+// Operators comparing the point of a geo field, see geo.ts
+export function isGeoOperator(operator: QueryOperator): boolean {
+  return operator === QueryOperator.WITHIN_RADIUS || operator === QueryOperator.WITHIN_BOX;
 }
 
 export interface QueryFilter {
   field: string;
   operator: QueryOperator;
   value: any;
+  collation?: Collation; // Compare strings ignoring case and/or accents
+}
+
+// A group combines conditions: 'and' / 'or' over all of them, 'not' negates their
+// conjunction, and 'element' requires a single element of an array field to match all of
+// them (their fields are relative to the element)
+export interface QueryGroup {
+  type: 'and' | 'or' | 'not' | 'element';
+  field?: string; // Array field of an 'element' group
+  onlyMatching?: boolean; // Return only the matching elements of an 'element' group's array
+  conditions: QueryCondition[];
+}
+
+export interface ElementMatchOptions {
+  onlyMatching?: boolean; // Return only the elements that match, instead of the whole array
+}
+
+export type QueryCondition = QueryFilter | QueryGroup;
+
+export function isQueryGroup(condition: QueryCondition): condition is QueryGroup {
+  return 'conditions' in condition;
+}
+
+// Candidate records of a condition, by ordinal (position in the primary key index). Exact
+// sets hold precisely the matching records and can be negated; others are supersets that
+// are narrowed by checking each record.
+interface CandidateIds {
+  ids: RecordBitmap;
+  exact: boolean;
+}
+
+// Record IDs by ordinal, and the ordinal of each record ID
+interface PrimaryKeys {
+  ids: string[]; // Sparse: ordinals of records removed by incremental builds are unused
+  ordinals: Map<unknown, number>;
+  all: RecordBitmap;
+  sorted?: number[]; // Ordinals in primary key order, sorted on first use
+}
+
+// Index entries of a sort field with a value, in ascending value order
+interface SortColumn {
+  entries: DatabaseIndex['entries'];
+  valued?: RecordBitmap; // Records in any of the entries, computed on first use
 }
 
 export interface QuerySort {
@@ -36,15 +159,38 @@ export interface QueryOptions {
   limit?: number;
   offset?: number;
   sort?: QuerySort[];
+  select?: string[]; // Field paths to return; other fields are stripped from the results
+  after?: string; // Cursor from a previous page's nextCursor; returns the records after it
 }
 
-export interface QueryResult<T = DatabaseRecord> {
+// One page of a query, with the sort key of its last record
+interface Page<T> {
   records: T[];
   totalCount: number;
   hasMore: boolean;
+  lastKey?: unknown[];
+}
+
+// Streams are unsorted, so cursors and sort orders do not apply
+export type StreamOptions = Pick<QueryOptions, 'limit' | 'offset' | 'select'>;
+
+export interface QueryResult<T = DatabaseRecord> {
+  records: T[];
+  totalCount: number; // All matching records, including those before the cursor
+  hasMore: boolean;
+  nextCursor?: string; // Cursor of the last record when more records follow a limited page
   executionTime: number;
 }
 
+// Value of a record ID that the map was built with, e.g. the score of a search hit
+function entryOf<V>(map: Map<string, V>, id: string): V {
+  const value = map.get(id);
+  if (value === undefined) {
+    throw new Error(`No entry for record "${id}"`);
+  }
+  return value;
+}
+
 /**
  * Core query engine that handles all database operations
  * Environment-agnostic - uses DataLoader for I/O operations
@@ -53,7 +199,19 @@ export class QueryEngine {
   private metadata?: DatabaseMetadata;
   private splitMetadata?: SplitMetadata;
   private indexCache = new Map<string, DatabaseIndex | any>();
+  private textIndexCache = new Map<string, TextIndex>();
+  private trigramIndexCache = new Map<string, TrigramIndex>();
+  private compositeIndexCache = new Map<string, CompositeIndex>();
+  private collatedIndexCache = new Map<string, CollatedIndex>();
+  private geoIndexCache = new Map<string, GeoIndex>();
+  private indexPageCache = new Map<string, DatabaseIndex['entries']>(); // "field/page" -> entries
+  private prefixIndexCache = new Map<string, PrefixIndex>();
+  private prefixShardCache = new Map<string, PrefixShardData['entries']>(); // "field/shard" -> entries
+  private entryBitmaps = new WeakMap<object, RecordBitmap>(); // Decoded index entries
+  private sortColumns = new WeakMap<object, SortColumn>(); // Loaded index -> sorted entries
+  private primaryKeys?: PrimaryKeys;
   private recordCache = new Map<string, DatabaseRecord>();
+  private recordFiles?: Map<unknown, SplitMetadata['files'][0]>; // recordId -> file, built on first lookup
   private schema?: z.ZodSchema;
   private initialized = false;
 
@@ -79,6 +237,26 @@ export class QueryEngine {
     }
   }
 
+  /**
+   * Metadata of the database, loaded by init()
+   */
+  private get loadedMetadata(): DatabaseMetadata {
+    if (!this.metadata) {
+      throw new Error('Query engine is not initialized');
+    }
+    return this.metadata;
+  }
+
+  /**
+   * Data file layout of the database, loaded by init()
+   */
+  private get loadedSplitMetadata(): SplitMetadata {
+    if (!this.splitMetadata) {
+      throw new Error('Query engine is not initialized');
+    }
+    return this.splitMetadata;
+  }
+
   /**
    * Load metadata from data loader
    */
@@ -91,6 +269,13 @@ export class QueryEngine {
     } catch (error) {
       throw new Error(`Failed to load metadata: ${error}`);
     }
+
+    const format = this.metadata.indexFormat ?? 1;
+    if (format > INDEX_FORMAT) {
+      throw new Error(
+        `Database indexes have format ${format}, but this client reads up to format ${INDEX_FORMAT}; upgrade antipattern-db or rebuild the database`
+      );
+    }
   }
 
   /**
@@ -106,48 +291,91 @@ export class QueryEngine {
   }
 
   /**
-   * Execute a query with filters and options
+   * Execute a query with filters and options. Top-level filters are combined with AND;
+   * groups nest 'and', 'or' and 'not' conditions.
    */
   async executeQuery<T = DatabaseRecord>(
-    filters: QueryFilter[],
+    filters: QueryCondition[],
     options: QueryOptions = {}
   ): Promise<QueryResult<T>> {
     const startTime = Date.now();
     await this.ensureInitialized();
 
-    let candidateIds: Set<string> | null = null;
-
-    // Apply filters using indexes where possible
-    for (const filter of filters) {
-      const filterIds = await this.getRecordIdsForFilter(filter);
-
-      if (candidateIds === null) {
-        candidateIds = filterIds;
-      } else {
-        // Intersect with previous results
-        const intersection = new Set<string>();
-        for (const id of candidateIds) {
-          if (filterIds.has(id)) {
-            intersection.add(id);
-          }
-        }
-        candidateIds = intersection;
-      }
+    // Resolve candidates using indexes where possible, all records otherwise
+    const candidates = await this.getCandidateIds(filters);
+    const candidateIds = candidates ? candidates.ids : await this.getAllOrdinals();
 
-      // Early exit if no candidates remain
-      if (candidateIds.size === 0) {
-        break;
-      }
+    // Paged queries order by the sort fields plus the primary key, so every record has
+    // a unique position that a cursor can point at
+    const sort = this.getPageSort(options);
+    const sortSignature = sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+    const cursor = options.after !== undefined ? decodeCursor(options.after) : undefined;
+    if (cursor && cursor.sort !== sortSignature) {
+      throw new Error(
+        `Cursor was created for sort "${cursor.sort}" and cannot be used with sort "${sortSignature}"`
+      );
+    }
+    if (cursor && cursor.values.length !== sort.length) {
+      throw new Error(
+        `Invalid cursor "${options.after}": expected ${sort.length} sort values, got ${cursor.values.length}`
+      );
     }
 
-    // If no filters were applied, get all record IDs
-    if (candidateIds === null) {
-      candidateIds = await this.getAllRecordIds();
+    // Limited queries that the indexes resolve exactly are ordered by walking the sort
+    // fields' indexes and stop at the end of the page. Other queries load and sort every
+    // candidate.
+    const offset = options.offset || 0;
+    const limit = options.limit;
+    const exact = filters.length === 0 || !!candidates?.exact;
+    let page: Page<T> | null = null;
+    if (limit && exact && sort.length > 0) {
+      page = await this.getIndexedPage<T>(candidateIds, sort, cursor?.values, offset, limit);
     }
+    page ??= await this.getLoadedPage<T>(
+      candidateIds,
+      filters,
+      sort,
+      cursor?.values,
+      offset,
+      limit
+    );
+
+    const paginatedRecords = page.records;
+    const nextCursor =
+      page.hasMore && page.lastKey
+        ? encodeCursor({ sort: sortSignature, values: page.lastKey })
+        : undefined;
+
+    // Project the page, leaving the cached full records untouched
+    const resultRecords = paginatedRecords.map(
+      record => this.resultRecord(record as DatabaseRecord, filters, options.select) as T
+    );
+
+    const endTime = Date.now();
+
+    return {
+      records: resultRecords,
+      totalCount: page.totalCount,
+      hasMore: page.hasMore,
+      nextCursor,
+      executionTime: endTime - startTime,
+    };
+  }
 
+  /**
+   * Page through records loaded and checked one by one, then sorted
+   */
+  private async getLoadedPage<T>(
+    candidateIds: RecordBitmap,
+    filters: QueryCondition[],
+    sort: QuerySort[],
+    after: unknown[] | undefined,
+    offset: number,
+    limit?: number
+  ): Promise<Page<T>> {
     // Load records
     const records: T[] = [];
-    for (const id of candidateIds) {
+    for (const id of await this.toRecordIds(candidateIds)) {
       const record = await this.loadRecord(id);
       if (record) {
         // Apply additional filtering for complex filters not handled by indexes
@@ -157,294 +385,1426 @@ export class QueryEngine {
       }
     }
 
+    // Keep only the records after the cursor
+    const remaining = after
+      ? records.filter(
+          record => this.compareSortKeys(this.getSortKey(record, sort), after, sort) > 0
+        )
+      : records;
+
     // Apply sorting
-    if (options.sort && options.sort.length > 0) {
-      this.applySorting(records, options.sort);
+    if (sort.length > 0) {
+      this.applySorting(remaining, sort);
     }
 
     // Apply pagination
-    const offset = options.offset || 0;
-    const limit = options.limit;
-    const totalRecords = records.length;
-    const paginatedRecords = limit ? records.slice(offset, offset + limit) : records.slice(offset);
-    const hasMore = limit ? offset + limit < totalRecords : false;
-
-    const endTime = Date.now();
-
+    const pageRecords = limit ? remaining.slice(offset, offset + limit) : remaining.slice(offset);
+    const last = pageRecords[pageRecords.length - 1];
     return {
-      records: paginatedRecords,
-      totalCount: totalRecords,
-      hasMore,
-      executionTime: endTime - startTime,
+      records: pageRecords,
+      totalCount: records.length,
+      hasMore: limit ? offset + limit < remaining.length : false,
+      lastKey: last && this.getSortKey(last, sort),
     };
   }
 
   /**
-   * Get a single record by ID
+   * Page through exactly resolved records in sort order. The entries of the sort fields'
+   * indexes are walked in value order, intersected with the candidates, until the page is
+   * full, so only the records of the page are loaded. Returns null when a sort field has
+   * no index holding one value per record.
    */
-  async getRecord<T = DatabaseRecord>(id: string): Promise<T | null> {
-    await this.ensureInitialized();
-    return (await this.loadRecord(id)) as T | null;
-  }
+  private async getIndexedPage<T>(
+    candidateIds: RecordBitmap,
+    sort: QuerySort[],
+    after: unknown[] | undefined,
+    offset: number,
+    limit: number
+  ): Promise<Page<T> | null> {
+    const columns = await this.getSortColumns(sort);
+    if (!columns) return null;
 
-  /**
-   * Get all records with optional limit
-   */
-  async getAllRecords<T = DatabaseRecord>(limit?: number): Promise<T[]> {
-    const result = await this.executeQuery<T>([], { limit });
-    return result.records;
+    const { ids } = await this.getPrimaryKeys();
+    const pageEntries: Array<[number, unknown[]]> = [];
+    let skipped = 0;
+    let hasMore = false;
+    for (const entry of this.walkSortOrder(candidateIds, columns, sort, after, [])) {
+      if (skipped < offset) {
+        skipped++;
+      } else if (pageEntries.length < limit) {
+        pageEntries.push(entry);
+      } else {
+        hasMore = true;
+        break;
+      }
+    }
+
+    const records: T[] = [];
+    for (const [ordinal] of pageEntries) {
+      const record = await this.loadRecord(ids[ordinal]);
+      if (record) {
+        records.push(record as T);
+      }
+    }
+
+    return {
+      records,
+      totalCount: candidateIds.size,
+      hasMore,
+      lastKey: pageEntries[pageEntries.length - 1]?.[1],
+    };
   }
 
   /**
-   * Get database metadata
+   * Index entries of each sort field in ascending value order, without null; null stands
+   * for the primary key. Returns null when a sort field has no index holding one value
+   * per record.
    */
-  async getMetadata(): Promise<DatabaseMetadata | undefined> {
-    await this.ensureInitialized();
-    return this.metadata;
+  private async getSortColumns(sort: QuerySort[]): Promise<(SortColumn | null)[] | null> {
+    const primaryKey = this.loadedSplitMetadata.primaryKeyField;
+    const columns: (SortColumn | null)[] = [];
+    for (const { field } of sort) {
+      if (field === primaryKey) {
+        columns.push(null);
+        continue;
+      }
+
+      // Array indexes hold every element, so they cannot order records
+      const info = this.metadata?.indexes.find(idx => idx.field === field);
+      if (info?.type !== 'primitive') return null;
+      const index = await this.loadIndex(field);
+      if (!index?.entries || !Array.isArray(index.entries)) return null;
+
+      let column = this.sortColumns.get(index);
+      if (!column) {
+        const entries = (index.entries as DatabaseIndex['entries']).filter(
+          entry => entry.value !== null
+        );
+        column = { entries: entries.sort((a, b) => compareValues(a.value, b.value)) };
+        this.sortColumns.set(index, column);
+      }
+      columns.push(column);
+    }
+    return columns;
   }
 
   /**
-   * Get database statistics
+   * Candidates in sort order with their sort keys, after the cursor. Each sort field
+   * splits the records of the previous one into groups of equal values, visited in
+   * value order; records without a value sort as null.
    */
-  async getStats(): Promise<DatabaseMetadata | undefined> {
-    return this.getMetadata();
+  private *walkSortOrder(
+    ids: RecordBitmap,
+    columns: (SortColumn | null)[],
+    sort: QuerySort[],
+    after: unknown[] | undefined,
+    key: unknown[]
+  ): Generator<[number, unknown[]]> {
+    const level = key.length;
+    if (level === sort.length) {
+      // Records with the cursor's own key are not after it
+      if (!after) {
+        for (const ordinal of ids) {
+          yield [ordinal, key];
+        }
+      }
+      return;
+    }
+
+    const descending = sort[level].direction === 'desc';
+    const column = columns[level];
+    const groups = column
+      ? this.valueGroups(ids, column, descending)
+      : this.primaryKeyGroups(ids, descending);
+    for (const [value, group] of groups) {
+      if (group.size === 0) continue;
+      // Groups before the cursor's value are skipped, the group holding it is walked
+      // after the cursor and later groups are walked whole
+      let cursor: unknown[] | undefined;
+      if (after) {
+        const comparison = compareValues(value, after[level] ?? null);
+        if (descending ? comparison > 0 : comparison < 0) continue;
+        cursor = comparison === 0 ? after : undefined;
+      }
+      yield* this.walkSortOrder(group, columns, sort, cursor, [...key, value]);
+    }
   }
 
   /**
-   * Count total records
+   * Records grouped by their value of a sort field, in sort order
    */
-  async count(): Promise<number> {
-    await this.ensureInitialized();
-    return this.metadata?.totalRecords || 0;
+  private *valueGroups(
+    ids: RecordBitmap,
+    column: SortColumn,
+    descending: boolean
+  ): Generator<[unknown, RecordBitmap]> {
+    const nullGroup = (): RecordBitmap => {
+      column.valued ??= this.unionOf(column.entries);
+      return ids.andNot(column.valued);
+    };
+
+    // Null sorts last, and first in descending order
+    if (descending) {
+      yield [null, nullGroup()];
+    }
+    const { entries } = column;
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[descending ? entries.length - 1 - i : i];
+      yield [entry.value, this.entryBitmap(entry).and(ids)];
+    }
+    if (!descending) {
+      yield [null, nullGroup()];
+    }
   }
 
   /**
-   * Get all available fields
+   * Records one by one in primary key order. Small groups are sorted directly; larger
+   * ones are picked from all records in primary key order, which is sorted once.
    */
-  async getFields(): Promise<string[]> {
-    await this.ensureInitialized();
-    return this.metadata?.fields || [];
+  private *primaryKeyGroups(
+    ids: RecordBitmap,
+    descending: boolean
+  ): Generator<[unknown, RecordBitmap]> {
+    const { primaryKeys } = this;
+    if (!primaryKeys) {
+      throw new Error('Primary keys are not loaded');
+    }
+    const byId = (a: number, b: number) => compareValues(primaryKeys.ids[a], primaryKeys.ids[b]);
+
+    let order: number[];
+    if (ids.size * 8 < primaryKeys.ordinals.size) {
+      order = Array.from(ids).sort(byId);
+    } else {
+      primaryKeys.sorted ??= Array.from(primaryKeys.all).sort(byId);
+      order = primaryKeys.sorted;
+    }
+
+    for (let i = 0; i < order.length; i++) {
+      const ordinal = order[descending ? order.length - 1 - i : i];
+      if (ids.has(ordinal)) {
+        yield [primaryKeys.ids[ordinal], RecordBitmap.of([ordinal])];
+      }
+    }
   }
 
   /**
-   * Get indexed fields
+   * Stream the records matching the filters, loading one data file at a time. Records
+   * are yielded in storage order and bypass the record cache, so memory stays bounded
+   * by the size of a data file however many records match.
    */
-  async getIndexedFields(): Promise<string[]> {
+  async *streamQuery<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    options: StreamOptions = {}
+  ): AsyncGenerator<T> {
     await this.ensureInitialized();
-    return this.metadata?.indexes.map(idx => idx.field) || [];
-  }
 
-  // Private helper methods for query execution
+    const candidates = await this.getCandidateIds(filters);
+    const isCandidate = candidates && (await this.membership(candidates.ids));
+    const primaryKey = this.loadedSplitMetadata.primaryKeyField;
+    let skip = options.offset ?? 0;
+    let remaining = options.limit ?? Infinity;
 
-  private async getRecordIdsForFilter(filter: QueryFilter): Promise<Set<string>> {
-    try {
-      // Try to use index first
-      return await this.getRecordIdsFromIndex(filter);
-    } catch (error) {
-      // Fall back to scanning records
-      console.warn(`Index lookup failed for field ${filter.field}, falling back to scan`);
-      return await this.scanRecordsForFilter(filter);
-    }
-  }
+    for (const file of this.loadedSplitMetadata.files) {
+      if (remaining <= 0) return;
 
-  private async getRecordIdsFromIndex(filter: QueryFilter): Promise<Set<string>> {
-    const index = await this.loadIndex(filter.field);
-    if (!index) {
-      throw new Error(`No index found for field: ${filter.field}`);
-    }
+      // Skip files without candidate records
+      if (isCandidate && !file.recordIds.some(isCandidate)) {
+        continue;
+      }
 
-    const resultIds = new Set<string>();
-
-    // Handle different index formats (old vs new)
-    if (index.entries && Array.isArray(index.entries)) {
-      // New format with entries array
-      for (const entry of index.entries) {
-        let matches = false;
-
-        switch (filter.operator) {
-          case QueryOperator.EQUALS:
-            matches = entry.value === filter.value;
-            break;
-          case QueryOperator.NOT_EQUALS:
-            matches = entry.value !== filter.value;
-            break;
-          case QueryOperator.GREATER_THAN:
-            matches = entry.value > filter.value;
-            break;
-          case QueryOperator.LESS_THAN:
-            matches = entry.value < filter.value;
-            break;
-          case QueryOperator.GREATER_THAN_OR_EQUAL:
-            matches = entry.value >= filter.value;
-            break;
-          case QueryOperator.LESS_THAN_OR_EQUAL:
-            matches = entry.value <= filter.value;
-            break;
-          case QueryOperator.IN:
-            matches = Array.isArray(filter.value) && filter.value.includes(entry.value);
-            break;
-          case QueryOperator.CONTAINS:
-            if (Array.isArray(entry.value)) {
-              matches = entry.value.includes(filter.value);
-            } else {
-              matches =
-                typeof entry.value === 'string' &&
-                typeof filter.value === 'string' &&
-                entry.value.includes(filter.value);
-            }
-            break;
-          case QueryOperator.STARTS_WITH:
-            matches =
-              typeof entry.value === 'string' &&
-              typeof filter.value === 'string' &&
-              entry.value.startsWith(filter.value);
-            break;
-          case QueryOperator.ENDS_WITH:
-            matches =
-              typeof entry.value === 'string' &&
-              typeof filter.value === 'string' &&
-              entry.value.endsWith(filter.value);
-            break;
-        }
+      for (const record of await this.dataLoader.loadFile(file, this.loadedSplitMetadata)) {
+        if (isCandidate && !isCandidate(record[primaryKey])) continue;
+        if (!this.recordMatchesFilters(record, filters)) continue;
 
-        if (matches) {
-          entry.recordIds.forEach((id: string) => resultIds.add(id));
-        }
-      }
-    } else {
-      // Old format - simple key-value mapping
-      if (filter.operator === QueryOperator.EQUALS) {
-        const recordIds = index[String(filter.value)] || [];
-        if (Array.isArray(recordIds)) {
-          recordIds.forEach((id: string) => resultIds.add(id));
+        if (skip > 0) {
+          skip--;
+          continue;
         }
+        if (remaining-- <= 0) return;
+
+        yield this.resultRecord(record, filters, options.select) as T;
       }
     }
-
-    return resultIds;
   }
 
-  private async scanRecordsForFilter(filter: QueryFilter): Promise<Set<string>> {
-    // This is less efficient but necessary for non-indexed fields
-    const allIds = await this.getAllRecordIds();
-    const resultIds = new Set<string>();
+  /**
+   * Search the full-text indexes and rank the records matching the filters by BM25
+   * relevance to the text. Scores are summed over the searched fields, multiplied by
+   * their boost. Only the records of the requested page are loaded.
+   */
+  async search<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    text: string,
+    options: SearchOptions = {},
+    page: StreamOptions = {}
+  ): Promise<SearchResult<T>> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
+
+    const fields =
+      options.fields ?? this.loadedMetadata.textIndexes?.map(index => index.field) ?? [];
+    const fieldTerms = new Map<string, { index: TextIndex; terms: string[] }>();
+    const scores = new Map<string, number>();
 
-    for (const id of allIds) {
-      const record = await this.loadRecord(id);
-      if (record && this.recordMatchesFilter(record, filter)) {
-        resultIds.add(id);
+    for (const field of fields) {
+      const index = await this.loadTextIndex(field);
+      if (!index) {
+        throw new Error(`No full-text index for field "${field}"`);
       }
-    }
 
-    return resultIds;
-  }
+      const terms = analyzeQuery(text, index.analyzer);
+      fieldTerms.set(field, { index, terms });
+      for (const [id, score] of scoreBM25(index, terms, options.boost?.[field] ?? 1)) {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
 
-  private recordMatchesFilters(record: DatabaseRecord, filters: QueryFilter[]): boolean {
-    return filters.every(filter => this.recordMatchesFilter(record, filter));
-  }
+    // Most relevant first; equal scores in primary key order
+    const ids = await this.filterIds(scores.keys(), filters);
+    ids.sort((a, b) => entryOf(scores, b) - entryOf(scores, a) || compareValues(a, b));
 
-  private recordMatchesFilter(record: DatabaseRecord, filter: QueryFilter): boolean {
-    const value = this.getNestedValue(record, filter.field);
+    const hits: SearchResult<T>['hits'] = [];
+    for (const id of this.getPageIds(ids, page)) {
+      const record = await this.loadRecord(id);
+      if (!record) continue;
 
-    switch (filter.operator) {
-      case QueryOperator.EQUALS:
-        return value === filter.value;
-      case QueryOperator.NOT_EQUALS:
-        return value !== filter.value;
-      case QueryOperator.GREATER_THAN:
-        return value > filter.value;
-      case QueryOperator.LESS_THAN:
-        return value < filter.value;
-      case QueryOperator.GREATER_THAN_OR_EQUAL:
-        return value >= filter.value;
-      case QueryOperator.LESS_THAN_OR_EQUAL:
-        return value <= filter.value;
-      case QueryOperator.IN:
-        return Array.isArray(filter.value) && filter.value.includes(value);
-      case QueryOperator.CONTAINS:
-        if (Array.isArray(value)) {
-          return value.includes(filter.value);
+      // Highlight the matching words of each searched field
+      const highlights: Record<string, string> = {};
+      for (const [field, { index, terms }] of fieldTerms) {
+        const fieldText = textOf(getNestedValue(record, field));
+        const marked =
+          fieldText !== null &&
+          highlight(fieldText, new Set(terms), index.analyzer, options.highlight);
+        if (marked) {
+          highlights[field] = marked;
         }
-        return (
-          typeof value === 'string' &&
-          typeof filter.value === 'string' &&
-          value.includes(filter.value)
-        );
-      case QueryOperator.STARTS_WITH:
-        return (
-          typeof value === 'string' &&
-          typeof filter.value === 'string' &&
-          value.startsWith(filter.value)
-        );
-      case QueryOperator.ENDS_WITH:
-        return (
-          typeof value === 'string' &&
-          typeof filter.value === 'string' &&
-          value.endsWith(filter.value)
-        );
-      default:
-        return false;
+      }
+
+      hits.push({
+        record: this.resultRecord(record, filters, page.select) as T,
+        score: entryOf(scores, id),
+        highlights,
+      });
     }
-  }
 
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : undefined;
-    }, obj);
+    return {
+      hits,
+      totalCount: ids.length,
+      hasMore: page.limit !== undefined && (page.offset ?? 0) + page.limit < ids.length,
+      executionTime: Date.now() - startTime,
+    };
   }
 
-  private applySorting<T>(records: T[], sortOptions: QuerySort[]): void {
-    records.sort((a, b) => {
-      for (const sortOption of sortOptions) {
-        const aVal = this.getNestedValue(a, sortOption.field);
-        const bVal = this.getNestedValue(b, sortOption.field);
+  /**
+   * Find the records matching the filters whose field is within an edit distance of the
+   * text, closest first, from the field's trigram index. Matching is case-insensitive and
+   * only the records of the requested page are loaded.
+   */
+  async fuzzy<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    text: string,
+    options: FuzzyOptions = {},
+    page: StreamOptions = {}
+  ): Promise<FuzzyResult<T>> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
 
-        let comparison = 0;
-        if (aVal < bVal) comparison = -1;
-        else if (aVal > bVal) comparison = 1;
+    const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+    if (!Number.isInteger(maxDistance) || maxDistance < 0) {
+      throw new Error(`maxDistance must be a non-negative integer, got ${maxDistance}`);
+    }
+    const index = await this.loadTrigramIndex(field);
+    if (!index) {
+      throw new Error(`No trigram index for field "${field}"`);
+    }
 
-        if (comparison !== 0) {
-          return sortOption.direction === 'desc' ? -comparison : comparison;
+    // Closest value of each record
+    type Match = { value: string; distance: number; similarity: number };
+    const closer = (a: Match, b: Match) => a.distance - b.distance || b.similarity - a.similarity;
+    const matches = new Map<string, Match>();
+    for (const [position, similar] of findSimilarValues(index, text, maxDistance)) {
+      const match = { value: index.values[position], ...similar };
+      for (const id of index.recordIds[position]) {
+        const current = matches.get(id);
+        if (!current || closer(match, current) < 0) {
+          matches.set(id, match);
         }
       }
-      return 0;
-    });
-  }
-
-  private async loadIndex(field: string): Promise<DatabaseIndex | any | null> {
-    if (this.indexCache.has(field)) {
-      return this.indexCache.get(field)!;
     }
 
-    try {
-      const indexData = await this.dataLoader.loadIndex(field);
-      if (indexData) {
-        this.indexCache.set(field, indexData);
+    // Fewest edits first, then most shared trigrams, then primary key order
+    const ids = await this.filterIds(matches.keys(), filters);
+    ids.sort((a, b) => closer(entryOf(matches, a), entryOf(matches, b)) || compareValues(a, b));
+
+    const hits: FuzzyResult<T>['hits'] = [];
+    for (const id of this.getPageIds(ids, page)) {
+      const record = await this.loadRecord(id);
+      if (record) {
+        hits.push({
+          record: this.resultRecord(record, filters, page.select) as T,
+          ...entryOf(matches, id),
+        });
       }
-      return indexData;
-    } catch (error) {
-      console.warn(`Failed to load index for field ${field}:`, error);
-      return null;
     }
+
+    return {
+      hits,
+      totalCount: ids.length,
+      hasMore: page.limit !== undefined && (page.offset ?? 0) + page.limit < ids.length,
+      executionTime: Date.now() - startTime,
+    };
   }
 
-  private async loadRecord(recordId: string): Promise<DatabaseRecord | null> {
-    if (this.recordCache.has(recordId)) {
-      return this.recordCache.get(recordId)!;
-    }
+  /**
+   * Find the records matching the filters whose point field is closest to a point, from
+   * the field's geo index. The search radius widens until it holds more matches than
+   * the page; only the records of the page are loaded.
+   */
+  async nearest<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    point: GeoPoint,
+    options: NearestOptions = {},
+    page: StreamOptions = {}
+  ): Promise<NearestResult<T>> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
 
-    // Find which file contains this record
-    const fileInfo = this.splitMetadata!.files.find(file => file.recordIds.includes(recordId));
+    const index = await this.loadGeoIndex(field);
+    if (!index) {
+      throw new Error(`No geo index for field "${field}"`);
+    }
 
-    if (!fileInfo) {
-      return null;
+    // Points within the radius are closer than any outside it, so once it holds more
+    // matches than the page, the page holds the nearest ones
+    const maxDistance = Math.min(options.maxDistance ?? MAX_DISTANCE_KM, MAX_DISTANCE_KM);
+    const wanted = (page.offset ?? 0) + (page.limit ?? Infinity);
+    let radius = Math.min(initialSearchRadius(index, wanted + 1), maxDistance);
+    let matches: Array<{ id: string; distance: number }>;
+    for (;;) {
+      const distances = new Map<string, number>();
+      for (const match of this.pointsWithin(index, point, radius)) {
+        distances.set(match.id, distanceKm(point, match.point));
+      }
+      const ids = await this.filterIds(distances.keys(), filters);
+      matches = ids.map(id => ({ id, distance: entryOf(distances, id) }));
+      if (matches.length > wanted || radius >= maxDistance) break;
+      radius = Math.min(radius * 2, maxDistance);
     }
 
-    try {
-      const record = await this.dataLoader.loadRecord(recordId, fileInfo, this.splitMetadata!);
+    // Closest first, then primary key order
+    matches.sort((a, b) => a.distance - b.distance || compareValues(a.id, b.id));
 
+    const hits: NearestResult<T>['hits'] = [];
+    for (const { id, distance } of this.getPageIds(matches, page)) {
+      const record = await this.loadRecord(id);
       if (record) {
-        this.recordCache.set(recordId, record);
+        hits.push({
+          record: this.resultRecord(record, filters, page.select) as T,
+          distance,
+        });
+      }
+    }
+
+    return {
+      hits,
+      hasMore: page.limit !== undefined && (page.offset ?? 0) + page.limit < matches.length,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Complete a prefix from the field's prefix index: the values starting with it, ignoring
+   * case, most frequent first. Only the shards the prefix can fall in are loaded.
+   */
+  async suggest(
+    field: string,
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<Suggestion[]> {
+    await this.ensureInitialized();
+
+    const limit = options.limit ?? DEFAULT_SUGGEST_LIMIT;
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`limit must be a non-negative integer, got ${limit}`);
+    }
+    const entries = await this.loadPrefixEntries(field, prefix);
+    if (!entries) {
+      throw new Error(`No prefix index for field "${field}"`);
+    }
+
+    // Most frequent first, then in value order
+    const start = foldCase(prefix);
+    return entries
+      .filter(entry => foldCase(entry.value).startsWith(start))
+      .sort((a, b) => b.count - a.count || compareValues(a.value, b.value))
+      .slice(0, limit)
+      .map(({ value, count }) => ({ value, count }));
+  }
+
+  /**
+   * Aggregate the records matching the filters, optionally grouped by a field.
+   * Counts are answered from the field indexes when the filters resolve exactly
+   * through indexes; other aggregations load the matching records.
+   */
+  async aggregate(filters: QueryCondition[], options: AggregateOptions): Promise<AggregateResult> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
+
+    const candidates = await this.getCandidateIds(filters);
+    const exact = filters.length === 0 || !!candidates?.exact;
+    const candidateIds = candidates ? candidates.ids : await this.getAllOrdinals();
+
+    if (exact && isCountOnly(options.aggregates)) {
+      const counts = await this.countGroupsFromIndex(candidateIds, options.groupBy);
+      if (counts) {
+        return {
+          groups: rowsFromCounts(counts, options),
+          totalCount: candidateIds.size,
+          fromIndex: true,
+          executionTime: Date.now() - startTime,
+        };
+      }
+    }
+
+    const records: DatabaseRecord[] = [];
+    for (const id of await this.toRecordIds(candidateIds)) {
+      const record = await this.loadRecord(id);
+      if (record && this.recordMatchesFilters(record, filters)) {
+        records.push(record);
+      }
+    }
+
+    return {
+      groups: aggregateRecords(records, options),
+      totalCount: records.length,
+      fromIndex: false,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Count the values of fields among the records matching the filters. Counts are
+   * taken from the field indexes; only fields without an index load the records.
+   */
+  async facets(filters: QueryCondition[], fields: string[]): Promise<FacetResult> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
+
+    const ids = await this.getMatchingIds(filters);
+    const facets: FacetResult['facets'] = {};
+    let records: DatabaseRecord[] | undefined;
+
+    for (const field of fields) {
+      let counts = await this.countGroupsFromIndex(ids, field);
+      if (!counts) {
+        records ??= (await this.getRecords(await this.toRecordIds(ids))).filter(
+          (record): record is DatabaseRecord => record !== null
+        );
+        counts = countGroups(records, field);
+      }
+      facets[field] = facetValues(counts);
+    }
+
+    return { facets, totalCount: ids.size, executionTime: Date.now() - startTime };
+  }
+
+  /**
+   * Run the filters and report the plan: the order of the index lookups, which filters
+   * were resolved from indexes and which were checked on loaded records, and the
+   * estimated versus actual number of rows at each step
+   */
+  async explain(filters: QueryCondition[]): Promise<QueryExplanation> {
+    const startTime = Date.now();
+    await this.ensureInitialized();
+
+    const plan = this.planQuery(filters);
+    const ids = await this.getMatchingIds(filters, plan);
+
+    return {
+      plan,
+      indexedFilters: filtersWithStrategy(plan, 'index'),
+      scannedFilters: filtersWithStrategy(plan, 'scan'),
+      estimatedRows: plan.estimatedRows,
+      candidateRows: plan.actualRows ?? this.loadedMetadata.totalRecords,
+      actualRows: ids.size,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Get a single record by ID
+   */
+  async getRecord<T = DatabaseRecord>(id: string): Promise<T | null> {
+    await this.ensureInitialized();
+    return (await this.loadRecord(id)) as T | null;
+  }
+
+  /**
+   * Get several records by ID, in the order of the IDs (null for missing records)
+   */
+  async getRecords<T = DatabaseRecord>(ids: unknown[]): Promise<(T | null)[]> {
+    await this.ensureInitialized();
+    return (await Promise.all(ids.map(id => this.loadRecord(id as string)))) as (T | null)[];
+  }
+
+  /**
+   * Get all records with optional limit
+   */
+  async getAllRecords<T = DatabaseRecord>(limit?: number): Promise<T[]> {
+    const result = await this.executeQuery<T>([], { limit });
+    return result.records;
+  }
+
+  /**
+   * Get database metadata
+   */
+  async getMetadata(): Promise<DatabaseMetadata | undefined> {
+    await this.ensureInitialized();
+    return this.metadata;
+  }
+
+  /**
+   * Get database statistics
+   */
+  async getStats(): Promise<DatabaseMetadata | undefined> {
+    return this.getMetadata();
+  }
+
+  /**
+   * Count total records
+   */
+  async count(): Promise<number> {
+    await this.ensureInitialized();
+    return this.metadata?.totalRecords || 0;
+  }
+
+  /**
+   * Get all available fields
+   */
+  async getFields(): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.metadata?.fields || [];
+  }
+
+  /**
+   * Get indexed fields
+   */
+  async getIndexedFields(): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.metadata?.indexes.map(idx => idx.field) || [];
+  }
+
+  /**
+   * Get the statistics of a field computed at build time: bounds, mean, null count, most
+   * common values and histogram. Null for fields without values.
+   */
+  async getFieldStats(field: string): Promise<FieldStats | null> {
+    await this.ensureInitialized();
+    return this.metadata?.fieldStats?.find(stats => stats.field === field) ?? null;
+  }
+
+  // Private helper methods for query execution
+
+  /**
+   * Plan the top-level filters, which are combined with AND
+   */
+  private planQuery(filters: QueryCondition[]): GroupPlan {
+    return planCondition({ type: 'and', conditions: filters }, this.loadedMetadata, field =>
+      this.indexCache.get(field)
+    ) as GroupPlan;
+  }
+
+  /**
+   * Resolve the candidate record IDs of the filters from index lookups. Returns null
+   * when the filters can only be checked by scanning every record.
+   */
+  private async getCandidateIds(
+    filters: QueryCondition[],
+    plan = this.planQuery(filters)
+  ): Promise<CandidateIds | null> {
+    return this.resolvePlan(plan);
+  }
+
+  /**
+   * Resolve a planned condition, combining groups with intersection (and), union (or)
+   * and difference (not). Records the actual rows of each step on the plan.
+   */
+  private async resolvePlan(node: PlanNode): Promise<CandidateIds | null> {
+    if (node.strategy === 'scan') {
+      return null;
+    }
+
+    let candidates: CandidateIds | null;
+    if (node.type === 'filter') {
+      candidates = await this.getRecordIdsForFilter(node);
+    } else if (node.type === 'composite') {
+      candidates = await this.getRecordIdsFromComposite(node);
+    } else if (node.type === 'or') {
+      candidates = await this.resolveUnion(node.children);
+    } else if (node.type === 'not') {
+      const inner = await this.resolveIntersection(node.children);
+      candidates = inner?.exact ? await this.complement(inner.ids) : null;
+    } else if (node.type === 'element') {
+      // The lookups also find records where different elements match each condition
+      const inner = await this.resolveIntersection(node.children);
+      candidates = inner && { ids: inner.ids, exact: inner.exact && node.exact };
+    } else {
+      candidates = await this.resolveIntersection(node.children);
+    }
+
+    if (!candidates) {
+      // An index could not be read after all
+      node.strategy = 'scan';
+      return null;
+    }
+    node.actualRows = candidates.ids.size;
+    return candidates;
+  }
+
+  private async resolveIntersection(children: PlanNode[]): Promise<CandidateIds | null> {
+    let candidates: CandidateIds | null = null;
+    let exact = true;
+    for (const child of children) {
+      const childIds = await this.resolvePlan(child);
+      if (!childIds) {
+        // Checked on the candidate records
+        exact = false;
+        continue;
+      }
+
+      if (candidates === null) {
+        candidates = childIds;
+      } else {
+        // Intersect with previous results
+        candidates = {
+          ids: candidates.ids.and(childIds.ids),
+          exact: candidates.exact && childIds.exact,
+        };
+      }
+
+      // Skip the remaining lookups if no candidates remain
+      if (candidates.ids.size === 0) {
+        break;
+      }
+    }
+
+    return candidates && { ids: candidates.ids, exact: candidates.exact && exact };
+  }
+
+  private async resolveUnion(children: PlanNode[]): Promise<CandidateIds | null> {
+    let ids = RecordBitmap.empty();
+    let exact = true;
+    for (const child of children) {
+      const childIds = await this.resolvePlan(child);
+      if (!childIds) return null;
+      ids = ids.or(childIds.ids);
+      exact &&= childIds.exact;
+    }
+    return { ids, exact };
+  }
+
+  private async complement(excluded: RecordBitmap): Promise<CandidateIds> {
+    return { ids: (await this.getAllOrdinals()).andNot(excluded), exact: true };
+  }
+
+  private async getRecordIdsForFilter(filter: FilterPlan): Promise<CandidateIds | null> {
+    try {
+      return { ids: await this.getRecordIdsFromIndex(filter), exact: filter.exact };
+    } catch {
+      // Leave the filter to be checked on the loaded records
+      console.warn(`Index lookup failed for field ${filter.field}, falling back to scan`);
+      return null;
+    }
+  }
+
+  private async getRecordIdsFromComposite(node: CompositePlan): Promise<CandidateIds | null> {
+    const name = node.fields.join('+');
+    try {
+      let index = this.compositeIndexCache.get(name);
+      if (!index) {
+        const loaded = await this.dataLoader.loadCompositeIndex(node.fields);
+        if (!loaded) {
+          throw new Error(`No composite index found for ${name}`);
+        }
+        index = { ...loaded, entries: await this.upgradeEntries(loaded.entries) };
+        this.compositeIndexCache.set(name, index);
+      }
+
+      const entry = index.entries.find(candidate =>
+        candidate.values.every((value, i) => value === node.values[i])
+      );
+      return { ids: entry ? this.entryBitmap(entry) : RecordBitmap.empty(), exact: true };
+    } catch {
+      // Leave the filters to be checked on the loaded records
+      console.warn(`Composite index lookup failed for ${name}, falling back to scan`);
+      return null;
+    }
+  }
+
+  private async getRecordIdsFromIndex(filter: QueryFilter): Promise<RecordBitmap> {
+    if (isGeoOperator(filter.operator)) {
+      return this.getRecordIdsFromGeoIndex(filter);
+    }
+
+    if (isCollated(filter.collation)) {
+      const collated = await this.getRecordIdsFromCollatedIndex(filter, filter.collation);
+      if (collated) return collated;
+    }
+
+    // Prefix indexes answer STARTS_WITH from the shards the prefix can fall in
+    if (filter.operator === QueryOperator.STARTS_WITH && typeof filter.value === 'string') {
+      const entries = !isCollated(filter.collation)
+        ? await this.loadPrefixEntries(filter.field, filter.value)
+        : null;
+      if (entries) {
+        return this.unionOf(entries.filter(entry => this.valueMatchesFilter(entry.value, filter)));
+      }
+    }
+
+    // Collated filters without a matching collated index fold each value of the index
+    const index = await this.loadIndex(filter.field);
+    if (!index) {
+      throw new Error(`No index found for field: ${filter.field}`);
+    }
+
+    // Paged indexes only load the pages that can hold matching values
+    const entries = isPagedIndex(index)
+      ? await this.loadMatchingPages(index, filter)
+      : index.entries;
+
+    // Value-sorted indexes answer range filters by binary search
+    const info = this.metadata?.indexes.find(idx => idx.field === filter.field);
+    if (info?.range && Array.isArray(entries) && !isCollated(filter.collation)) {
+      const rangeEntries = this.getRangeEntries(entries, filter);
+      if (rangeEntries) return this.unionOf(rangeEntries);
+    }
+
+    if (entries && Array.isArray(entries)) {
+      return this.unionOf(entries.filter(entry => this.valueMatchesFilter(entry.value, filter)));
+    }
+
+    // Indexes without entries map each value to its record IDs
+    const recordIds = filter.operator === QueryOperator.EQUALS && index[String(filter.value)];
+    return this.toBitmap(Array.isArray(recordIds) ? recordIds : []);
+  }
+
+  /**
+   * Records matching a collated filter from the field's collated index. Returns null when
+   * the field has no collated index that folds at least the differences the filter ignores.
+   */
+  private async getRecordIdsFromCollatedIndex(
+    filter: QueryFilter,
+    collation: Collation
+  ): Promise<RecordBitmap | null> {
+    const info = this.metadata?.collatedIndexes?.find(idx => idx.field === filter.field);
+    if (!info || !collationCovers(info.collation, collation)) return null;
+
+    let index = this.collatedIndexCache.get(filter.field);
+    if (!index) {
+      const loaded = await this.dataLoader.loadCollatedIndex(filter.field);
+      if (!loaded) return null;
+      this.collatedIndexCache.set(filter.field, loaded);
+      index = loaded;
+    }
+
+    // Compare under the index collation; when it folds more than the filter's, the
+    // matches are a superset that the planner leaves to be checked on the records
+    const folded = { ...filter, collation: index.collation };
+    return this.unionOf(
+      index.entries.filter(entry => this.valueMatchesFilter(entry.value, folded))
+    );
+  }
+
+  private async getRecordIdsFromGeoIndex(filter: QueryFilter): Promise<RecordBitmap> {
+    const index = await this.loadGeoIndex(filter.field);
+    if (!index) {
+      throw new Error(`No geo index found for field: ${filter.field}`);
+    }
+
+    const matches =
+      filter.operator === QueryOperator.WITHIN_RADIUS
+        ? this.pointsWithin(index, filter.value.center, filter.value.km)
+        : pointsInBox(index, filter.value);
+    return this.toBitmap(matches.map(match => match.id));
+  }
+
+  /**
+   * Points of a geo index within a distance of a center, read from the cells covering
+   * the box around the circle
+   */
+  private pointsWithin(
+    index: GeoIndex,
+    center: GeoPoint,
+    km: number
+  ): Array<{ id: string; point: GeoPoint }> {
+    return pointsInBox(index, radiusBox(center, km)).filter(
+      match => distanceKm(center, match.point) <= km
+    );
+  }
+
+  /**
+   * Records of an index entry, decoded once per loaded entry
+   */
+  private entryBitmap(entry: { bitmap: string }): RecordBitmap {
+    let bitmap = this.entryBitmaps.get(entry);
+    if (!bitmap) {
+      bitmap = RecordBitmap.deserialize(entry.bitmap);
+      this.entryBitmaps.set(entry, bitmap);
+    }
+    return bitmap;
+  }
+
+  /**
+   * Index entries in the current format. Databases built before bitmaps (format 1) list
+   * the record IDs of each entry, which are encoded once when the index is loaded.
+   */
+  private async upgradeEntries<E extends { count: number; bitmap: string }>(
+    entries: E[]
+  ): Promise<E[]> {
+    if ((this.loadedMetadata.indexFormat ?? 1) >= INDEX_FORMAT) {
+      return entries;
+    }
+
+    const { ordinals } = await this.getPrimaryKeys();
+    return entries.map(entry => {
+      const { recordIds, ...rest } = entry as Omit<E, 'count' | 'bitmap'> & {
+        recordIds?: string[];
+      };
+      if (!Array.isArray(recordIds)) return entry;
+
+      const bitmap = RecordBitmap.of(
+        recordIds.map(id => ordinals.get(id)).filter(ordinal => ordinal !== undefined)
+      );
+      const upgraded = { ...rest, count: bitmap.size, bitmap: bitmap.serialize() } as E;
+      this.entryBitmaps.set(upgraded, bitmap);
+      return upgraded;
+    });
+  }
+
+  private unionOf(entries: Array<{ bitmap: string }>): RecordBitmap {
+    return entries.reduce((ids, entry) => ids.or(this.entryBitmap(entry)), RecordBitmap.empty());
+  }
+
+  /**
+   * Entries of the pages of a paged index that can hold values matching the filter.
+   * Hash pages are selected for equality and IN lookups, range pages by comparing the
+   * filter with their smallest and largest value; other filters, and collated filters
+   * whose values are compared folded, read every page.
+   */
+  private async loadMatchingPages(
+    index: PagedIndex,
+    filter: QueryFilter
+  ): Promise<DatabaseIndex['entries']> {
+    let pages = index.pages.map((_, page) => page);
+    if (isCollated(filter.collation)) {
+      // Folded values can be on any page
+    } else if (index.paging === 'hash') {
+      const { operator, value } = filter;
+      const values =
+        operator === QueryOperator.EQUALS
+          ? [value]
+          : operator === QueryOperator.IN && Array.isArray(value)
+            ? value
+            : null;
+      if (values) {
+        pages = Array.from(new Set(values.map(item => hashPage(item, index.pages.length))));
+      }
+    } else {
+      pages = pages.filter(page => this.pageMayMatch(index.pages[page], filter));
+    }
+
+    const entries: DatabaseIndex['entries'] = [];
+    for (const page of pages) {
+      const key = `${index.field}/${page}`;
+      let pageEntries = this.indexPageCache.get(key);
+      if (!pageEntries) {
+        pageEntries = await this.upgradeEntries(
+          (await this.dataLoader.loadIndexPage(index.field, page)).entries
+        );
+        this.indexPageCache.set(key, pageEntries);
+      }
+      entries.push(...pageEntries);
+    }
+    return entries;
+  }
+
+  /**
+   * Entries of the shards of a field's prefix index that can hold values starting with a
+   * prefix, or null when the field has no prefix index
+   */
+  private async loadPrefixEntries(
+    field: string,
+    prefix: string
+  ): Promise<PrefixShardData['entries'] | null> {
+    if (!this.metadata?.prefixIndexes?.some(index => index.field === field)) return null;
+
+    let index = this.prefixIndexCache.get(field);
+    if (!index) {
+      const loaded = await this.dataLoader.loadPrefixIndex(field);
+      if (!loaded) return null;
+      this.prefixIndexCache.set(field, loaded);
+      index = loaded;
+    }
+
+    const entries: PrefixShardData['entries'] = [];
+    for (const shard of prefixShards(index, prefix)) {
+      const key = `${field}/${shard}`;
+      let shardEntries = this.prefixShardCache.get(key);
+      if (!shardEntries) {
+        shardEntries = (await this.dataLoader.loadPrefixShard(field, shard)).entries;
+        this.prefixShardCache.set(key, shardEntries);
+      }
+      entries.push(...shardEntries);
+    }
+    return entries;
+  }
+
+  /**
+   * Whether a page of a range-paged index can hold values matching the filter
+   */
+  private pageMayMatch(page: IndexPage, filter: QueryFilter): boolean {
+    const { min, max } = page;
+    const { value } = filter;
+
+    // The page of null values
+    if (min === null) {
+      return this.valueMatchesFilter(null, filter);
+    }
+
+    // Values are compared in index order, so values of another type than the page's
+    // never fall in it; comparisons would coerce e.g. null to 0
+    const inPage = (item: unknown) =>
+      typeof item === typeof min && compareValues(item, min) >= 0 && compareValues(item, max) <= 0;
+
+    switch (filter.operator) {
+      case QueryOperator.EQUALS:
+        return inPage(value);
+      case QueryOperator.IN:
+        return Array.isArray(value) && value.some(inPage);
+      case QueryOperator.GREATER_THAN:
+        return compareValues(max, value) > 0;
+      case QueryOperator.GREATER_THAN_OR_EQUAL:
+        return compareValues(max, value) >= 0;
+      case QueryOperator.LESS_THAN:
+        return compareValues(min, value) < 0;
+      case QueryOperator.LESS_THAN_OR_EQUAL:
+        return compareValues(min, value) <= 0;
+      case QueryOperator.BETWEEN:
+        return (
+          Array.isArray(value) &&
+          compareValues(max, value[0]) >= 0 &&
+          compareValues(min, value[1]) <= 0
+        );
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Entries of a value-sorted index matching a comparison, found by binary search over
+   * its non-null values. Returns null for operators that cannot use the value order.
+   */
+  private getRangeEntries(
+    entries: DatabaseIndex['entries'],
+    filter: QueryFilter
+  ): DatabaseIndex['entries'] | null {
+    const { value } = filter;
+
+    // Null sorts last and is checked like any other value
+    const hasNull = entries.length > 0 && entries[entries.length - 1].value === null;
+    const valueCount = hasNull ? entries.length - 1 : entries.length;
+
+    // First entry whose comparison to a bound passes a test that holds for all following
+    // entries
+    const firstWhere = (bound: unknown, test: (comparison: number) => boolean): number => {
+      let low = 0;
+      let high = valueCount;
+      while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (test(compareValues(entries[middle].value, bound))) {
+          high = middle;
+        } else {
+          low = middle + 1;
+        }
+      }
+      return low;
+    };
+
+    let start = 0;
+    let end = valueCount;
+    switch (filter.operator) {
+      case QueryOperator.EQUALS:
+        start = firstWhere(value, comparison => comparison >= 0);
+        end = firstWhere(value, comparison => comparison > 0);
+        break;
+      case QueryOperator.GREATER_THAN:
+        start = firstWhere(value, comparison => comparison > 0);
+        break;
+      case QueryOperator.GREATER_THAN_OR_EQUAL:
+        start = firstWhere(value, comparison => comparison >= 0);
+        break;
+      case QueryOperator.LESS_THAN:
+        end = firstWhere(value, comparison => comparison >= 0);
+        break;
+      case QueryOperator.LESS_THAN_OR_EQUAL:
+        end = firstWhere(value, comparison => comparison > 0);
+        break;
+      case QueryOperator.BETWEEN:
+        if (!Array.isArray(value)) return [];
+        start = firstWhere(value[0], comparison => comparison >= 0);
+        end = firstWhere(value[1], comparison => comparison > 0);
+        break;
+      default:
+        return null;
+    }
+
+    const matching = entries.slice(start, end);
+    if (hasNull && this.valueMatchesFilter(null, filter)) {
+      matching.push(entries[valueCount]);
+    }
+    return matching;
+  }
+
+  /**
+   * IDs of the records matching the filters. Records are only loaded to check
+   * candidates that the indexes cannot resolve exactly.
+   */
+  private async getMatchingIds(
+    filters: QueryCondition[],
+    plan = this.planQuery(filters)
+  ): Promise<RecordBitmap> {
+    const candidates = await this.getCandidateIds(filters, plan);
+    const candidateIds = candidates ? candidates.ids : await this.getAllOrdinals();
+    if (filters.length === 0 || candidates?.exact) {
+      return candidateIds;
+    }
+
+    const { ids } = await this.getPrimaryKeys();
+    const matching: number[] = [];
+    for (const ordinal of candidateIds) {
+      const record = await this.loadRecord(ids[ordinal]);
+      if (record && this.recordMatchesFilters(record, filters)) {
+        matching.push(ordinal);
+      }
+    }
+    return RecordBitmap.of(matching);
+  }
+
+  /**
+   * The given IDs whose records match the filters. Records are only loaded to check
+   * candidates that the indexes cannot resolve exactly.
+   */
+  private async filterIds(ids: Iterable<string>, filters: QueryCondition[]): Promise<string[]> {
+    if (filters.length === 0) return Array.from(ids);
+
+    const candidates = await this.getCandidateIds(filters);
+    const isCandidate = candidates && (await this.membership(candidates.ids));
+    const matching: string[] = [];
+    for (const id of ids) {
+      if (isCandidate && !isCandidate(id)) continue;
+      if (!candidates?.exact) {
+        const record = await this.loadRecord(id);
+        if (!record || !this.recordMatchesFilters(record, filters)) continue;
+      }
+      matching.push(id);
+    }
+    return matching;
+  }
+
+  private getPageIds<I>(ids: I[], page: StreamOptions): I[] {
+    const offset = page.offset ?? 0;
+    return page.limit !== undefined ? ids.slice(offset, offset + page.limit) : ids.slice(offset);
+  }
+
+  /**
+   * Count the records of each group from the group field's index. Records without a
+   * value are counted under null. Returns null when the field is not indexed.
+   */
+  private async countGroupsFromIndex(
+    ids: RecordBitmap,
+    groupBy?: string
+  ): Promise<Map<unknown, number> | null> {
+    if (!groupBy) {
+      return new Map([[null, ids.size]]);
+    }
+
+    if (!this.metadata?.indexes.some(idx => idx.field === groupBy)) return null;
+    const index = await this.loadIndex(groupBy);
+    if (!index?.entries || !Array.isArray(index.entries)) return null;
+
+    const counts = new Map<unknown, number>();
+    let grouped = RecordBitmap.empty();
+    for (const entry of index.entries as DatabaseIndex['entries']) {
+      const matching = this.entryBitmap(entry).and(ids);
+      const count = matching.size;
+      if (count > 0) {
+        grouped = grouped.or(matching);
+        counts.set(entry.value, (counts.get(entry.value) ?? 0) + count);
+      }
+    }
+
+    const ungrouped = ids.size - grouped.size;
+    if (ungrouped > 0) {
+      counts.set(null, (counts.get(null) ?? 0) + ungrouped);
+    }
+    return counts;
+  }
+
+  private recordMatchesFilters(record: DatabaseRecord, filters: QueryCondition[]): boolean {
+    return filters.every(filter => this.recordMatchesCondition(record, filter));
+  }
+
+  private recordMatchesCondition(record: DatabaseRecord, condition: QueryCondition): boolean {
+    if (!isQueryGroup(condition)) {
+      return this.recordMatchesFilter(record, condition);
+    }
+
+    switch (condition.type) {
+      case 'or':
+        return condition.conditions.some(child => this.recordMatchesCondition(record, child));
+      case 'not':
+        return !this.recordMatchesFilters(record, condition.conditions);
+      case 'element': {
+        const elements = condition.field && getNestedValue(record, condition.field);
+        return (
+          Array.isArray(elements) &&
+          elements.some(element => this.recordMatchesFilters(element, condition.conditions))
+        );
+      }
+      default:
+        return this.recordMatchesFilters(record, condition.conditions);
+    }
+  }
+
+  /**
+   * A record as returned for the filters: the arrays of top-level element matches with
+   * onlyMatching keep only their matching elements, then the selected fields are
+   * projected. Cached records are left untouched.
+   */
+  private resultRecord(
+    record: DatabaseRecord,
+    filters: QueryCondition[],
+    select?: string[]
+  ): DatabaseRecord {
+    let result = record;
+    for (const condition of filters) {
+      if (!isQueryGroup(condition) || condition.type !== 'element' || !condition.onlyMatching) {
+        continue;
+      }
+      const { field } = condition;
+      const elements = field && getNestedValue(result, field);
+      if (field && Array.isArray(elements)) {
+        result = replaceValue(
+          result,
+          field,
+          elements.filter(element => this.recordMatchesFilters(element, condition.conditions))
+        );
+      }
+    }
+    return select ? projectRecord(result, select) : result;
+  }
+
+  private recordMatchesFilter(record: DatabaseRecord, filter: QueryFilter): boolean {
+    if (isGeoOperator(filter.operator)) {
+      const point = recordPoint(record, filter.field);
+      if (!point) return false;
+      return filter.operator === QueryOperator.WITHIN_RADIUS
+        ? distanceKm(filter.value.center, point) <= filter.value.km
+        : inBox(point, filter.value);
+    }
+
+    // Element fields ("cards[].set") match when any element of the array does
+    const element = filter.field.indexOf('[].');
+    if (element !== -1) {
+      const elements = getNestedValue(record, filter.field.slice(0, element));
+      const field = filter.field.slice(element + 3);
+      return (
+        Array.isArray(elements) &&
+        elements.some(item => this.recordMatchesFilter(item, { ...filter, field }))
+      );
+    }
+    return this.valueMatchesFilter(getNestedValue(record, filter.field), filter);
+  }
+
+  private valueMatchesFilter(value: any, filter: QueryFilter): boolean {
+    if (isCollated(filter.collation)) {
+      // Compare the values folded by the collation
+      return this.valueMatchesFilter(foldValue(value, filter.collation), {
+        ...filter,
+        value: foldValue(filter.value, filter.collation),
+        collation: undefined,
+      });
+    }
+
+    switch (filter.operator) {
+      case QueryOperator.EQUALS:
+        return value === filter.value;
+      case QueryOperator.NOT_EQUALS:
+        return value !== filter.value;
+      case QueryOperator.GREATER_THAN:
+        return value > filter.value;
+      case QueryOperator.LESS_THAN:
+        return value < filter.value;
+      case QueryOperator.GREATER_THAN_OR_EQUAL:
+        return value >= filter.value;
+      case QueryOperator.LESS_THAN_OR_EQUAL:
+        return value <= filter.value;
+      case QueryOperator.BETWEEN:
+        return Array.isArray(filter.value) && value >= filter.value[0] && value <= filter.value[1];
+      case QueryOperator.IN:
+        return Array.isArray(filter.value) && filter.value.includes(value);
+      case QueryOperator.CONTAINS:
+        if (Array.isArray(value)) {
+          return value.includes(filter.value);
+        }
+        return (
+          typeof value === 'string' &&
+          typeof filter.value === 'string' &&
+          value.includes(filter.value)
+        );
+      case QueryOperator.STARTS_WITH:
+        return (
+          typeof value === 'string' &&
+          typeof filter.value === 'string' &&
+          value.startsWith(filter.value)
+        );
+      case QueryOperator.ENDS_WITH:
+        return (
+          typeof value === 'string' &&
+          typeof filter.value === 'string' &&
+          value.endsWith(filter.value)
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Sort order of a query. Paged queries (with a limit or cursor) end with the primary
+   * key so records with equal sort values keep a stable order between pages.
+   */
+  private getPageSort(options: QueryOptions): QuerySort[] {
+    const sort = options.sort ?? [];
+    const primaryKey = this.loadedSplitMetadata.primaryKeyField;
+    const paged = options.limit !== undefined || options.after !== undefined;
+
+    if (!paged || sort.some(({ field }) => field === primaryKey)) {
+      return sort;
+    }
+    return [...sort, { field: primaryKey, direction: 'asc' }];
+  }
+
+  private getSortKey(record: unknown, sortOptions: QuerySort[]): unknown[] {
+    return sortOptions.map(({ field }) => getNestedValue(record, field) ?? null);
+  }
+
+  private compareSortKeys(a: unknown[], b: unknown[], sortOptions: QuerySort[]): number {
+    for (let i = 0; i < sortOptions.length; i++) {
+      const comparison = compareValues(a[i] ?? null, b[i] ?? null);
+      if (comparison !== 0) {
+        return sortOptions[i].direction === 'desc' ? -comparison : comparison;
+      }
+    }
+    return 0;
+  }
+
+  private applySorting<T>(records: T[], sortOptions: QuerySort[]): void {
+    records.sort((a, b) =>
+      this.compareSortKeys(
+        this.getSortKey(a, sortOptions),
+        this.getSortKey(b, sortOptions),
+        sortOptions
+      )
+    );
+  }
+
+  private async loadIndex(field: string): Promise<DatabaseIndex | any | null> {
+    const cached = this.indexCache.get(field);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      let indexData = await this.dataLoader.loadIndex(field);
+      if (Array.isArray(indexData?.entries)) {
+        indexData = { ...indexData, entries: await this.upgradeEntries(indexData.entries) };
+      }
+      if (indexData) {
+        this.indexCache.set(field, indexData);
+      }
+      return indexData;
+    } catch (error) {
+      console.warn(`Failed to load index for field ${field}:`, error);
+      return null;
+    }
+  }
+
+  private async loadGeoIndex(field: string): Promise<GeoIndex | null> {
+    const cached = this.geoIndexCache.get(field);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.dataLoader.loadGeoIndex(field);
+    if (index) {
+      this.geoIndexCache.set(field, index);
+    }
+    return index;
+  }
+
+  private async loadTextIndex(field: string): Promise<TextIndex | null> {
+    const cached = this.textIndexCache.get(field);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.dataLoader.loadTextIndex(field);
+    if (index) {
+      this.textIndexCache.set(field, index);
+    }
+    return index;
+  }
+
+  private async loadTrigramIndex(field: string): Promise<TrigramIndex | null> {
+    const cached = this.trigramIndexCache.get(field);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.dataLoader.loadTrigramIndex(field);
+    if (index) {
+      this.trigramIndexCache.set(field, index);
+    }
+    return index;
+  }
+
+  private async loadRecord(recordId: string): Promise<DatabaseRecord | null> {
+    const cached = this.recordCache.get(recordId);
+    if (cached) {
+      return cached;
+    }
+
+    // Find which file contains this record
+    if (!this.recordFiles) {
+      const recordFiles = new Map<unknown, SplitMetadata['files'][0]>();
+      for (const file of this.loadedSplitMetadata.files) {
+        file.recordIds.forEach(id => recordFiles.set(id, file));
+      }
+      this.recordFiles = recordFiles;
+    }
+    const fileInfo = this.recordFiles.get(recordId);
+
+    if (!fileInfo) {
+      return null;
+    }
+
+    try {
+      const record = await this.dataLoader.loadRecord(recordId, fileInfo, this.loadedSplitMetadata);
+
+      if (record) {
+        this.recordCache.set(recordId, record);
       }
 
       return record;
@@ -454,21 +1814,61 @@ export class QueryEngine {
     }
   }
 
-  private async getAllRecordIds(): Promise<Set<string>> {
-    // Use primary key index to get all record IDs efficiently
+  /**
+   * Record IDs by ordinal, read from the primary key index on first use. Index entries
+   * refer to records by ordinal.
+   */
+  private async getPrimaryKeys(): Promise<PrimaryKeys> {
+    if (this.primaryKeys) {
+      return this.primaryKeys;
+    }
+
     const primaryIndex = await this.dataLoader.loadPrimaryIndex();
-    const allIds = new Set<string>();
+    const ids: string[] = [];
+    const ordinals = new Map<unknown, number>();
 
     if (primaryIndex.entries && Array.isArray(primaryIndex.entries)) {
       // New format
       primaryIndex.entries.forEach((entry: any) => {
-        allIds.add(entry.id);
+        ids[entry.index] = entry.id;
+        ordinals.set(entry.id, entry.index);
       });
     } else {
       // Old format - keys are the IDs
-      Object.keys(primaryIndex).forEach(id => allIds.add(id));
+      Object.keys(primaryIndex).forEach((id, ordinal) => {
+        ids[ordinal] = id;
+        ordinals.set(id, ordinal);
+      });
     }
 
-    return allIds;
+    this.primaryKeys = { ids, ordinals, all: RecordBitmap.of(ordinals.values()) };
+    return this.primaryKeys;
+  }
+
+  private async getAllOrdinals(): Promise<RecordBitmap> {
+    return (await this.getPrimaryKeys()).all;
+  }
+
+  private async toRecordIds(ids: RecordBitmap): Promise<string[]> {
+    const recordIds = (await this.getPrimaryKeys()).ids;
+    return Array.from(ids, ordinal => recordIds[ordinal]);
+  }
+
+  private async toBitmap(recordIds: string[]): Promise<RecordBitmap> {
+    const { ordinals } = await this.getPrimaryKeys();
+    return RecordBitmap.of(
+      recordIds.map(id => ordinals.get(id)).filter(ordinal => ordinal !== undefined)
+    );
+  }
+
+  /**
+   * Test for whether the record with an ID is in a bitmap
+   */
+  private async membership(ids: RecordBitmap): Promise<(id: unknown) => boolean> {
+    const { ordinals } = await this.getPrimaryKeys();
+    return id => {
+      const ordinal = ordinals.get(id);
+      return ordinal !== undefined && ids.has(ordinal);
+    };
   }
 }
@@ -0,0 +1,425 @@
+import type { DatabaseIndex, DatabaseMetadata } from './data-loader.js';
+import {
+  QueryOperator,
+  isGeoOperator,
+  type QueryCondition,
+  type QueryFilter,
+} from './query-engine.js';
+import { collationCovers, isCollated, type Collation } from './collation.js';
+import { histogramRows } from './field-stats.js';
+
+// 'index' resolves candidates from field indexes, 'scan' checks the loaded records
+export type PlanStrategy = 'index' | 'scan';
+
+export interface FilterPlan extends QueryFilter {
+  type: 'filter';
+  strategy: PlanStrategy;
+  exact: boolean; // The index lookup returns precisely the matching records
+  estimatedRows: number;
+  actualRows?: number; // Records found in the index; unset when the lookup was skipped
+}
+
+// Lookup of a combination of values in a composite index, replacing equality filters on
+// each of its fields
+export interface CompositePlan {
+  type: 'composite';
+  fields: string[];
+  values: unknown[]; // Value of each field
+  strategy: PlanStrategy;
+  exact: boolean;
+  estimatedRows: number;
+  actualRows?: number;
+}
+
+export interface GroupPlan {
+  type: 'and' | 'or' | 'not' | 'element';
+  field?: string; // Array field of an 'element' group
+  strategy: PlanStrategy;
+  exact: boolean;
+  estimatedRows: number;
+  actualRows?: number;
+  children: PlanNode[]; // In evaluation order, most selective first
+}
+
+export type PlanNode = FilterPlan | CompositePlan | GroupPlan;
+
+export interface QueryExplanation {
+  plan: GroupPlan;
+  indexedFilters: QueryFilter[]; // Filters resolved from field indexes
+  scannedFilters: QueryFilter[]; // Filters checked against loaded records
+  estimatedRows: number; // Estimated matching records
+  candidateRows: number; // Records left to check after the index lookups
+  actualRows: number; // Matching records
+  executionTime: number;
+}
+
+// Share of an index's records assumed to match a range or string pattern filter
+const RANGE_SELECTIVITY = 1 / 3;
+
+/**
+ * Plan the evaluation of a condition from index metadata. Filters on indexed fields are
+ * looked up in their index, the others are checked on the loaded records. The children
+ * of 'and' groups are ordered by estimated rows, so the most selective index is read
+ * first and the remaining lookups can stop as soon as no candidates are left.
+ *
+ * @param cachedIndex Loaded index of a field, whose entry counts replace the estimates
+ */
+export function planCondition(
+  condition: QueryCondition,
+  metadata: DatabaseMetadata,
+  cachedIndex: (field: string) => DatabaseIndex | undefined
+): PlanNode {
+  if (!('conditions' in condition)) {
+    return planFilter(condition, metadata, cachedIndex(condition.field));
+  }
+  if (condition.type === 'element') {
+    if (condition.field === undefined) {
+      throw new Error('Element groups need the array field their conditions apply to');
+    }
+    return planElementMatch(condition.field, condition.conditions, metadata, cachedIndex);
+  }
+
+  const children = condition.conditions.map(child => planCondition(child, metadata, cachedIndex));
+  const total = metadata.totalRecords;
+  if (condition.type !== 'or') {
+    useCompositeIndexes(children, metadata);
+  }
+
+  if (condition.type === 'or') {
+    // One branch that needs a scan makes the whole union a scan
+    const indexed = children.length > 0 && children.every(child => child.strategy === 'index');
+    if (!indexed) children.forEach(markScanned);
+    return {
+      type: 'or',
+      strategy: indexed ? 'index' : 'scan',
+      exact: indexed && children.every(child => child.exact),
+      estimatedRows: Math.min(
+        total,
+        children.reduce((rows, child) => rows + child.estimatedRows, 0)
+      ),
+      children,
+    };
+  }
+
+  // Index lookups run from the fewest to the most estimated rows; scans come last
+  children.sort(
+    (a, b) =>
+      Number(a.strategy === 'scan') - Number(b.strategy === 'scan') ||
+      a.estimatedRows - b.estimatedRows
+  );
+  const indexed = children.some(child => child.strategy === 'index');
+  const exact = children.length > 0 && children.every(child => child.exact);
+  const estimatedRows = Math.min(total, ...children.map(child => child.estimatedRows));
+
+  if (condition.type === 'not') {
+    // Negation needs the exact set of records to exclude
+    if (!(indexed && exact)) children.forEach(markScanned);
+    return {
+      type: 'not',
+      strategy: indexed && exact ? 'index' : 'scan',
+      exact: indexed && exact,
+      estimatedRows: total - estimatedRows,
+      children,
+    };
+  }
+
+  return {
+    type: 'and',
+    strategy: indexed ? 'index' : 'scan',
+    exact,
+    estimatedRows,
+    children,
+  };
+}
+
+/**
+ * Plan an element match from the indexes of the element fields (e.g. "cards[].set" for a
+ * "set" condition on "cards"). These also hold records where different elements meet
+ * each condition, so only a single filter is looked up exactly. Negations would exclude
+ * records where another element matches, so they are checked on the records.
+ */
+function planElementMatch(
+  field: string,
+  conditions: QueryCondition[],
+  metadata: DatabaseMetadata,
+  cachedIndex: (field: string) => DatabaseIndex | undefined
+): GroupPlan {
+  const plan = planCondition(
+    { type: 'and', conditions: conditions.map(child => elementCondition(field, child)) },
+    metadata,
+    cachedIndex
+  ) as GroupPlan;
+
+  plan.children.filter(hasNegation).forEach(markScanned);
+  const indexed = plan.children.some(child => child.strategy === 'index');
+  const [lone] = plan.children;
+  return {
+    ...plan,
+    type: 'element',
+    field,
+    strategy: indexed ? 'index' : 'scan',
+    exact: indexed && plan.children.length === 1 && lone.type === 'filter' && lone.exact,
+  };
+}
+
+// A condition on an element, with its fields as paths from the record
+function elementCondition(field: string, condition: QueryCondition): QueryCondition {
+  if (!('conditions' in condition)) {
+    return { ...condition, field: `${field}[].${condition.field}` };
+  }
+  // Nested element matches keep the paths of their conditions relative to their own array
+  return condition.type === 'element'
+    ? { ...condition, field: `${field}[].${condition.field}` }
+    : {
+        ...condition,
+        conditions: condition.conditions.map(child => elementCondition(field, child)),
+      };
+}
+
+function hasNegation(node: PlanNode): boolean {
+  if (node.type === 'not') return true;
+  return node.type !== 'filter' && node.type !== 'composite' && node.type !== 'element'
+    ? node.children.some(hasNegation)
+    : false;
+}
+
+// Conditions under a scanned group are checked on the records rather than looked up
+function markScanned(node: PlanNode): void {
+  node.strategy = 'scan';
+  if (node.type !== 'filter' && node.type !== 'composite') {
+    node.children.forEach(markScanned);
+  }
+}
+
+/**
+ * Replace the equality filters of a conjunction that cover all fields of a composite
+ * index by a single lookup in that index, trying the widest indexes first
+ */
+function useCompositeIndexes(children: PlanNode[], metadata: DatabaseMetadata): void {
+  const composites = [...(metadata.compositeIndexes ?? [])].sort(
+    (a, b) => b.fields.length - a.fields.length
+  );
+
+  for (const composite of composites) {
+    // Composite indexes only hold records with a primitive value in every field
+    const filters = composite.fields.map(field =>
+      children.find(
+        (child): child is FilterPlan =>
+          child.type === 'filter' &&
+          child.field === field &&
+          child.operator === QueryOperator.EQUALS &&
+          !isCollated(child.collation) &&
+          ['string', 'number', 'boolean'].includes(typeof child.value)
+      )
+    );
+    if (!filters.every((filter): filter is FilterPlan => filter !== undefined)) continue;
+
+    for (const filter of filters) {
+      children.splice(children.indexOf(filter), 1);
+    }
+    children.push({
+      type: 'composite',
+      fields: composite.fields,
+      values: filters.map(filter => filter.value),
+      strategy: 'index',
+      exact: true,
+      estimatedRows: Math.round(
+        (metadata.totalRecords * composite.coverage) / Math.max(composite.uniqueValues, 1)
+      ),
+    });
+  }
+}
+
+function planFilter(
+  filter: QueryFilter,
+  metadata: DatabaseMetadata,
+  cachedIndex?: DatabaseIndex
+): FilterPlan {
+  const { field, operator, value } = filter;
+  const total = metadata.totalRecords;
+  const info = metadata.indexes.find(index => index.field === field);
+
+  if (isGeoOperator(operator)) {
+    return planGeoFilter(filter, metadata);
+  }
+  if (isCollated(filter.collation)) {
+    return planCollatedFilter(filter, filter.collation, metadata);
+  }
+  if (
+    operator === QueryOperator.STARTS_WITH &&
+    metadata.prefixIndexes?.some(index => index.field === field)
+  ) {
+    return planPrefixFilter(filter, metadata);
+  }
+
+  if (!info) {
+    return {
+      type: 'filter',
+      field,
+      operator,
+      value,
+      strategy: 'scan',
+      exact: false,
+      estimatedRows: total,
+    };
+  }
+
+  // Records per value, from the index entry when it is loaded
+  const indexedRows = total * info.coverage;
+  const valueRows = (entryValue: unknown): number => {
+    if (cachedIndex?.entries) {
+      const entry = cachedIndex.entries.find(candidate => candidate.value === entryValue);
+      return entry ? entry.count : 0;
+    }
+    return indexedRows / Math.max(info.uniqueValues, 1);
+  };
+
+  let rows: number;
+  switch (operator) {
+    case QueryOperator.EQUALS:
+      rows = valueRows(value);
+      break;
+    case QueryOperator.NOT_EQUALS:
+      rows = indexedRows - valueRows(value);
+      break;
+    case QueryOperator.IN:
+      rows = Array.isArray(value)
+        ? value.reduce((sum: number, item: unknown) => sum + valueRows(item), 0)
+        : 0;
+      break;
+    default:
+      rows = rangeRows(filter, metadata) ?? indexedRows * RANGE_SELECTIVITY;
+  }
+
+  return {
+    type: 'filter',
+    field,
+    operator,
+    value,
+    strategy: 'index',
+    // Array indexes match individual elements, and records without the field are not
+    // indexed, so those lookups are only supersets or subsets of the matches
+    exact: info.type === 'primitive' && operator !== QueryOperator.NOT_EQUALS,
+    estimatedRows: Math.round(Math.max(0, Math.min(total, rows))),
+  };
+}
+
+/**
+ * Records estimated to match a range filter from the histogram of its field, or
+ * undefined for other filters and fields without a histogram
+ */
+function rangeRows(filter: QueryFilter, metadata: DatabaseMetadata): number | undefined {
+  const stats = metadata.fieldStats?.find(candidate => candidate.field === filter.field);
+  if (!stats) return undefined;
+
+  const { operator, value } = filter;
+  switch (operator) {
+    case QueryOperator.GREATER_THAN:
+    case QueryOperator.GREATER_THAN_OR_EQUAL:
+      return histogramRows(stats, value);
+    case QueryOperator.LESS_THAN:
+    case QueryOperator.LESS_THAN_OR_EQUAL:
+      return histogramRows(stats, undefined, value);
+    case QueryOperator.BETWEEN:
+      return Array.isArray(value) ? histogramRows(stats, value[0], value[1]) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plan a radius or bounding box filter, answered exactly by the field's geo index
+ */
+function planGeoFilter(filter: QueryFilter, metadata: DatabaseMetadata): FilterPlan {
+  const geo = metadata.geoIndexes?.find(index => index.field === filter.field);
+  return {
+    type: 'filter',
+    ...filter,
+    strategy: geo ? 'index' : 'scan',
+    exact: !!geo,
+    estimatedRows: geo ? Math.round(geo.points * RANGE_SELECTIVITY) : metadata.totalRecords,
+  };
+}
+
+/**
+ * Plan a STARTS_WITH filter, looked up in the shards of the field's prefix index that
+ * the prefix can fall in
+ */
+function planPrefixFilter(filter: QueryFilter, metadata: DatabaseMetadata): FilterPlan {
+  const total = metadata.totalRecords;
+  const info = metadata.indexes.find(index => index.field === filter.field);
+  return {
+    type: 'filter',
+    ...filter,
+    strategy: 'index',
+    // Like field indexes, prefix indexes match the elements of arrays
+    exact: info?.type === 'primitive',
+    estimatedRows: Math.round(total * (info?.coverage ?? 1) * RANGE_SELECTIVITY),
+  };
+}
+
+/**
+ * Plan a filter comparing folded values. A collated index folding the same way answers
+ * it exactly; one folding more (e.g. also ignoring accents) yields a superset. Without
+ * one, the values of the field index are folded at query time.
+ */
+function planCollatedFilter(
+  filter: QueryFilter,
+  collation: Collation,
+  metadata: DatabaseMetadata
+): FilterPlan {
+  const total = metadata.totalRecords;
+  const info = metadata.indexes.find(index => index.field === filter.field);
+  const collated = metadata.collatedIndexes?.find(index => index.field === filter.field);
+  const cover = collated && collationCovers(collated.collation, collation);
+
+  if (!info && !cover) {
+    return { type: 'filter', ...filter, strategy: 'scan', exact: false, estimatedRows: total };
+  }
+
+  const indexedRows = total * (info?.coverage ?? 1);
+  const uniqueValues = Math.max((cover ? collated?.uniqueValues : info?.uniqueValues) ?? 1, 1);
+  let rows: number;
+  switch (filter.operator) {
+    case QueryOperator.EQUALS:
+      rows = indexedRows / uniqueValues;
+      break;
+    case QueryOperator.IN:
+      rows = Array.isArray(filter.value) ? (indexedRows * filter.value.length) / uniqueValues : 0;
+      break;
+    default:
+      rows = indexedRows * RANGE_SELECTIVITY;
+  }
+
+  return {
+    type: 'filter',
+    ...filter,
+    strategy: 'index',
+    exact:
+      info?.type === 'primitive' &&
+      cover !== 'partial' &&
+      filter.operator !== QueryOperator.NOT_EQUALS,
+    estimatedRows: Math.round(Math.max(0, Math.min(total, rows))),
+  };
+}
+
+/**
+ * The filters of a plan resolved with the given strategy
+ */
+export function filtersWithStrategy(node: PlanNode, strategy: PlanStrategy): QueryFilter[] {
+  if (node.type === 'composite') {
+    return node.strategy === strategy
+      ? node.fields.map((field, i) => ({
+          field,
+          operator: QueryOperator.EQUALS,
+          value: node.values[i],
+        }))
+      : [];
+  }
+  if (node.type !== 'filter') {
+    return node.children.flatMap(child => filtersWithStrategy(child, strategy));
+  }
+  if (node.strategy !== strategy) return [];
+  const { field, operator, value, collation } = node;
+  return [collation ? { field, operator, value, collation } : { field, operator, value }];
+}
@@ -0,0 +1,62 @@
+import type { DatabaseRecord } from './data-loader.js';
+import { getNestedValue } from './projection.js';
+
+/**
+ * A collection that related records can be loaded from by primary key
+ */
+export interface RecordSource {
+  getRecords(ids: unknown[]): Promise<(DatabaseRecord | null)[]>;
+}
+
+export interface RelationConfig {
+  field: string; // Foreign key field holding one related ID or an array of IDs
+  target: () => RecordSource; // Resolved lazily so collections can reference each other
+}
+
+/**
+ * Resolves include() relations by loading the related records of a page of results
+ * through the target collection's primary key, one batch per relation instead of one
+ * lookup per record
+ */
+export class RelationResolver {
+  constructor(private relations: Record<string, RelationConfig> = {}) {}
+
+  /**
+   * Foreign key field of a relation
+   */
+  fieldOf(name: string): string | undefined {
+    return this.relations[name]?.field;
+  }
+
+  /**
+   * Return copies of the records with the related record(s) attached under the relation name.
+   * Single foreign keys resolve to a record or null, arrays of keys to an array of records.
+   */
+  async include<T extends object>(records: T[], name: string): Promise<T[]> {
+    const relation = this.relations[name];
+    if (!relation) {
+      throw new Error(`Unknown relation "${name}"`);
+    }
+
+    const ids = new Set<unknown>();
+    for (const record of records) {
+      const value = getNestedValue(record, relation.field);
+      for (const id of Array.isArray(value) ? value : [value]) {
+        if (id !== null && id !== undefined) ids.add(id);
+      }
+    }
+
+    const uniqueIds = Array.from(ids);
+    const related = uniqueIds.length > 0 ? await relation.target().getRecords(uniqueIds) : [];
+    const relatedById = new Map(uniqueIds.map((id, i) => [id, related[i]]));
+
+    return records.map(record => {
+      const value = getNestedValue(record, relation.field);
+      const resolved = Array.isArray(value)
+        ? value.map(id => relatedById.get(id)).filter(Boolean)
+        : (relatedById.get(value) ?? null);
+
+      return { ...record, [name]: resolved };
+    });
+  }
+}
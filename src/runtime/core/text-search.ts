@@ -0,0 +1,199 @@
+/**
+ * Full-text analysis and BM25 ranking, shared by the index generator and the query
+ * engine so documents and queries are tokenized the same way.
+ */
+
+export interface TextAnalyzerOptions {
+  stemming?: boolean; // Reduce English words to their stem, e.g. 'running' -> 'run'
+  stopWords?: string[]; // Words left out of the index (default: common English words)
+  synonyms?: Record<string, string[]>; // Query terms that also match other terms
+}
+
+// Full-text index of a field, written to indexes/text/<field>.json
+export interface TextIndex {
+  field: string;
+  analyzer: Required<TextAnalyzerOptions>;
+  documentCount: number; // Records with text in the field
+  averageLength: number; // Average number of terms per record
+  lengths: Record<string, number>; // Record ID -> number of terms
+  terms: Record<string, Array<[string, number]>>; // Term -> [record ID, term frequency]
+}
+
+export interface SearchOptions<F extends string = string> {
+  fields?: F[]; // Full-text indexed fields to search (default: all)
+  boost?: Partial<Record<F, number>>; // Score multiplier per field (default: 1)
+  highlight?: { pre: string; post: string }; // Markers around matches (default: <mark>)
+}
+
+export interface SearchHit<T> {
+  record: T;
+  score: number; // BM25 relevance, summed over the searched fields
+  highlights: Record<string, string>; // Field -> text with the matching words marked
+}
+
+export interface SearchResult<T> {
+  hits: SearchHit<T>[]; // Most relevant first
+  totalCount: number; // Records matching the search and the filters
+  hasMore: boolean;
+  executionTime: number;
+}
+
+export const DEFAULT_STOP_WORDS = [
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is',
+  'it', 'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'will', 'with',
+]; // prettier-ignore
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+interface Token {
+  term: string; // Analyzed term
+  start: number; // Offset of the word in the text
+  end: number;
+}
+
+/**
+ * Fill in the default analyzer options
+ */
+export function resolveAnalyzer(options: TextAnalyzerOptions = {}): Required<TextAnalyzerOptions> {
+  return {
+    stemming: options.stemming ?? false,
+    stopWords: options.stopWords ?? DEFAULT_STOP_WORDS,
+    synonyms: options.synonyms ?? {},
+  };
+}
+
+/**
+ * Split text into lowercased, optionally stemmed terms, leaving out stop words
+ */
+export function analyze(text: string, analyzer: Required<TextAnalyzerOptions>): string[] {
+  return tokenize(text, analyzer).map(token => token.term);
+}
+
+/**
+ * The searchable text of a value: strings, numbers and arrays of them
+ */
+export function textOf(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(textOf).filter((part): part is string => part !== null);
+    return parts.length > 0 ? parts.join(' ') : null;
+  }
+  return null;
+}
+
+/**
+ * Analyze a search query, expanding every term with its synonyms
+ */
+export function analyzeQuery(text: string, analyzer: Required<TextAnalyzerOptions>): string[] {
+  const terms = new Set(analyze(text, analyzer));
+
+  for (const [word, synonyms] of Object.entries(analyzer.synonyms)) {
+    // Synonyms match both ways
+    const group = [word, ...synonyms].flatMap(synonym => analyze(synonym, analyzer));
+    if (group.some(term => terms.has(term))) {
+      group.forEach(term => terms.add(term));
+    }
+  }
+  return Array.from(terms);
+}
+
+/**
+ * BM25 score of each record containing any of the terms
+ */
+export function scoreBM25(index: TextIndex, terms: string[], boost = 1): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const term of terms) {
+    const postings = index.terms[term];
+    if (!postings) continue;
+
+    const idf = Math.log(
+      1 + (index.documentCount - postings.length + 0.5) / (postings.length + 0.5)
+    );
+    for (const [id, frequency] of postings) {
+      const lengthRatio = (index.lengths[id] ?? 0) / (index.averageLength || 1);
+      const score = (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      scores.set(id, (scores.get(id) ?? 0) + boost * score);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Wrap the words of a text whose terms are among the given terms. Returns null when
+ * no word matches.
+ */
+export function highlight(
+  text: string,
+  terms: Set<string>,
+  analyzer: Required<TextAnalyzerOptions>,
+  markers: { pre: string; post: string } = { pre: '<mark>', post: '</mark>' }
+): string | null {
+  const matches = tokenize(text, analyzer).filter(token => terms.has(token.term));
+  if (matches.length === 0) return null;
+
+  let result = '';
+  let position = 0;
+  for (const { start, end } of matches) {
+    result += `${text.slice(position, start)}${markers.pre}${text.slice(start, end)}${markers.post}`;
+    position = end;
+  }
+  return `${result}${text.slice(position)}`;
+}
+
+function tokenize(text: string, analyzer: Required<TextAnalyzerOptions>): Token[] {
+  const stopWords = new Set(analyzer.stopWords);
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    if (stopWords.has(word)) continue;
+
+    const start = match.index ?? 0;
+    tokens.push({
+      term: analyzer.stemming ? stem(word) : word,
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+// Inflection suffixes removed by the stemmer, longest first, with the minimum stem length
+const SUFFIXES: Array<[string, number]> = [
+  ['ings', 3],
+  ['ing', 3],
+  ['ies', 2],
+  ['ied', 2],
+  ['ed', 3],
+  ['es', 3],
+  ['ly', 3],
+  ['s', 3],
+];
+
+/**
+ * Light English stemmer: strips common inflection suffixes, so that e.g. 'searching',
+ * 'searched' and 'searches' all become 'search'
+ */
+export function stem(word: string): string {
+  for (const [suffix, minimumStem] of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < minimumStem) continue;
+
+    let base = word.slice(0, -suffix.length);
+    if (suffix === 'ies' || suffix === 'ied') {
+      base += 'y';
+    } else if (suffix === 'es' && !/(s|x|z|ch|sh)$/.test(base)) {
+      continue; // Only sibilants take 'es' ('boxes'); 'names' loses just the 's'
+    } else if (suffix === 's' && /[su]$/.test(base)) {
+      return word; // 'glass', 'status'
+    } else if (/([^aeiouls])\1$/.test(base)) {
+      base = base.slice(0, -1); // 'running' -> 'run'
+    }
+    return base;
+  }
+  return word;
+}
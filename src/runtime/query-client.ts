@@ -2,17 +2,62 @@ import {
   QueryEngine,
   QueryOperator,
   type QueryFilter,
+  type QueryGroup,
+  type QueryCondition,
+  type ElementMatchOptions,
   type QuerySort,
   type QueryOptions,
   type QueryResult,
+  type StreamOptions,
 } from './core/query-engine.js';
 import type { DatabaseRecord, DatabaseMetadata } from './core/data-loader.js';
+import {
+  distinctValues,
+  type AggregateOptions,
+  type AggregateResult,
+  type AggregateSpec,
+  type FacetResult,
+  type FacetValue,
+} from './core/aggregation.js';
+import type { QueryExplanation } from './core/query-planner.js';
+import type { SearchHit, SearchOptions, SearchResult } from './core/text-search.js';
+import type { FuzzyHit, FuzzyOptions, FuzzyResult } from './core/fuzzy.js';
+import { withCollation, type Collation } from './core/collation.js';
+import {
+  checkPoint,
+  geoBox,
+  geoRadius,
+  type GeoBox,
+  type GeoPoint,
+  type NearestHit,
+  type NearestOptions,
+  type NearestResult,
+} from './core/geo.js';
+import type { SuggestOptions, Suggestion } from './core/prefix.js';
+import type { FieldStats, HistogramBucket } from './core/field-stats.js';
 import { NodeDataLoader } from './adapters/node-data-loader.js';
 
 // Re-export types from core
 export { QueryOperator };
-export type { QueryFilter, QuerySort, QueryOptions, QueryResult };
+export type {
+  QueryFilter,
+  QueryGroup,
+  QueryCondition,
+  ElementMatchOptions,
+  QuerySort,
+  QueryOptions,
+  QueryResult,
+  StreamOptions,
+};
 export type { DatabaseRecord, DatabaseMetadata };
+export type { AggregateOptions, AggregateResult, AggregateSpec, FacetResult, FacetValue };
+export type { QueryExplanation };
+export type { SearchHit, SearchOptions, SearchResult };
+export type { FuzzyHit, FuzzyOptions, FuzzyResult };
+export type { Collation };
+export type { GeoBox, GeoPoint, NearestHit, NearestOptions, NearestResult };
+export type { SuggestOptions, Suggestion };
+export type { FieldStats, HistogramBucket };
 
 /**
  * Field-specific query builder for fluent API
@@ -23,12 +68,12 @@ export class FieldQueryBuilder<T = DatabaseRecord> {
     private parentBuilder: QueryBuilder<T>
   ) {}
 
-  equals(value: any): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.EQUALS, value);
+  equals(value: any, collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.EQUALS, value, collation);
   }
 
-  notEquals(value: any): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.NOT_EQUALS, value);
+  notEquals(value: any, collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.NOT_EQUALS, value, collation);
   }
 
   greaterThan(value: any): QueryBuilder<T> {
@@ -47,20 +92,25 @@ export class FieldQueryBuilder<T = DatabaseRecord> {
     return this.parentBuilder.addFilter(this.field, QueryOperator.LESS_THAN_OR_EQUAL, value);
   }
 
-  in(values: any[]): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.IN, values);
+  // Inclusive range, min <= value <= max
+  between(min: unknown, max: unknown): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.BETWEEN, [min, max]);
+  }
+
+  in(values: any[], collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.IN, values, collation);
   }
 
-  contains(value: any): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.CONTAINS, value);
+  contains(value: any, collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.CONTAINS, value, collation);
   }
 
-  startsWith(value: string): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.STARTS_WITH, value);
+  startsWith(value: string, collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.STARTS_WITH, value, collation);
   }
 
-  endsWith(value: string): QueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.ENDS_WITH, value);
+  endsWith(value: string, collation?: Collation): QueryBuilder<T> {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.ENDS_WITH, value, collation);
   }
 
   // Aliases for common operations
@@ -72,11 +122,17 @@ export class FieldQueryBuilder<T = DatabaseRecord> {
   ne = this.notEquals;
 }
 
+// Builds the conditions of one branch of an or() / not() / and() group
+export type QueryBranch<B> = (query: B) => B;
+
 export class QueryBuilder<T = DatabaseRecord> {
-  private filters: QueryFilter[] = [];
+  private filters: QueryCondition[] = [];
   private sortOptions: QuerySort[] = [];
   private limitValue?: number;
   private offsetValue?: number;
+  private afterCursor?: string;
+  private groupByField?: string;
+  private collation?: Collation; // Applied to the filters without a collation of their own
 
   constructor(private client: AntipatternDB) {}
 
@@ -96,11 +152,114 @@ export class QueryBuilder<T = DatabaseRecord> {
   }
 
   // Internal method to add filters
-  addFilter(field: string, operator: QueryOperator, value: any): QueryBuilder<T> {
-    this.filters.push({ field, operator, value });
+  addFilter(
+    field: string,
+    operator: QueryOperator,
+    value: any,
+    collation?: Collation
+  ): QueryBuilder<T> {
+    this.filters.push(
+      collation ? { field, operator, value, collation } : { field, operator, value }
+    );
+    return this;
+  }
+
+  /**
+   * Compare strings ignoring case and/or accents in every filter of the query. Filters
+   * given a collation of their own keep it.
+   *
+   * @example
+   * ```typescript
+   * db.query().collate({ caseInsensitive: true, accentInsensitive: true }).where('name').equals('jose')
+   * ```
+   */
+  collate(collation: Collation): QueryBuilder<T> {
+    this.collation = collation;
+    return this;
+  }
+
+  /**
+   * Match records that satisfy any of the branches. The conditions within a branch
+   * are combined with AND.
+   *
+   * @example
+   * ```typescript
+   * db.query().or(
+   *   q => q.where('status').equals('active'),
+   *   q => q.where('role').equals('admin')
+   * )
+   * ```
+   */
+  or(...branches: QueryBranch<QueryBuilder<T>>[]): QueryBuilder<T> {
+    this.filters.push({
+      type: 'or',
+      conditions: branches.map(branch => this.group('and', branch)),
+    });
+    return this;
+  }
+
+  // Match records that do not satisfy all conditions of the branch
+  not(branch: QueryBranch<QueryBuilder<T>>): QueryBuilder<T> {
+    this.filters.push(this.group('not', branch));
+    return this;
+  }
+
+  // Nest conditions that must all match, e.g. inside an or() branch
+  and(branch: QueryBranch<QueryBuilder<T>>): QueryBuilder<T> {
+    this.filters.push(this.group('and', branch));
+    return this;
+  }
+
+  /**
+   * Match records where a single element of an array field satisfies all conditions of
+   * the branch, whose fields are paths within the element. Separate filters on
+   * "cards[].set" and "cards[].rarity" may be met by different elements.
+   *
+   * @example
+   * ```typescript
+   * db.query().whereElement('cards', el => el.where('set').equals('BRO').where('rarity').equals('mythic'))
+   * ```
+   */
+  whereElement(
+    field: string,
+    branch: QueryBranch<QueryBuilder<T>>,
+    options: ElementMatchOptions = {}
+  ): QueryBuilder<T> {
+    const { conditions } = this.group('element', branch);
+    this.filters.push({ type: 'element', field, conditions, ...options });
     return this;
   }
 
+  private group(type: QueryGroup['type'], branch: QueryBranch<QueryBuilder<T>>): QueryGroup {
+    const query = branch(new QueryBuilder<T>(this.client));
+    return { type, conditions: query.collatedFilters() };
+  }
+
+  // Filters with the query collation applied
+  private collatedFilters(): QueryCondition[] {
+    return withCollation(this.filters, this.collation);
+  }
+
+  /**
+   * Match records whose point lies within a distance of a center, using the field's geo
+   * index. The field holds a point ({ lat, lng } or a GeoJSON Point), or names the
+   * latitude and longitude fields joined by '+'.
+   *
+   * @example
+   * ```typescript
+   * db.query().withinRadius('location', { lat: 52.52, lng: 13.405 }, 5) // 5 km
+   * db.query().withinRadius('lat+lng', { lat: 52.52, lng: 13.405 }, 5)
+   * ```
+   */
+  withinRadius(field: string, center: GeoPoint, km: number): QueryBuilder<T> {
+    return this.addFilter(field, QueryOperator.WITHIN_RADIUS, geoRadius(center, km));
+  }
+
+  // Match records whose point lies within a box, from its south-west to its north-east corner
+  withinBox(field: string, southWest: GeoPoint, northEast: GeoPoint): QueryBuilder<T> {
+    return this.addFilter(field, QueryOperator.WITHIN_BOX, geoBox(southWest, northEast));
+  }
+
   sort(field: string, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
     this.sortOptions.push({ field, direction });
     return this;
@@ -116,11 +275,154 @@ export class QueryBuilder<T = DatabaseRecord> {
     return this;
   }
 
+  // Continue after the last record of a previous page (its nextCursor)
+  after(cursor: string): QueryBuilder<T> {
+    this.afterCursor = cursor;
+    return this;
+  }
+
+  // Group the results of aggregate() by the values of a field
+  groupBy(field: string): QueryBuilder<T> {
+    this.groupByField = field;
+    return this;
+  }
+
+  /**
+   * Aggregate the matching records instead of returning them
+   *
+   * @example
+   * ```typescript
+   * db.query().groupBy('rarity').aggregate({ count: true, avgCost: avg('cost') })
+   * ```
+   */
+  async aggregate(aggregates: AggregateSpec): Promise<AggregateResult> {
+    return this.client._aggregate(this.collatedFilters(), {
+      groupBy: this.groupByField,
+      aggregates,
+    });
+  }
+
+  /**
+   * Count the values of fields among the matching records, e.g. for filter sidebars
+   *
+   * @example
+   * ```typescript
+   * const { facets } = await db.query().where('set').equals('BRO').facets(['rarity', 'colors']);
+   * facets.rarity; // [{ value: 'common', count: 101 }, ...]
+   * ```
+   */
+  async facets(fields: string[]): Promise<FacetResult> {
+    return this.client._facets(this.collatedFilters(), fields);
+  }
+
+  // Distinct values of a field among the matching records, in ascending order
+  async distinct(field: string): Promise<unknown[]> {
+    const { facets } = await this.client._facets(this.collatedFilters(), [field]);
+    return distinctValues(facets[field]);
+  }
+
+  /**
+   * Run the query and report how it was planned: which filters used indexes, which
+   * were checked on loaded records, and estimated versus actual rows
+   */
+  async explain(): Promise<QueryExplanation> {
+    return this.client._explain(this.collatedFilters());
+  }
+
+  /**
+   * Rank the matching records by relevance to the text, using the full-text indexes
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().where('set').equals('BRO').search('draw cards', {
+   *   fields: ['name', 'text'],
+   *   boost: { name: 2 },
+   * });
+   * hits[0].highlights.text; // 'When it enters, <mark>draw</mark> two <mark>cards</mark>.'
+   * ```
+   */
+  async search(text: string, options: SearchOptions = {}): Promise<SearchResult<T>> {
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Search results are ordered by relevance and cannot be sorted');
+    }
+    return this.client._search<T>(this.collatedFilters(), text, options, {
+      limit: this.limitValue,
+      offset: this.offsetValue,
+    });
+  }
+
+  /**
+   * Find the matching records whose field is within a few typos of the text, closest
+   * first, using the field's trigram index
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().fuzzy('artist', 'Jon Avonn', { maxDistance: 2 });
+   * hits[0].value; // 'John Avon'
+   * ```
+   */
+  async fuzzy(field: string, text: string, options: FuzzyOptions = {}): Promise<FuzzyResult<T>> {
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Fuzzy matches are ordered by similarity and cannot be sorted');
+    }
+    return this.client._fuzzy<T>(this.collatedFilters(), field, text, options, {
+      limit: this.limitValue,
+      offset: this.offsetValue,
+    });
+  }
+
+  /**
+   * Find the k matching records whose point field is closest to a point, closest
+   * first, using the field's geo index
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().where('open').equals(true).nearest('location', here, 3);
+   * hits[0].distance; // 0.8 (km)
+   * ```
+   */
+  async nearest(
+    field: string,
+    point: GeoPoint,
+    k = 10,
+    options: NearestOptions = {}
+  ): Promise<NearestResult<T>> {
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Nearest matches are ordered by distance and cannot be sorted');
+    }
+    checkPoint(point);
+    return this.client._nearest<T>(this.collatedFilters(), field, point, options, {
+      limit: k,
+      offset: this.offsetValue,
+    });
+  }
+
   async exec(): Promise<QueryResult<T>> {
-    return this.client._executeQuery(this.filters, {
+    return this.client._executeQuery(this.collatedFilters(), {
       limit: this.limitValue,
       offset: this.offsetValue,
       sort: this.sortOptions,
+      after: this.afterCursor,
+    });
+  }
+
+  /**
+   * Stream the matching records one data file at a time, in storage order
+   *
+   * @example
+   * ```typescript
+   * for await (const card of db.query().where('set').equals('BRO')) {
+   *   if (done(card)) break;
+   * }
+   * ```
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Sorted queries cannot be streamed; page through them with after() instead');
+    }
+    return this.client._streamQuery<T>(this.collatedFilters(), {
+      limit: this.limitValue,
+      offset: this.offsetValue,
     });
   }
 }
@@ -145,13 +447,77 @@ export class AntipatternDB {
     return this.engine.getRecord<T>(id);
   }
 
+  async getMany<T = DatabaseRecord>(ids: unknown[]): Promise<(T | null)[]> {
+    return this.engine.getRecords<T>(ids);
+  }
+
+  /**
+   * Complete a prefix with the most frequent values of a field (case-insensitive),
+   * from the field's prefix index
+   */
+  async suggest(
+    field: string,
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<Suggestion[]> {
+    return this.engine.suggest(field, prefix, options);
+  }
+
   async _executeQuery<T = DatabaseRecord>(
-    filters: QueryFilter[],
+    filters: QueryCondition[],
     options: QueryOptions = {}
   ): Promise<QueryResult<T>> {
     return this.engine.executeQuery<T>(filters, options);
   }
 
+  _streamQuery<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    options: StreamOptions = {}
+  ): AsyncGenerator<T> {
+    return this.engine.streamQuery<T>(filters, options);
+  }
+
+  async _search<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    text: string,
+    options: SearchOptions,
+    page: StreamOptions = {}
+  ): Promise<SearchResult<T>> {
+    return this.engine.search<T>(filters, text, options, page);
+  }
+
+  async _fuzzy<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    text: string,
+    options: FuzzyOptions,
+    page: StreamOptions = {}
+  ): Promise<FuzzyResult<T>> {
+    return this.engine.fuzzy<T>(filters, field, text, options, page);
+  }
+
+  async _nearest<T = DatabaseRecord>(
+    filters: QueryCondition[],
+    field: string,
+    point: GeoPoint,
+    options: NearestOptions,
+    page: StreamOptions = {}
+  ): Promise<NearestResult<T>> {
+    return this.engine.nearest<T>(filters, field, point, options, page);
+  }
+
+  async _explain(filters: QueryCondition[]): Promise<QueryExplanation> {
+    return this.engine.explain(filters);
+  }
+
+  async _aggregate(filters: QueryCondition[], options: AggregateOptions): Promise<AggregateResult> {
+    return this.engine.aggregate(filters, options);
+  }
+
+  async _facets(filters: QueryCondition[], fields: string[]): Promise<FacetResult> {
+    return this.engine.facets(filters, fields);
+  }
+
   // Utility methods
   async count(): Promise<number> {
     return this.engine.count();
@@ -168,4 +534,12 @@ export class AntipatternDB {
   async getStats(): Promise<DatabaseMetadata | undefined> {
     return this.engine.getStats();
   }
+
+  /**
+   * Bounds, mean, null count, most common values and histogram of a field, computed at
+   * build time (e.g. for range slider bounds)
+   */
+  async getFieldStats(field: string): Promise<FieldStats | null> {
+    return this.engine.getFieldStats(field);
+  }
 }
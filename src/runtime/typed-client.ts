@@ -1,5 +1,11 @@
-import { AntipatternDB } from './query-client.js';
-import { TypeSafeQueryBuilder } from './typed-query-builder.js';
+import {
+  AntipatternDB,
+  type FieldStats,
+  type SuggestOptions,
+  type Suggestion,
+} from './query-client.js';
+import { TypeSafeQueryBuilder, type FieldPaths } from './typed-query-builder.js';
+import { RelationConfig, RelationResolver } from './core/relations.js';
 import { z } from 'zod';
 
 /**
@@ -8,14 +14,17 @@ import { z } from 'zod';
 export class TypedDatabaseClient<
   TRecord extends Record<string, unknown>,
   TSchema extends z.ZodSchema = z.ZodSchema,
+  TRelations extends object = Record<never, never>,
 > {
   private client: AntipatternDB;
   private schema?: TSchema;
+  private relations: RelationResolver;
   private initialized = false;
 
-  constructor(databasePath: string, schema?: TSchema) {
+  constructor(databasePath: string, schema?: TSchema, relations?: Record<string, RelationConfig>) {
     this.client = new AntipatternDB(databasePath);
     this.schema = schema;
+    this.relations = new RelationResolver(relations);
   }
 
   /**
@@ -40,12 +49,43 @@ export class TypedDatabaseClient<
   /**
    * Create a type-safe query that constrains field names to valid record keys
    */
-  query(): TypeSafeQueryBuilder<TRecord> {
+  query(): TypeSafeQueryBuilder<TRecord, TRelations> {
     // Create a type-safe query builder that auto-initializes on execution
-    return new TypeSafeQueryBuilder<TRecord>(async (filters, options) => {
-      await this.ensureInitialized();
-      return this.client._executeQuery<TRecord>(filters, options);
-    });
+    return new TypeSafeQueryBuilder<TRecord, TRelations>(
+      async (filters, options) => {
+        await this.ensureInitialized();
+        return this.client._executeQuery<TRecord>(filters, options);
+      },
+      {
+        resolveInclude: (records, relation) => this.relations.include(records, relation),
+        relationField: relation => this.relations.fieldOf(relation),
+        aggregate: async (filters, options) => {
+          await this.ensureInitialized();
+          return this.client._aggregate(filters, options);
+        },
+        facets: async (filters, fields) => {
+          await this.ensureInitialized();
+          return this.client._facets(filters, fields);
+        },
+        stream: (filters, options) => this.client._streamQuery(filters, options),
+        explain: async filters => {
+          await this.ensureInitialized();
+          return this.client._explain(filters);
+        },
+        search: async (filters, text, options, page) => {
+          await this.ensureInitialized();
+          return this.client._search(filters, text, options, page);
+        },
+        fuzzy: async (filters, field, text, options, page) => {
+          await this.ensureInitialized();
+          return this.client._fuzzy(filters, field, text, options, page);
+        },
+        nearest: async (filters, field, point, options, page) => {
+          await this.ensureInitialized();
+          return this.client._nearest(filters, field, point, options, page);
+        },
+      }
+    );
   }
 
   /**
@@ -56,6 +96,26 @@ export class TypedDatabaseClient<
     return this.client.get<TRecord>(id);
   }
 
+  /**
+   * Get several records by ID in one call, in the order of the IDs
+   */
+  async getRecords(ids: unknown[]): Promise<(TRecord | null)[]> {
+    await this.ensureInitialized();
+    return this.client.getMany<TRecord>(ids);
+  }
+
+  /**
+   * Complete a prefix with the most frequent values of a field that has a prefix index
+   */
+  async suggest(
+    field: FieldPaths<TRecord> & string,
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<Suggestion[]> {
+    await this.ensureInitialized();
+    return this.client.suggest(field, prefix, options);
+  }
+
   /**
    * Count total records
    */
@@ -80,6 +140,14 @@ export class TypedDatabaseClient<
     return this.client.getIndexedFields();
   }
 
+  /**
+   * Get the statistics of a field computed at build time
+   */
+  async getFieldStats(field: FieldPaths<TRecord> & string): Promise<FieldStats | null> {
+    await this.ensureInitialized();
+    return this.client.getFieldStats(field);
+  }
+
   /**
    * Validate a record against the schema (if provided)
    */
@@ -1,10 +1,35 @@
 import {
   QueryOperator,
   QueryResult,
-  QueryFilter,
+  QueryCondition,
+  QueryGroup,
   QuerySort,
   QueryOptions,
+  StreamOptions,
+  QueryExplanation,
+  ElementMatchOptions,
 } from './query-client.js';
+import {
+  distinctValues,
+  type Aggregation,
+  type AggregateOperation,
+  type AggregateOptions,
+  type AggregateResult,
+  type FacetResult,
+  type FacetValue,
+} from './core/aggregation.js';
+import { projectRecord } from './core/projection.js';
+import { foldValue, withCollation, type Collation } from './core/collation.js';
+import {
+  checkPoint,
+  geoBox,
+  geoRadius,
+  type GeoPoint,
+  type NearestOptions,
+  type NearestResult,
+} from './core/geo.js';
+import type { SearchOptions, SearchResult } from './core/text-search.js';
+import type { FuzzyOptions, FuzzyResult } from './core/fuzzy.js';
 
 // Simpler approach to nested field paths to avoid excessive stack depth
 // We'll support up to 3 levels of nesting which covers most common use cases
@@ -91,53 +116,154 @@ export interface EnhancedQueryResult<T> extends QueryResult<T> {
   originalCounts?: Record<string, number>;
 }
 
+// Hooks supplied by the client to extend queries beyond fetching records
+export interface QueryExtensions {
+  resolveInclude?: <R extends object>(records: R[], relation: string) => Promise<R[]>;
+  aggregate?: (filters: QueryCondition[], options: AggregateOptions) => Promise<AggregateResult>;
+  facets?: (filters: QueryCondition[], fields: string[]) => Promise<FacetResult>;
+  relationField?: (relation: string) => string | undefined; // Foreign key field of a relation
+  stream?: (filters: QueryCondition[], options: StreamOptions) => AsyncIterable<object>;
+  explain?: (filters: QueryCondition[]) => Promise<QueryExplanation>;
+  search?: (
+    filters: QueryCondition[],
+    text: string,
+    options: SearchOptions,
+    page: StreamOptions
+  ) => Promise<SearchResult<object>>;
+  fuzzy?: (
+    filters: QueryCondition[],
+    field: string,
+    text: string,
+    options: FuzzyOptions,
+    page: StreamOptions
+  ) => Promise<FuzzyResult<object>>;
+  nearest?: (
+    filters: QueryCondition[],
+    field: string,
+    point: GeoPoint,
+    options: NearestOptions,
+    page: StreamOptions
+  ) => Promise<NearestResult<object>>;
+}
+
+// Number of streamed records whose relations are included together
+const STREAM_BATCH_SIZE = 100;
+
+// First segment of each path, e.g. 'profile' for 'profile.age'
+type RootKeys<P extends string> = P extends `${infer K}.${string}` ? K : P;
+
+// Remainders of the paths under a key, e.g. 'age' for 'profile.age' under 'profile'
+type SubPaths<P extends string, K extends string> = P extends `${K}.${infer Rest}` ? Rest : never;
+
+// Project a value onto paths, through arrays and optional values
+type ProjectValue<V, P extends string> = V extends (infer U)[]
+  ? ProjectValue<U, P>[]
+  : V extends object
+    ? Projection<V, P>
+    : V;
+
+// Record type narrowed to the selected field paths
+export type Projection<T, P extends string> = {
+  [K in keyof T as K extends RootKeys<P> ? K : never]: K extends P
+    ? T[K]
+    : ProjectValue<T[K], SubPaths<P, K & string>>;
+};
+
+// Point field of a record, or its latitude and longitude fields joined by '+'
+export type GeoField<T> = (FieldPaths<T> & string) | `${string}+${string}`;
+
+// Value type of a facet: the element type for array fields, without null
+export type FacetValueType<V> = NonNullable<V extends (infer U)[] ? U : V>;
+
+// Facets of a typed query, keyed by field
+export type TypedFacets<T, F extends string> = {
+  [P in F]: FacetValue<FacetValueType<PathValue<T, P>>>[];
+};
+
+// Aggregations of a typed query, with fields constrained to valid record paths
+export type TypedAggregateSpec<T> = Record<
+  string,
+  true | Aggregation<AggregateOperation, FieldPaths<T> & string>
+>;
+
+// Result type of a single aggregation
+export type AggregateValue<T, A> = A extends true
+  ? number
+  : A extends Aggregation<infer O, infer F>
+    ? O extends 'count' | 'sum'
+      ? number
+      : O extends 'avg'
+        ? number | null
+        : F extends string
+          ? PathValue<T, F> | null
+          : never
+    : never;
+
+// Row of an aggregation result: the group value (when grouped) and every aggregation
+export type AggregateRow<T, A, G extends string = never> = {
+  [K in keyof A]: AggregateValue<T, A[K]>;
+} & { [P in G]: PathValue<T, G> | null };
+
+// Type of an included relation: a list of records for array foreign keys, else one or null
+export type RelatedRecord<TKey, TTarget> = TKey extends unknown[] ? TTarget[] : TTarget | null;
+
 /**
  * Type-safe field query builder that constrains field names to valid paths
  */
-export class TypeSafeFieldQueryBuilder<T extends object, F extends string> {
+export class TypeSafeFieldQueryBuilder<
+  T extends object,
+  F extends string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  B extends TypeSafeQueryBuilder<T, any, any> = TypeSafeQueryBuilder<T>,
+> {
   constructor(
     private field: F,
-    private parentBuilder: TypeSafeQueryBuilder<T>
+    private parentBuilder: B
   ) {}
 
-  equals(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.EQUALS, value);
+  equals(value: PathValue<T, F>, collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.EQUALS, value, collation);
   }
 
-  notEquals(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.NOT_EQUALS, value);
+  notEquals(value: PathValue<T, F>, collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.NOT_EQUALS, value, collation);
   }
 
-  greaterThan(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
+  greaterThan(value: PathValue<T, F>): B {
     return this.parentBuilder.addFilter(this.field, QueryOperator.GREATER_THAN, value);
   }
 
-  lessThan(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
+  lessThan(value: PathValue<T, F>): B {
     return this.parentBuilder.addFilter(this.field, QueryOperator.LESS_THAN, value);
   }
 
-  greaterThanOrEqual(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
+  greaterThanOrEqual(value: PathValue<T, F>): B {
     return this.parentBuilder.addFilter(this.field, QueryOperator.GREATER_THAN_OR_EQUAL, value);
   }
 
-  lessThanOrEqual(value: PathValue<T, F>): TypeSafeQueryBuilder<T> {
+  lessThanOrEqual(value: PathValue<T, F>): B {
     return this.parentBuilder.addFilter(this.field, QueryOperator.LESS_THAN_OR_EQUAL, value);
   }
 
-  in(values: PathValue<T, F>[]): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.IN, values);
+  // Inclusive range, min <= value <= max
+  between(min: PathValue<T, F>, max: PathValue<T, F>): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.BETWEEN, [min, max]);
   }
 
-  contains(value: unknown): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.CONTAINS, value);
+  in(values: PathValue<T, F>[], collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.IN, values, collation);
   }
 
-  startsWith(value: string): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.STARTS_WITH, value);
+  contains(value: unknown, collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.CONTAINS, value, collation);
   }
 
-  endsWith(value: string): TypeSafeQueryBuilder<T> {
-    return this.parentBuilder.addFilter(this.field, QueryOperator.ENDS_WITH, value);
+  startsWith(value: string, collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.STARTS_WITH, value, collation);
+  }
+
+  endsWith(value: string, collation?: Collation): B {
+    return this.parentBuilder.addFilter(this.field, QueryOperator.ENDS_WITH, value, collation);
   }
 
   // Aliases for common operations
@@ -149,21 +275,57 @@ export class TypeSafeFieldQueryBuilder<T extends object, F extends string> {
   ne = this.notEquals;
 }
 
+/**
+ * Grouped aggregation of a type-safe query, created by groupBy()
+ */
+export class TypeSafeGroupedQuery<T extends object, G extends string> {
+  constructor(
+    private field: G,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private parentBuilder: TypeSafeQueryBuilder<T, any, any>
+  ) {}
+
+  /**
+   * Aggregate each group of matching records
+   *
+   * @example
+   * ```typescript
+   * const { groups } = await db.query().groupBy('rarity').aggregate({ count: true, avgCost: avg('cost') });
+   * groups[0].rarity; groups[0].avgCost;
+   * ```
+   */
+  async aggregate<A extends TypedAggregateSpec<T>>(
+    aggregates: A
+  ): Promise<AggregateResult<AggregateRow<T, A, G>>> {
+    return this.parentBuilder.runAggregate(this.field, aggregates);
+  }
+}
+
 /**
  * Type-safe query builder that constrains field names to valid record keys
  */
-export class TypeSafeQueryBuilder<T extends object> {
-  private filters: QueryFilter[] = [];
+export class TypeSafeQueryBuilder<
+  T extends object,
+  R extends object = Record<never, never>,
+  TResult = T,
+> {
+  private filters: QueryCondition[] = [];
   private sortOptions: QuerySort[] = [];
   private limitValue?: number;
   private offsetValue?: number;
+  private afterCursor?: string;
   private arrayFilters: ArrayFieldFilter<T, any>[] = [];
+  private includes: string[] = [];
+  private selectFields?: string[];
+  private grouped = false; // Builds the conditions of an or() / not() / and() branch
+  private collation?: Collation; // Applied to the filters without a collation of their own
 
   constructor(
     private executeQuery: (
-      filters: QueryFilter[],
+      filters: QueryCondition[],
       options?: QueryOptions
-    ) => Promise<QueryResult<T>>
+    ) => Promise<QueryResult<T>>,
+    private extensions: QueryExtensions = {}
   ) {}
 
   /**
@@ -184,20 +346,17 @@ export class TypeSafeQueryBuilder<T extends object> {
    *   .where('cards.cost').greaterThan(3)   // Further filter cards
    * ```
    */
-  where<F extends FieldPaths<T> & string>(field: F): TypeSafeFieldQueryBuilder<T, F> {
-    return new TypeSafeFieldQueryBuilder<T, F>(field, this);
+  where<F extends FieldPaths<T> & string>(field: F): TypeSafeFieldQueryBuilder<T, F, this> {
+    return new TypeSafeFieldQueryBuilder<T, F, this>(field, this);
   }
 
   // Legacy method for backward compatibility (with enum)
-  whereRaw(field: string, operator: QueryOperator, value: unknown): TypeSafeQueryBuilder<T> {
+  whereRaw(field: string, operator: QueryOperator, value: unknown): this {
     return this.addFilter(field, operator, value);
   }
 
   // Simple equality method for convenience
-  whereEquals<F extends FieldPaths<T> & string>(
-    field: F,
-    value: PathValue<T, F>
-  ): TypeSafeQueryBuilder<T> {
+  whereEquals<F extends FieldPaths<T> & string>(field: F, value: PathValue<T, F>): this {
     return this.addFilter(field, QueryOperator.EQUALS, value);
   }
 
@@ -216,27 +375,196 @@ export class TypeSafeQueryBuilder<T extends object> {
   filterArray<K extends ArrayFields<T> & string>(
     field: K,
     predicate: (item: ArrayElementType<T[K]>) => boolean
-  ): TypeSafeQueryBuilder<T> {
+  ): this {
     return this.addArrayFilter(field, predicate);
   }
 
   // Internal method to add filters
-  addFilter(field: string, operator: QueryOperator, value: unknown): TypeSafeQueryBuilder<T> {
-    // Detect if this is an array field filter (e.g., "cards.set" vs "cards[].set")
-    if (this.isArrayFieldFilter(field)) {
-      return this.addArrayFieldFilter(field, operator, value);
+  addFilter(field: string, operator: QueryOperator, value: unknown, collation?: Collation): this {
+    // Detect if this is an array field filter (e.g., "cards.set" vs "cards[].set").
+    // Groups only hold record-level conditions.
+    if (!this.grouped && this.isArrayFieldFilter(field)) {
+      return this.addArrayFieldFilter(field, operator, value, collation);
     }
 
     // Regular record-level filter
-    this.filters.push({ field, operator, value });
+    this.filters.push(
+      collation ? { field, operator, value, collation } : { field, operator, value }
+    );
+    return this;
+  }
+
+  /**
+   * Compare strings ignoring case and/or accents in every filter of the query, including
+   * array element filters. Filters given a collation of their own keep it. Collated
+   * indexes built for a field (collatedFields) answer these filters without a scan.
+   *
+   * @example
+   * ```typescript
+   * db.query().collate({ caseInsensitive: true, accentInsensitive: true })
+   *   .where('name').equals('jose') // 'José', 'JOSE', ...
+   *
+   * // Per filter
+   * db.query().where('name').startsWith('jo', { caseInsensitive: true })
+   * ```
+   */
+  collate(collation: Collation): this {
+    this.collation = collation;
+    return this;
+  }
+
+  /**
+   * Match records that satisfy any of the branches. The conditions within a branch
+   * are combined with AND, and dotted paths match record fields rather than
+   * filtering array elements.
+   *
+   * @example
+   * ```typescript
+   * db.query().or(
+   *   q => q.where('status').equals('active'),
+   *   q => q.where('role').equals('admin')
+   * )
+   * ```
+   */
+  or(...branches: ((query: TypeSafeQueryBuilder<T>) => TypeSafeQueryBuilder<T>)[]): this {
+    this.filters.push({
+      type: 'or',
+      conditions: branches.map(branch => this.group('and', branch)),
+    });
+    return this;
+  }
+
+  /**
+   * Match records that do not satisfy all conditions of the branch
+   *
+   * @example
+   * ```typescript
+   * db.query().not(q => q.where('set').equals('BRO'))
+   * ```
+   */
+  not(branch: (query: TypeSafeQueryBuilder<T>) => TypeSafeQueryBuilder<T>): this {
+    this.filters.push(this.group('not', branch));
+    return this;
+  }
+
+  // Nest conditions that must all match, e.g. inside an or() branch
+  and(branch: (query: TypeSafeQueryBuilder<T>) => TypeSafeQueryBuilder<T>): this {
+    this.filters.push(this.group('and', branch));
+    return this;
+  }
+
+  /**
+   * Match records where a single element of an array field satisfies all conditions of
+   * the branch. Unlike where('cards.set') and where('cards.rarity'), which may each be
+   * met by a different card, both must hold for the same card. With onlyMatching, the
+   * array of the results holds only the matching elements.
+   *
+   * @example
+   * ```typescript
+   * db.query().whereElement('cards', card =>
+   *   card.where('set').equals('BRO').where('rarity').equals('mythic')
+   * )
+   * ```
+   */
+  whereElement<K extends ArrayFields<T> & string>(
+    field: K,
+    branch: (
+      element: TypeSafeQueryBuilder<ArrayElementType<T[K]> & object>
+    ) => TypeSafeQueryBuilder<ArrayElementType<T[K]> & object>,
+    options: ElementMatchOptions = {}
+  ): this {
+    // The element builder only collects conditions
+    const query = new TypeSafeQueryBuilder<ArrayElementType<T[K]> & object>(() => {
+      throw new Error('Element conditions are executed by the enclosing query');
+    });
+    query.grouped = true;
+    this.filters.push({
+      type: 'element',
+      field,
+      conditions: branch(query).collatedFilters(),
+      ...options,
+    });
     return this;
   }
 
+  private group(
+    type: QueryGroup['type'],
+    branch: (query: TypeSafeQueryBuilder<T>) => TypeSafeQueryBuilder<T>
+  ): QueryGroup {
+    const query = new TypeSafeQueryBuilder<T>(this.executeQuery);
+    query.grouped = true;
+    return { type, conditions: branch(query).collatedFilters() };
+  }
+
+  /**
+   * Group the matching records by a field for aggregate(). Array fields put a record
+   * in the group of every element.
+   */
+  groupBy<G extends FieldPaths<T> & string>(field: G): TypeSafeGroupedQuery<T, G> {
+    return new TypeSafeGroupedQuery<T, G>(field, this);
+  }
+
+  /**
+   * Aggregate all matching records into a single row
+   *
+   * @example
+   * ```typescript
+   * const { groups } = await db.query().where('set').equals('BRO').aggregate({ total: sum('cost') });
+   * ```
+   */
+  async aggregate<A extends TypedAggregateSpec<T>>(
+    aggregates: A
+  ): Promise<AggregateResult<AggregateRow<T, A>>> {
+    return this.runAggregate(undefined, aggregates);
+  }
+
+  /**
+   * Count the values of fields among the matching records, without loading records
+   * for indexed fields
+   *
+   * @example
+   * ```typescript
+   * const { facets } = await db.query().where('status').equals('active').facets(['role', 'tags']);
+   * facets.role; // [{ value: 'admin', count: 12 }, ...]
+   * ```
+   */
+  async facets<F extends FieldPaths<T> & string>(
+    fields: F[]
+  ): Promise<FacetResult<TypedFacets<T, F>>> {
+    if (!this.extensions.facets) {
+      throw new Error('Facets are not supported by this query');
+    }
+    const result = await this.extensions.facets(this.collatedFilters(), fields);
+    return result as FacetResult<TypedFacets<T, F>>;
+  }
+
+  /**
+   * Distinct values of a field among the matching records, in ascending order
+   */
+  async distinct<F extends FieldPaths<T> & string>(
+    field: F
+  ): Promise<FacetValueType<PathValue<T, F>>[]> {
+    const { facets } = await this.facets([field]);
+    return distinctValues(facets[field]);
+  }
+
+  // Internal method to run aggregations
+  async runAggregate<Row>(
+    groupBy: string | undefined,
+    aggregates: TypedAggregateSpec<T>
+  ): Promise<AggregateResult<Row>> {
+    if (!this.extensions.aggregate) {
+      throw new Error('Aggregations are not supported by this query');
+    }
+    const result = await this.extensions.aggregate(this.collatedFilters(), { groupBy, aggregates });
+    return result as AggregateResult<Row>;
+  }
+
   // Internal method to add array filters
   addArrayFilter<K extends ArrayFields<T> & string>(
     field: K,
     predicate: (item: ArrayElementType<T[K]>) => boolean
-  ): TypeSafeQueryBuilder<T> {
+  ): this {
     this.arrayFilters.push({ field, predicate });
     return this;
   }
@@ -265,51 +593,63 @@ export class TypeSafeQueryBuilder<T extends object> {
   private addArrayFieldFilter(
     field: string,
     operator: QueryOperator,
-    value: unknown
-  ): TypeSafeQueryBuilder<T> {
+    value: unknown,
+    collation?: Collation
+  ): this {
     const parts = field.split('.');
     const arrayFieldName = parts[0] as ArrayFields<T> & string;
     const subFieldName = parts[1];
 
     // Create a predicate based on the operator and value
     const predicate = (item: any) => {
-      const itemValue = item[subFieldName];
+      // Strings are compared folded by the filter's collation, else the query's
+      const active = collation ?? this.collation;
+      const itemValue = foldValue(item[subFieldName], active);
+      const expected = foldValue(value, active);
 
       switch (operator) {
         case QueryOperator.EQUALS:
-          return itemValue === value;
+          return itemValue === expected;
         case QueryOperator.NOT_EQUALS:
-          return itemValue !== value;
+          return itemValue !== expected;
         case QueryOperator.GREATER_THAN:
-          return typeof itemValue === 'number' && typeof value === 'number' && itemValue > value;
+          return (
+            typeof itemValue === 'number' && typeof expected === 'number' && itemValue > expected
+          );
         case QueryOperator.GREATER_THAN_OR_EQUAL:
-          return typeof itemValue === 'number' && typeof value === 'number' && itemValue >= value;
+          return (
+            typeof itemValue === 'number' && typeof expected === 'number' && itemValue >= expected
+          );
         case QueryOperator.LESS_THAN:
-          return typeof itemValue === 'number' && typeof value === 'number' && itemValue < value;
+          return (
+            typeof itemValue === 'number' && typeof expected === 'number' && itemValue < expected
+          );
         case QueryOperator.LESS_THAN_OR_EQUAL:
-          return typeof itemValue === 'number' && typeof value === 'number' && itemValue <= value;
+          return (
+            typeof itemValue === 'number' && typeof expected === 'number' && itemValue <= expected
+          );
         case QueryOperator.IN:
-          return Array.isArray(value) && value.includes(itemValue);
+          return Array.isArray(expected) && expected.includes(itemValue);
         case QueryOperator.CONTAINS:
           if (Array.isArray(itemValue)) {
-            return itemValue.includes(value);
+            return itemValue.includes(expected);
           }
           return (
             typeof itemValue === 'string' &&
-            typeof value === 'string' &&
-            itemValue.toLowerCase().includes(value.toLowerCase())
+            typeof expected === 'string' &&
+            itemValue.includes(expected)
           );
         case QueryOperator.STARTS_WITH:
           return (
             typeof itemValue === 'string' &&
-            typeof value === 'string' &&
-            itemValue.toLowerCase().startsWith(value.toLowerCase())
+            typeof expected === 'string' &&
+            itemValue.startsWith(expected)
           );
         case QueryOperator.ENDS_WITH:
           return (
             typeof itemValue === 'string' &&
-            typeof value === 'string' &&
-            itemValue.toLowerCase().endsWith(value.toLowerCase())
+            typeof expected === 'string' &&
+            itemValue.endsWith(expected)
           );
         default:
           return false;
@@ -319,30 +659,323 @@ export class TypeSafeQueryBuilder<T extends object> {
     return this.addArrayFilter(arrayFieldName, predicate);
   }
 
-  sort<F extends FieldPaths<T> & string>(
-    field: F,
-    direction: 'asc' | 'desc' = 'asc'
-  ): TypeSafeQueryBuilder<T> {
+  /**
+   * Match records whose point lies within a distance of a center, using the field's geo
+   * index. The field holds a point ({ lat, lng } or a GeoJSON Point), or names the
+   * latitude and longitude fields joined by '+'.
+   *
+   * @example
+   * ```typescript
+   * db.query().withinRadius('location', { lat: 52.52, lng: 13.405 }, 5) // 5 km
+   * ```
+   */
+  withinRadius(field: GeoField<T>, center: GeoPoint, km: number): this {
+    // Record-level even for dotted paths, which name the point rather than array elements
+    this.filters.push({
+      field,
+      operator: QueryOperator.WITHIN_RADIUS,
+      value: geoRadius(center, km),
+    });
+    return this;
+  }
+
+  // Match records whose point lies within a box, from its south-west to its north-east corner
+  withinBox(field: GeoField<T>, southWest: GeoPoint, northEast: GeoPoint): this {
+    this.filters.push({
+      field,
+      operator: QueryOperator.WITHIN_BOX,
+      value: geoBox(southWest, northEast),
+    });
+    return this;
+  }
+
+  sort<F extends FieldPaths<T> & string>(field: F, direction: 'asc' | 'desc' = 'asc'): this {
     this.sortOptions.push({ field, direction });
     return this;
   }
 
-  limit(count: number): TypeSafeQueryBuilder<T> {
+  limit(count: number): this {
     this.limitValue = count;
     return this;
   }
 
-  offset(count: number): TypeSafeQueryBuilder<T> {
+  offset(count: number): this {
     this.offsetValue = count;
     return this;
   }
 
-  async exec(): Promise<EnhancedQueryResult<T>> {
+  /**
+   * Continue after the last record of a previous page. Pages are ordered by the sort
+   * fields plus the primary key, so paging stays stable while records are added.
+   *
+   * @example
+   * ```typescript
+   * const page = await db.query().sort('name').limit(20).exec();
+   * const next = await db.query().sort('name').limit(20).after(page.nextCursor!).exec();
+   * ```
+   */
+  after(cursor: string): this {
+    this.afterCursor = cursor;
+    return this;
+  }
+
+  /**
+   * Attach related records from another collection to every result, resolved
+   * through the relations declared at build time
+   *
+   * @example
+   * ```typescript
+   * const result = await db.cards.query().where('set').equals('BRO').include('artist').exec();
+   * result.records[0].artist?.name;
+   * ```
+   */
+  include<K extends keyof R & string>(
+    relation: K
+  ): TypeSafeQueryBuilder<T, R, TResult & { [P in K]: R[K] }> {
+    if (!this.extensions.resolveInclude) {
+      throw new Error(
+        `Cannot include "${relation}": no relations are declared for this collection`
+      );
+    }
+    this.includes.push(relation);
+    return this as unknown as TypeSafeQueryBuilder<T, R, TResult & { [P in K]: R[K] }>;
+  }
+
+  /**
+   * Return only the given field paths of each record. The result type narrows to
+   * the selected paths; included relations are kept.
+   *
+   * @example
+   * ```typescript
+   * const result = await db.query().select('id', 'name', 'profile.age').exec();
+   * result.records[0].profile.age; // other fields are not part of the type or the data
+   * ```
+   */
+  select<P extends FieldPaths<T> & string>(
+    ...fields: P[]
+  ): TypeSafeQueryBuilder<T, R, Projection<T, P> & Omit<TResult, keyof T>> {
+    this.selectFields = fields;
+    return this as unknown as TypeSafeQueryBuilder<T, R, Projection<T, P> & Omit<TResult, keyof T>>;
+  }
+
+  /**
+   * Run the query and report how it was planned: the order of the index lookups, which
+   * filters used indexes and which were checked on loaded records, and estimated versus
+   * actual rows. Array element filters are applied after the query and are not part of
+   * the plan.
+   *
+   * @example
+   * ```typescript
+   * const { indexedFilters, scannedFilters } = await db.query().where('name').equals('Bo').explain();
+   * ```
+   */
+  async explain(): Promise<QueryExplanation> {
+    if (!this.extensions.explain) {
+      throw new Error('Query plans are not supported by this client');
+    }
+    return this.extensions.explain(this.collatedFilters());
+  }
+
+  /**
+   * Rank the matching records by BM25 relevance to the text, from the full-text indexes
+   * built for the fields. Hits carry the record, its score and the highlighted fields.
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().search('dragon', { fields: ['name', 'text'], boost: { name: 2 } });
+   * hits[0].highlights.name; // 'Shivan <mark>Dragon</mark>'
+   * ```
+   */
+  async search<F extends FieldPaths<T> & string>(
+    text: string,
+    options: SearchOptions<F> = {}
+  ): Promise<SearchResult<TResult>> {
+    if (!this.extensions.search) {
+      throw new Error('Full-text search is not supported by this client');
+    }
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Search results are ordered by relevance and cannot be sorted');
+    }
+
+    const result = await this.extensions.search(this.collatedFilters(), text, options, {
+      limit: this.limitValue,
+      offset: this.offsetValue,
+      select: this.getSelectedFields(),
+    });
+    const records = await this.resolveIncludes(
+      result.hits.map(hit => this.applyArrayFilters(hit.record, {}))
+    );
+
+    return {
+      ...result,
+      hits: result.hits.map((hit, i) => ({ ...hit, record: records[i] as TResult })),
+    };
+  }
+
+  /**
+   * Find the matching records whose field is within `maxDistance` typos (character
+   * edits, default 2) of the text, closest first, from the field's trigram index
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().fuzzy('artist', 'Jon Avonn');
+   * hits[0].value; // 'John Avon'
+   * hits[0].distance; // 2
+   * ```
+   */
+  async fuzzy<K extends FieldPaths<T> & string>(
+    field: K,
+    text: string,
+    options: FuzzyOptions = {}
+  ): Promise<FuzzyResult<TResult>> {
+    if (!this.extensions.fuzzy) {
+      throw new Error('Fuzzy matching is not supported by this client');
+    }
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Fuzzy matches are ordered by similarity and cannot be sorted');
+    }
+
+    const result = await this.extensions.fuzzy(this.collatedFilters(), field, text, options, {
+      limit: this.limitValue,
+      offset: this.offsetValue,
+      select: this.getSelectedFields(),
+    });
+    const records = await this.resolveIncludes(
+      result.hits.map(hit => this.applyArrayFilters(hit.record, {}))
+    );
+
+    return {
+      ...result,
+      hits: result.hits.map((hit, i) => ({ ...hit, record: records[i] as TResult })),
+    };
+  }
+
+  /**
+   * Find the k matching records whose point field is closest to a point, closest first,
+   * from the field's geo index
+   *
+   * @example
+   * ```typescript
+   * const { hits } = await db.query().where('open').equals(true).nearest('location', here, 3);
+   * hits[0].distance; // 0.8 (km)
+   * ```
+   */
+  async nearest(
+    field: GeoField<T>,
+    point: GeoPoint,
+    k = 10,
+    options: NearestOptions = {}
+  ): Promise<NearestResult<TResult>> {
+    if (!this.extensions.nearest) {
+      throw new Error('Nearest neighbour queries are not supported by this client');
+    }
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Nearest matches are ordered by distance and cannot be sorted');
+    }
+    checkPoint(point);
+
+    const result = await this.extensions.nearest(this.collatedFilters(), field, point, options, {
+      limit: k,
+      offset: this.offsetValue,
+      select: this.getSelectedFields(),
+    });
+    const records = await this.resolveIncludes(
+      result.hits.map(hit => this.applyArrayFilters(hit.record, {}))
+    );
+
+    return {
+      ...result,
+      hits: result.hits.map((hit, i) => ({ ...hit, record: records[i] as TResult })),
+    };
+  }
+
+  async exec(): Promise<EnhancedQueryResult<TResult>> {
+    const result = await this.execFiltered(this.getSelectedFields());
+    const records = await this.resolveIncludes(result.records);
+
+    return { ...result, records } as EnhancedQueryResult<TResult>;
+  }
+
+  /**
+   * Stream the matching records one data file at a time, in storage order, without
+   * holding all of them in memory. Included relations are resolved in batches.
+   *
+   * @example
+   * ```typescript
+   * for await (const card of db.query().where('set').equals('BRO')) {
+   *   if (done(card)) break;
+   * }
+   * ```
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<TResult> {
+    if (!this.extensions.stream) {
+      throw new Error('Streaming is not supported by this client');
+    }
+    if (this.sortOptions.length > 0 || this.afterCursor !== undefined) {
+      throw new Error('Sorted queries cannot be streamed; page through them with after() instead');
+    }
+
+    const stream = this.extensions.stream(this.collatedFilters(), {
+      limit: this.limitValue,
+      offset: this.offsetValue,
+      select: this.getSelectedFields(),
+    });
+
+    let batch: object[] = [];
+    for await (const record of stream) {
+      batch.push(this.applyArrayFilters(record, {}));
+      if (batch.length >= STREAM_BATCH_SIZE) {
+        yield* (await this.resolveIncludes(batch)) as TResult[];
+        batch = [];
+      }
+    }
+    yield* (await this.resolveIncludes(batch)) as TResult[];
+  }
+
+  // Filters with the query collation applied
+  private collatedFilters(): QueryCondition[] {
+    return withCollation(this.filters, this.collation);
+  }
+
+  // Selected fields plus the foreign keys of included relations, which are fetched
+  // even when not selected
+  private getSelectedFields(): string[] | undefined {
+    const relationFields = this.getRelationFields();
+    return this.selectFields && [...this.selectFields, ...relationFields];
+  }
+
+  private getRelationFields(): string[] {
+    return this.includes
+      .map(relation => this.extensions.relationField?.(relation))
+      .filter((field): field is string => !!field);
+  }
+
+  // Attach included relations to records, then drop unselected foreign keys
+  private async resolveIncludes(records: object[]): Promise<object[]> {
+    if (records.length === 0) return records;
+
+    for (const relation of this.includes) {
+      if (!this.extensions.resolveInclude) {
+        throw new Error('Relations are not supported by this client');
+      }
+      records = await this.extensions.resolveInclude(records, relation);
+    }
+
+    if (this.selectFields && this.getRelationFields().length > 0) {
+      const fields = [...this.selectFields, ...this.includes];
+      records = records.map(record => projectRecord(record, fields));
+    }
+    return records;
+  }
+
+  private async execFiltered(select?: string[]): Promise<EnhancedQueryResult<T>> {
     // Execute the base query
-    const baseResult = await this.executeQuery(this.filters, {
+    const baseResult = await this.executeQuery(this.collatedFilters(), {
       limit: this.limitValue,
       offset: this.offsetValue,
       sort: this.sortOptions,
+      select,
+      after: this.afterCursor,
     });
 
     // If no array filters, return the base result
@@ -352,37 +985,9 @@ export class TypeSafeQueryBuilder<T extends object> {
 
     // Apply array filters to each record
     const originalCounts: Record<string, number> = {};
-    const filteredRecords = baseResult.records.map(record => {
-      // Use JSON clone to avoid type issues
-      const filteredRecord = JSON.parse(JSON.stringify(record)) as Record<string, any>;
-
-      for (const arrayFilter of this.arrayFilters) {
-        const { field, predicate } = arrayFilter;
-        const arrayValue = (record as Record<string, any>)[field as string];
-
-        if (Array.isArray(arrayValue)) {
-          // Store original count for metadata
-          if (!originalCounts[field as string]) {
-            originalCounts[field as string] = arrayValue.length;
-          }
-
-          // Apply the filter
-          const filteredArray = arrayValue.filter(predicate);
-          filteredRecord[field as string] = filteredArray;
-
-          // If there's a corresponding count field, update it
-          const countField = `${field as string}Count`;
-          if (
-            countField in record &&
-            typeof (record as Record<string, any>)[countField] === 'number'
-          ) {
-            filteredRecord[countField] = filteredArray.length;
-          }
-        }
-      }
-
-      return filteredRecord;
-    });
+    const filteredRecords = baseResult.records.map(record =>
+      this.applyArrayFilters(record, originalCounts)
+    );
 
     return {
       ...baseResult,
@@ -391,4 +996,41 @@ export class TypeSafeQueryBuilder<T extends object> {
       originalCounts,
     } as EnhancedQueryResult<T>;
   }
+
+  // Filter the array fields of a record, recording the original array lengths
+  private applyArrayFilters(record: object, originalCounts: Record<string, number>): object {
+    if (this.arrayFilters.length === 0) {
+      return record;
+    }
+
+    // Use JSON clone to avoid type issues
+    const filteredRecord = JSON.parse(JSON.stringify(record)) as Record<string, any>;
+
+    for (const arrayFilter of this.arrayFilters) {
+      const { field, predicate } = arrayFilter;
+      const arrayValue = (record as Record<string, any>)[field as string];
+
+      if (Array.isArray(arrayValue)) {
+        // Store original count for metadata
+        if (!originalCounts[field as string]) {
+          originalCounts[field as string] = arrayValue.length;
+        }
+
+        // Apply the filter
+        const filteredArray = arrayValue.filter(predicate);
+        filteredRecord[field as string] = filteredArray;
+
+        // If there's a corresponding count field, update it
+        const countField = `${field as string}Count`;
+        if (
+          countField in record &&
+          typeof (record as Record<string, any>)[countField] === 'number'
+        ) {
+          filteredRecord[countField] = filteredArray.length;
+        }
+      }
+    }
+
+    return filteredRecord;
+  }
 }
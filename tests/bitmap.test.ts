@@ -0,0 +1,74 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'assert';
+import { RecordBitmap } from '../src/runtime/core/bitmap.js';
+
+// Deterministic ordinals: every step-th one below the limit, plus a scattered few
+function ordinals(limit: number, step: number, seed: number): number[] {
+  const result: number[] = [];
+  for (let ordinal = seed % step; ordinal < limit; ordinal += step) {
+    result.push(ordinal);
+  }
+  let state = seed;
+  for (let i = 0; i < 500; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    result.push(state % limit);
+  }
+  return result;
+}
+
+function sorted(values: Iterable<number>): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+describe('RecordBitmap', () => {
+  // Sparse and dense containers, spanning several 65536-ordinal chunks
+  const a = ordinals(200000, 3, 7);
+  const b = ordinals(150000, 40, 11);
+
+  test('should hold distinct ordinals in ascending order', () => {
+    const bitmap = RecordBitmap.of([70000, 5, 5, 65536, 0, 65535]);
+    assert.deepStrictEqual(bitmap.toArray(), [0, 5, 65535, 65536, 70000]);
+    assert.strictEqual(bitmap.size, 5);
+    assert(bitmap.has(65536));
+    assert(!bitmap.has(6));
+    assert.deepStrictEqual(RecordBitmap.of(a).toArray(), sorted(a));
+  });
+
+  test('should combine bitmaps like sets', () => {
+    const left = RecordBitmap.of(a);
+    const right = RecordBitmap.of(b);
+    const rightSet = new Set(b);
+
+    assert.deepStrictEqual(
+      left.and(right).toArray(),
+      sorted(a.filter(ordinal => rightSet.has(ordinal)))
+    );
+    assert.deepStrictEqual(left.or(right).toArray(), sorted([...a, ...b]));
+    assert.deepStrictEqual(
+      left.andNot(right).toArray(),
+      sorted(a.filter(ordinal => !rightSet.has(ordinal)))
+    );
+    assert.strictEqual(left.and(RecordBitmap.empty()).size, 0);
+  });
+
+  test('should cover all ordinals below a count', () => {
+    const all = RecordBitmap.range(70000);
+    assert.strictEqual(all.size, 70000);
+    assert.deepStrictEqual(all.andNot(RecordBitmap.range(69998)).toArray(), [69998, 69999]);
+    assert.strictEqual(RecordBitmap.range(0).size, 0);
+  });
+
+  test('should serialize compactly and read back', () => {
+    for (const values of [[], [3], a, b, Array.from({ length: 100000 }, (_, i) => i + 10)]) {
+      const bitmap = RecordBitmap.of(values);
+      assert.deepStrictEqual(
+        RecordBitmap.deserialize(bitmap.serialize()).toArray(),
+        sorted(values)
+      );
+    }
+
+    // Consecutive ordinals are stored as runs
+    assert(RecordBitmap.range(100000).serialize().length < 40);
+    assert.throws(() => RecordBitmap.deserialize('not*base64'), /Invalid bitmap data/);
+  });
+});
@@ -1,9 +1,29 @@
-import { test, describe, before, after } from 'node:test';
+import { test, describe, before, after, afterEach, mock } from 'node:test';
 import { strict as assert } from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
-import { AntipatternBuilder } from '../src/builder/index.js';
+import { AntipatternBuilder, type BuilderOptions } from '../src/builder/index.js';
 import { DataSplitter } from '../src/builder/data-splitter.js';
+import { RecordReader } from '../src/builder/record-reader.js';
+import { AntipatternDB } from '../src/runtime/query-client.js';
+import { TypedDatabaseClient } from '../src/runtime/typed-client.js';
+import { QueryEngine, QueryOperator, type QueryFilter } from '../src/runtime/core/query-engine.js';
+import { NodeDataLoader } from '../src/runtime/adapters/node-data-loader.js';
+import { RecordBitmap } from '../src/runtime/core/bitmap.js';
+import { z } from 'zod';
+
+// Record IDs of an index entry, from its bitmap of positions in the primary key index
+function entryRecordIds(outputDir: string, entry: { bitmap: string }): string[] {
+  const primaryIndex = JSON.parse(
+    fs.readFileSync(path.join(outputDir, 'indexes', '_primary.json'), 'utf8')
+  );
+  const ids = new Map(
+    primaryIndex.entries.map((record: { id: string; index: number }) => [record.index, record.id])
+  );
+  return RecordBitmap.deserialize(entry.bitmap)
+    .toArray()
+    .map(ordinal => ids.get(ordinal) as string);
+}
 
 // Test data with complex nested structure
 const testData = [
@@ -107,6 +127,8 @@ describe('Builder Tests', () => {
       primaryKeyField: 'id',
       batchSize: 1, // Individual files
       indexFields: ['id', 'status', 'age', 'roles', 'preferences.theme'],
+      textFields: ['profile.bio'],
+      textAnalyzer: { stemming: true },
       verbose: false,
     });
   });
@@ -177,7 +199,9 @@ describe('Builder Tests', () => {
     assert(indexFiles.includes('status.json'), 'Should have status index');
 
     // Validate index file structure
-    const statusIndex = JSON.parse(fs.readFileSync(path.join(indexesDir, 'status.json'), 'utf8'));
+    const statusJSON = fs.readFileSync(path.join(indexesDir, 'status.json'), 'utf8');
+    const statusIndex = JSON.parse(statusJSON);
+    assert.strictEqual(statusJSON, JSON.stringify(statusIndex), 'Index should be compact JSON');
     assert.strictEqual(statusIndex.field, 'status', 'Index should have correct field name');
     assert(Array.isArray(statusIndex.entries), 'Index should have entries array');
     assert.strictEqual(
@@ -189,14 +213,8 @@ describe('Builder Tests', () => {
     // Check that active status has 2 records and inactive has 1
     const activeEntry = statusIndex.entries.find((e: any) => e.value === 'active');
     const inactiveEntry = statusIndex.entries.find((e: any) => e.value === 'inactive');
-    assert(
-      activeEntry && activeEntry.recordIds.length === 2,
-      'Active status should have 2 records'
-    );
-    assert(
-      inactiveEntry && inactiveEntry.recordIds.length === 1,
-      'Inactive status should have 1 record'
-    );
+    assert(activeEntry && activeEntry.count === 2, 'Active status should have 2 records');
+    assert(inactiveEntry && inactiveEntry.count === 1, 'Inactive status should have 1 record');
   });
 
   test('should handle array field indexing correctly', () => {
@@ -212,16 +230,10 @@ describe('Builder Tests', () => {
       const adminEntry = rolesIndex.entries.find((e: any) => e.value === 'admin');
       const moderatorEntry = rolesIndex.entries.find((e: any) => e.value === 'moderator');
 
+      assert(userEntry && userEntry.count === 3, 'User role should appear in all 3 records');
+      assert(adminEntry && adminEntry.count === 1, 'Admin role should appear in 1 record');
       assert(
-        userEntry && userEntry.recordIds.length === 3,
-        'User role should appear in all 3 records'
-      );
-      assert(
-        adminEntry && adminEntry.recordIds.length === 1,
-        'Admin role should appear in 1 record'
-      );
-      assert(
-        moderatorEntry && moderatorEntry.recordIds.length === 1,
+        moderatorEntry && moderatorEntry.count === 1,
         'Moderator role should appear in 1 record'
       );
     }
@@ -246,12 +258,44 @@ describe('Builder Tests', () => {
       const lightEntry = themeIndex.entries.find((e: any) => e.value === 'light');
       const autoEntry = themeIndex.entries.find((e: any) => e.value === 'auto');
 
-      assert(darkEntry && darkEntry.recordIds.length === 1, 'Dark theme should have 1 record');
-      assert(lightEntry && lightEntry.recordIds.length === 1, 'Light theme should have 1 record');
-      assert(autoEntry && autoEntry.recordIds.length === 1, 'Auto theme should have 1 record');
+      assert(darkEntry && darkEntry.count === 1, 'Dark theme should have 1 record');
+      assert(lightEntry && lightEntry.count === 1, 'Light theme should have 1 record');
+      assert(autoEntry && autoEntry.count === 1, 'Auto theme should have 1 record');
     }
   });
 
+  test('should sort numeric and date indexes by value', () => {
+    const metadata = JSON.parse(fs.readFileSync(path.join(testOutputDir, 'metadata.json'), 'utf8'));
+    const indexInfo = (field: string) =>
+      metadata.indexes.find((idx: { field: string }) => idx.field === field);
+    assert.strictEqual(indexInfo('age').range, 'number');
+    assert.strictEqual(indexInfo('status').range, undefined);
+
+    const ageIndex = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'indexes', 'age.json'), 'utf8')
+    );
+    const ages = ageIndex.entries.map((entry: { value: unknown }) => entry.value);
+    assert.deepStrictEqual(
+      ages,
+      [...ages].sort((a, b) => a - b)
+    );
+  });
+
+  test('should write full-text indexes of text fields', () => {
+    const metadata = JSON.parse(fs.readFileSync(path.join(testOutputDir, 'metadata.json'), 'utf8'));
+    assert.deepStrictEqual(metadata.textIndexes, [
+      { field: 'profile.bio', documentCount: 3, uniqueTerms: 5 },
+    ]);
+
+    const textIndex = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'indexes', 'text', 'profile.bio.json'), 'utf8')
+    );
+    assert.strictEqual(textIndex.analyzer.stemming, true);
+    assert.deepStrictEqual(textIndex.terms.developer, [['user-1', 1]]);
+    assert.deepStrictEqual(textIndex.lengths, { 'user-1': 2, 'user-2': 1, 'user-3': 2 });
+    assert.strictEqual(textIndex.averageLength, 5 / 3);
+  });
+
   test('should validate metadata correctly', () => {
     const metadata = JSON.parse(fs.readFileSync(path.join(testOutputDir, 'metadata.json'), 'utf8'));
     const splitMetadata = JSON.parse(
@@ -272,6 +316,7 @@ describe('Builder Tests', () => {
 
   test('should provide database info correctly', async () => {
     const info = await builder.info();
+    assert(!('collections' in info), 'A single database should not list collections');
     assert.strictEqual(info.database.totalRecords, 3, 'Info should show 3 records');
     assert.strictEqual(info.data.totalFiles, 3, 'Info should show 3 files');
     assert(info.build, 'Info should include build manifest');
@@ -567,3 +612,941 @@ describe('DataSplitter Validation Tests', () => {
     );
   });
 });
+
+describe('Streaming Build Tests', () => {
+  const streamInputPath = './test-stream-input.json';
+  const streamOutputDir = './test-stream-output';
+
+  before(() => {
+    fs.rmSync(streamOutputDir, { recursive: true, force: true });
+  });
+
+  after(() => {
+    try {
+      fs.rmSync(streamOutputDir, { recursive: true, force: true });
+      if (fs.existsSync(streamInputPath)) {
+        fs.unlinkSync(streamInputPath);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should read records across chunk boundaries', async () => {
+    fs.writeFileSync(streamInputPath, JSON.stringify(testData, null, 2));
+
+    // Tiny chunks force records, strings and escapes to be split between reads
+    const reader = new RecordReader(streamInputPath, { streaming: true, chunkSize: 7 });
+    const records: unknown[] = [];
+    for await (const record of reader.records()) {
+      records.push(record);
+    }
+
+    assert.deepStrictEqual(records, testData, 'Streamed records should match the input');
+  });
+
+  test('should pick the largest collection of an object root', async () => {
+    const wrapped = {
+      meta: { note: 'escaped "quotes" and [brackets]' },
+      tags: ['a', 'b'],
+      users: testData,
+    };
+    fs.writeFileSync(streamInputPath, JSON.stringify(wrapped));
+
+    const reader = new RecordReader(streamInputPath, { streaming: true, chunkSize: 16 });
+    const records: unknown[] = [];
+    for await (const record of reader.records()) {
+      records.push(record);
+    }
+
+    assert.deepStrictEqual(records, DataSplitter.extractRecords(wrapped));
+  });
+
+  test('should count each scalar element once when picking a collection', async () => {
+    const wrapped = {
+      items: [{ id: 1 }, 12500, true, null, -3.25e10, false, { id: 2 }],
+      k: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+    };
+    fs.writeFileSync(streamInputPath, JSON.stringify(wrapped));
+
+    const log = mock.method(globalThis.console, 'log', () => {});
+    const reader = new RecordReader(streamInputPath, { streaming: true, chunkSize: 5 });
+    const records: unknown[] = [];
+    let extracted: unknown[];
+    try {
+      for await (const record of reader.records()) {
+        records.push(record);
+      }
+      extracted = DataSplitter.extractRecords(wrapped);
+    } finally {
+      log.mock.restore();
+    }
+
+    assert.deepStrictEqual(
+      log.mock.calls.map(call => call.arguments),
+      Array(2).fill(['📋 Using collection: k (9 records), ignoring items'])
+    );
+    assert.deepStrictEqual(records, wrapped.k);
+    assert.deepStrictEqual(records, extracted);
+  });
+
+  test('should build the same database in streaming mode', async () => {
+    fs.writeFileSync(streamInputPath, JSON.stringify(testData, null, 2));
+
+    const streamingBuilder = new AntipatternBuilder({
+      outputDir: streamOutputDir,
+      streaming: true,
+      verbose: false,
+    });
+
+    const result = await streamingBuilder.build(streamInputPath);
+    assert.strictEqual(result.totalRecords, 3, 'Should process 3 records');
+    assert.strictEqual(result.totalFiles, 3, 'Should create 3 data files');
+
+    const statusIndex = JSON.parse(
+      fs.readFileSync(path.join(streamOutputDir, 'indexes', 'status.json'), 'utf8')
+    );
+    const activeEntry = statusIndex.entries.find((e: { value: unknown }) => e.value === 'active');
+    assert.deepStrictEqual(entryRecordIds(streamOutputDir, activeEntry), ['user-1', 'user-2']);
+
+    const types = fs.readFileSync(path.join(streamOutputDir, 'types.ts'), 'utf8');
+    assert(types.includes('export interface GeneratedRecord'), 'Should generate record types');
+  });
+
+  test('should reject truncated input', async () => {
+    fs.writeFileSync(streamInputPath, JSON.stringify(testData).slice(0, -10));
+
+    const records = new RecordReader(streamInputPath, { streaming: true }).records();
+    await assert.rejects(async () => {
+      while (!(await records.next()).done) {
+        // Drain the reader
+      }
+    }, /Unexpected end of JSON input/);
+  });
+});
+
+describe('NDJSON Input Tests', () => {
+  const ndjsonInputPath = './test-ndjson-input.ndjson';
+  const ndjsonOutputDir = './test-ndjson-output';
+
+  before(() => {
+    fs.rmSync(ndjsonOutputDir, { recursive: true, force: true });
+
+    const lines = testData.map(record => JSON.stringify(record));
+    // Blank line and a malformed record on line 3
+    lines.splice(1, 0, '', '{"id": "broken",');
+    fs.writeFileSync(ndjsonInputPath, `${lines.join('\n')}\n`);
+  });
+
+  after(() => {
+    try {
+      fs.rmSync(ndjsonOutputDir, { recursive: true, force: true });
+      if (fs.existsSync(ndjsonInputPath)) {
+        fs.unlinkSync(ndjsonInputPath);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should detect the input format from the file extension', () => {
+    assert.strictEqual(RecordReader.detectFormat('export.ndjson'), 'ndjson');
+    assert.strictEqual(RecordReader.detectFormat('export.JSONL'), 'ndjson');
+    assert.strictEqual(RecordReader.detectFormat('export.json'), 'json');
+    assert.strictEqual(
+      new RecordReader('export.txt', { format: 'ndjson' }).format,
+      'ndjson',
+      'An explicit format should win over the extension'
+    );
+  });
+
+  test('should build from NDJSON and report malformed lines', async () => {
+    const ndjsonBuilder = new AntipatternBuilder({
+      outputDir: ndjsonOutputDir,
+      verbose: false,
+    });
+
+    const result = await ndjsonBuilder.build(ndjsonInputPath);
+    assert.strictEqual(result.totalRecords, 3, 'Should skip the malformed line');
+    assert.strictEqual(result.inputErrors.length, 1, 'Should report one malformed line');
+    assert.strictEqual(result.inputErrors[0].line, 3, 'Should report the line number');
+
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(ndjsonOutputDir, 'build-manifest.json'), 'utf8')
+    );
+    assert.strictEqual(manifest.inputFormat, 'ndjson');
+    assert.strictEqual(manifest.inputErrors.length, 1);
+  });
+
+  test('should report lines that are not records with a primary key', async () => {
+    const linesPath = './test-ndjson-records.ndjson';
+    fs.writeFileSync(linesPath, '{"id": "a"}\n42\n{"name": "no id"}\n');
+
+    try {
+      const reader = new RecordReader(linesPath, { primaryKeyField: 'id' });
+      const records: unknown[] = [];
+      for await (const record of reader.records()) {
+        records.push(record);
+      }
+
+      assert.deepStrictEqual(records, [{ id: 'a' }]);
+      assert.deepStrictEqual(reader.errors, [
+        { line: 2, message: 'Expected a JSON object' },
+        { line: 3, message: 'Missing primary key field "id"' },
+      ]);
+    } finally {
+      fs.rmSync(linesPath, { force: true });
+    }
+  });
+});
+
+describe('CSV Input Tests', () => {
+  const csvInputPath = './test-csv-input.csv';
+  const tsvInputPath = './test-csv-input.tsv';
+  const csvOutputDir = './test-csv-output';
+
+  before(() => {
+    fs.rmSync(csvOutputDir, { recursive: true, force: true });
+
+    fs.writeFileSync(
+      csvInputPath,
+      [
+        'id,name,age,active,zip,bio,joined',
+        '1,"Smith, Jane",34,true,02134,"Says ""hi""",2023-01-15',
+        '2,Bob,,FALSE,10001,"Line one\r\nline two",2023-02-20',
+        '3,Carol,29,true,94105',
+        '4,Dave,41.5,false,60601,,2023-03-10',
+        'oops',
+      ].join('\r\n')
+    );
+
+    fs.writeFileSync(tsvInputPath, 'sku\tprice\tname\nA-1\t9.99\tMug, large\nA-2\t12\tPlate\n');
+  });
+
+  after(() => {
+    try {
+      fs.rmSync(csvOutputDir, { recursive: true, force: true });
+      for (const inputPath of [csvInputPath, tsvInputPath]) {
+        if (fs.existsSync(inputPath)) {
+          fs.unlinkSync(inputPath);
+        }
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function readAll(reader: RecordReader): Promise<Record<string, unknown>[]> {
+    const records: Record<string, unknown>[] = [];
+    for await (const record of reader.records()) {
+      records.push(record as Record<string, unknown>);
+    }
+    return records;
+  }
+
+  test('should detect CSV and TSV from the file extension', () => {
+    assert.strictEqual(RecordReader.detectFormat('export.csv'), 'csv');
+    assert.strictEqual(RecordReader.detectFormat('export.tsv'), 'tsv');
+    assert.strictEqual(RecordReader.detectFormat('export.tab'), 'tsv');
+  });
+
+  test('should parse quoting, escapes and embedded newlines with typed columns', async () => {
+    const reader = new RecordReader(csvInputPath, { chunkSize: 5 });
+    const records = await readAll(reader);
+
+    assert.strictEqual(records.length, 3, 'Should skip the short row');
+    assert.deepStrictEqual(
+      reader.errors.map(error => error.line),
+      [5, 7]
+    );
+
+    assert.strictEqual(records[0].name, 'Smith, Jane');
+    assert.strictEqual(records[0].bio, 'Says "hi"');
+    assert.strictEqual(records[1].bio, 'Line one\r\nline two');
+
+    assert.strictEqual(records[0].id, 1, 'Rows with the wrong field count should not be inferred');
+    assert.strictEqual(records[2].age, 41.5);
+    assert.strictEqual(records[1].age, null, 'Empty cells should be null');
+    assert.strictEqual(records[2].bio, '', 'Empty cells of string columns should stay empty');
+    assert.strictEqual(records[1].active, false, 'Booleans should be case-insensitive');
+    assert.strictEqual(records[0].zip, '02134', 'Leading zeros should keep the column a string');
+    assert.strictEqual(records[0].joined, '2023-01-15T00:00:00.000Z', 'Dates should be ISO');
+  });
+
+  test('should keep integers beyond the safe range as strings', async () => {
+    const bigIntPath = './test-csv-bigint.csv';
+    fs.writeFileSync(bigIntPath, 'id,count\n1,5\n9007199254740993,-12345678901234567890\n');
+    try {
+      const records = await readAll(new RecordReader(bigIntPath));
+
+      assert.deepStrictEqual(
+        records.map(record => record.id),
+        ['1', '9007199254740993'],
+        'A column with an unsafe integer should stay a string column'
+      );
+      assert.strictEqual(records[1].count, '-12345678901234567890');
+    } finally {
+      fs.unlinkSync(bigIntPath);
+    }
+  });
+
+  test('should keep raw strings when type inference is disabled', async () => {
+    const reader = new RecordReader(csvInputPath, { csv: { inferTypes: false } });
+    const records = await readAll(reader);
+
+    assert.strictEqual(records[0].age, '34');
+    assert.strictEqual(records[0].active, 'true');
+  });
+
+  test('should name columns when there is no header row', async () => {
+    const reader = new RecordReader(tsvInputPath, { csv: { header: false } });
+    const records = await readAll(reader);
+
+    assert.strictEqual(records.length, 3);
+    assert.deepStrictEqual(Object.keys(records[0]), ['column1', 'column2', 'column3']);
+    assert.strictEqual(records[1].column3, 'Mug, large');
+  });
+
+  test('should build from TSV with inferred schema types', async () => {
+    const tsvBuilder = new AntipatternBuilder({
+      outputDir: csvOutputDir,
+      primaryKeyField: 'sku',
+      verbose: false,
+    });
+
+    const result = await tsvBuilder.build(tsvInputPath);
+    assert.strictEqual(result.totalRecords, 2);
+
+    const record = JSON.parse(
+      fs.readFileSync(path.join(csvOutputDir, 'data', '000', 'A-1.json'), 'utf8')
+    );
+    assert.strictEqual(record.price, 9.99);
+
+    const schema = fs.readFileSync(path.join(csvOutputDir, 'schema.ts'), 'utf8');
+    assert.match(schema, /price: .*z\.number\(\)/, 'Schema should type the price column');
+  });
+});
+
+describe('Incremental Build Tests', () => {
+  const incrementalInputPath = './test-incremental-input.json';
+  const incrementalOutputDir = './test-incremental-output';
+  const oldTime = new Date('2000-01-01T00:00:00Z');
+
+  async function build(records: unknown[], options: Partial<BuilderOptions> = {}) {
+    fs.writeFileSync(incrementalInputPath, JSON.stringify(records, null, 2));
+    const builder = new AntipatternBuilder({
+      outputDir: incrementalOutputDir,
+      incremental: true,
+      verbose: false,
+      ...options,
+    });
+    return builder.build(incrementalInputPath);
+  }
+
+  // Backdate a file so tests can tell whether a build rewrote it
+  function backdate(...segments: string[]): string {
+    const filePath = path.join(incrementalOutputDir, ...segments);
+    fs.utimesSync(filePath, oldTime, oldTime);
+    return filePath;
+  }
+
+  function wasRewritten(filePath: string): boolean {
+    return fs.statSync(filePath).mtimeMs !== oldTime.getTime();
+  }
+
+  function withChanges(changes: (records: (typeof testData)[number][]) => void) {
+    const records = JSON.parse(JSON.stringify(testData));
+    changes(records);
+    return records;
+  }
+
+  afterEach(() => {
+    fs.rmSync(incrementalOutputDir, { recursive: true, force: true });
+  });
+
+  after(() => {
+    if (fs.existsSync(incrementalInputPath)) {
+      fs.unlinkSync(incrementalInputPath);
+    }
+  });
+
+  test('should run a full build when there is no previous build', async () => {
+    const result = await build(testData);
+    assert.strictEqual(result.incremental, false);
+    assert.strictEqual(result.changes.added, 3);
+
+    const splitMetadata = JSON.parse(
+      fs.readFileSync(path.join(incrementalOutputDir, 'split-metadata.json'), 'utf8')
+    );
+    assert.strictEqual(splitMetadata.files[0].recordHashes.length, 1, 'Should store hashes');
+  });
+
+  test('should only rewrite changed records and indexes', async () => {
+    await build(testData);
+    const unchangedRecord = backdate('data', '000', 'user-2.json');
+    const changedRecord = backdate('data', '000', 'user-1.json');
+    const unchangedIndex = backdate('indexes', 'name.json');
+    const changedIndex = backdate('indexes', 'age.json');
+
+    const result = await build(withChanges(records => (records[0].age = 31)));
+
+    assert.strictEqual(result.incremental, true);
+    assert.deepStrictEqual(result.changes, { added: 0, updated: 1, removed: 0, unchanged: 2 });
+    assert(!wasRewritten(unchangedRecord), 'Unchanged record should not be rewritten');
+    assert(wasRewritten(changedRecord), 'Changed record should be rewritten');
+    assert(!wasRewritten(unchangedIndex), 'Unaffected index should not be rewritten');
+    assert(wasRewritten(changedIndex), 'Affected index should be rewritten');
+
+    assert.strictEqual(JSON.parse(fs.readFileSync(changedRecord, 'utf8')).age, 31);
+    const ageJSON = fs.readFileSync(changedIndex, 'utf8');
+    const ageIndex = JSON.parse(ageJSON);
+    assert.strictEqual(ageJSON, JSON.stringify(ageIndex), 'Index should be compact JSON');
+    assert(ageIndex.entries.some((entry: { value: unknown }) => entry.value === 31));
+    assert(!ageIndex.entries.some((entry: { value: unknown }) => entry.value === 30));
+  });
+
+  test('should add new records and delete removed ones', async () => {
+    await build(testData);
+
+    const result = await build(
+      withChanges(records => {
+        records.splice(2, 1);
+        records.push({ ...records[1], id: 'user-4', status: 'pending' });
+      })
+    );
+
+    assert.deepStrictEqual(result.changes, { added: 1, updated: 0, removed: 1, unchanged: 2 });
+    assert.strictEqual(result.totalRecords, 3);
+    assert(!fs.existsSync(path.join(incrementalOutputDir, 'data', '000', 'user-3.json')));
+    assert(fs.existsSync(path.join(incrementalOutputDir, 'data', '000', 'user-4.json')));
+
+    const statusIndex = JSON.parse(
+      fs.readFileSync(path.join(incrementalOutputDir, 'indexes', 'status.json'), 'utf8')
+    );
+    const statusValues = statusIndex.entries.map((entry: { value: unknown }) => entry.value);
+    assert.deepStrictEqual(statusValues.sort(), ['active', 'pending']);
+  });
+
+  test('should patch only the affected batch files', async () => {
+    await build(testData, { batchSize: 2 });
+    const firstBatch = backdate('data', 'batches_000', 'batch_0000.json');
+    const secondBatch = backdate('data', 'batches_000', 'batch_0001.json');
+
+    let result = await build(
+      withChanges(records => (records[2].status = 'active')),
+      { batchSize: 2 }
+    );
+    assert.deepStrictEqual(result.changes, { added: 0, updated: 1, removed: 0, unchanged: 2 });
+    assert(!wasRewritten(firstBatch), 'Batch without changes should not be rewritten');
+    assert(wasRewritten(secondBatch), 'Batch with a changed record should be rewritten');
+
+    result = await build(
+      withChanges(records => {
+        records.shift();
+        records.push({ ...records[0], id: 'user-4' });
+      }),
+      { batchSize: 2 }
+    );
+    assert.deepStrictEqual(result.changes, { added: 1, updated: 1, removed: 1, unchanged: 1 });
+
+    const batch = JSON.parse(fs.readFileSync(firstBatch, 'utf8'));
+    assert.deepStrictEqual(
+      batch.map((record: { id: string }) => record.id),
+      ['user-2'],
+      'Removed record should be dropped from its batch'
+    );
+
+    const splitMetadata = JSON.parse(
+      fs.readFileSync(path.join(incrementalOutputDir, 'split-metadata.json'), 'utf8')
+    );
+    assert.strictEqual(splitMetadata.totalRecords, 3);
+    assert.deepStrictEqual(splitMetadata.files[2].recordIds, ['user-4']);
+  });
+
+  test('should keep record positions so removals leave unrelated indexes alone', async () => {
+    const records: Array<{ id: string }> = withChanges(records => {
+      Object.assign(records[0], { team: 'ops' });
+      Object.assign(records[2], { team: 'ops' });
+    });
+    await build(records);
+    const unrelatedIndex = backdate('indexes', 'team.json');
+    const primaryIndex = backdate('indexes', '_primary.json');
+
+    const remaining = records.filter(record => record.id !== 'user-2');
+    const result = await build(remaining);
+    assert.deepStrictEqual(result.changes, { added: 0, updated: 0, removed: 1, unchanged: 2 });
+    assert(!wasRewritten(unrelatedIndex), 'Index without the removed record should be kept');
+    assert(wasRewritten(primaryIndex), 'Primary key index should drop the removed record');
+
+    // New records go after the removed record's unused position
+    await build([...remaining, { ...records[1], id: 'user-4' }]);
+    const primary = JSON.parse(
+      fs.readFileSync(path.join(incrementalOutputDir, 'indexes', '_primary.json'), 'utf8')
+    );
+    assert.deepStrictEqual(
+      primary.entries.map((entry: { id: string; index: number }) => [entry.id, entry.index]),
+      [
+        ['user-1', 0],
+        ['user-3', 2],
+        ['user-4', 3],
+      ]
+    );
+
+    const engine = new QueryEngine(new NodeDataLoader(incrementalOutputDir));
+    const all = await engine.executeQuery([]);
+    assert.deepStrictEqual(
+      all.records.map(record => record.id),
+      ['user-1', 'user-3', 'user-4']
+    );
+    const active = await engine.executeQuery([
+      { field: 'status', operator: QueryOperator.EQUALS, value: 'active' },
+    ]);
+    assert.deepStrictEqual(active.records.map(record => record.id).sort(), ['user-1', 'user-4']);
+  });
+
+  test('should copy the index entries of unchanged records', async () => {
+    await build(testData);
+    const statusPath = path.join(incrementalOutputDir, 'indexes', 'status.json');
+    const readEntries = () =>
+      JSON.parse(fs.readFileSync(statusPath, 'utf8')).entries as Array<{
+        value: string;
+        marker?: boolean;
+      }>;
+
+    // Mark every entry, then move user-1 from "active" to "pending"
+    const index = JSON.parse(fs.readFileSync(statusPath, 'utf8'));
+    index.entries.forEach((entry: { marker?: boolean }) => (entry.marker = true));
+    fs.writeFileSync(statusPath, JSON.stringify(index));
+    await build(withChanges(records => (records[0].status = 'pending')));
+
+    const marked = readEntries()
+      .filter(entry => entry.marker)
+      .map(entry => entry.value);
+    assert.deepStrictEqual(marked, ['inactive'], 'Only the unchanged entry should be copied');
+    assert.deepStrictEqual(
+      readEntries()
+        .map(entry => entry.value)
+        .sort(),
+      ['active', 'inactive', 'pending']
+    );
+  });
+
+  test('should rebuild the indexes when index options change', async () => {
+    const paging = { indexFields: ['id', 'name'], maxIndexValues: 1, indexPageSize: 1 };
+    await build(testData, paging);
+    const pagesDir = path.join(incrementalOutputDir, 'indexes', 'pages', 'name');
+    assert.strictEqual(fs.readdirSync(pagesDir).length, 3);
+    const record = backdate('data', '000', 'user-1.json');
+
+    // Larger pages are not split at the bounds of the previous pages
+    const result = await build(testData, { ...paging, indexPageSize: 2 });
+    assert.strictEqual(result.incremental, true);
+    assert(!wasRewritten(record), 'Data files should still be updated incrementally');
+    assert.strictEqual(fs.readdirSync(pagesDir).length, 2);
+  });
+
+  test('should fall back to a full build when the file layout changes', async () => {
+    await build(testData);
+
+    const result = await build(testData, { batchSize: 2 });
+    assert.strictEqual(result.incremental, false);
+  });
+});
+
+describe('Multi-Collection Build Tests', () => {
+  const collectionsInputPath = './test-collections-input.json';
+  const collectionsOutputDir = './test-collections-output';
+
+  const catalog = {
+    artists: [
+      { id: 'artist-1', name: 'John Avon', cardIds: ['card-1', 'card-2'] },
+      { id: 'artist-2', name: 'Rebecca Guay', cardIds: ['card-3'] },
+    ],
+    sets: [{ code: 'BRO', name: "The Brothers' War", year: 2022 }],
+    cards: [
+      { id: 'card-1', name: 'Island', artistId: 'artist-1', set: 'BRO', cost: 0 },
+      { id: 'card-2', name: 'Swamp', artistId: 'artist-1', set: 'BRO', cost: 0 },
+      { id: 'card-3', name: 'Llanowar Elves', artistId: 'artist-2', set: 'BRO', cost: 1 },
+    ],
+    meta: { exportedAt: '2023-06-01' },
+  };
+
+  before(() => {
+    fs.writeFileSync(collectionsInputPath, JSON.stringify(catalog, null, 2));
+  });
+
+  afterEach(() => {
+    fs.rmSync(collectionsOutputDir, { recursive: true, force: true });
+  });
+
+  after(() => {
+    if (fs.existsSync(collectionsInputPath)) {
+      fs.unlinkSync(collectionsInputPath);
+    }
+  });
+
+  test('should build every top-level array as a collection', async () => {
+    const builder = new AntipatternBuilder({
+      outputDir: collectionsOutputDir,
+      collections: true,
+      primaryKeys: { sets: 'code' },
+      streaming: false,
+      verbose: false,
+    });
+
+    // Count how often the whole input is parsed
+    const input = fs.readFileSync(collectionsInputPath, 'utf8');
+    const parse = JSON.parse;
+    let inputParses = 0;
+    JSON.parse = ((text: string, reviver?: Parameters<typeof parse>[1]) => {
+      if (text === input) inputParses++;
+      return parse(text, reviver);
+    }) as typeof JSON.parse;
+
+    let result;
+    try {
+      result = await builder.build(collectionsInputPath);
+    } finally {
+      JSON.parse = parse;
+    }
+    assert.strictEqual(inputParses, 1, 'The input should be parsed once for all collections');
+    assert.strictEqual(result.totalRecords, 6);
+    assert.ok(result.collections);
+    assert.deepStrictEqual(Object.keys(result.collections), ['artists', 'sets', 'cards']);
+
+    for (const name of ['artists', 'sets', 'cards']) {
+      for (const file of ['schema.ts', 'types.ts', 'metadata.json', 'split-metadata.json']) {
+        assert(
+          fs.existsSync(path.join(collectionsOutputDir, name, file)),
+          `Should generate ${name}/${file}`
+        );
+      }
+      assert(fs.existsSync(path.join(collectionsOutputDir, name, 'indexes', '_primary.json')));
+    }
+
+    const { collections } = JSON.parse(
+      fs.readFileSync(path.join(collectionsOutputDir, 'collections.json'), 'utf8')
+    );
+    assert.deepStrictEqual(collections[1], {
+      name: 'sets',
+      primaryKeyField: 'code',
+      totalRecords: 1,
+    });
+
+    const cardsSchema = fs.readFileSync(
+      path.join(collectionsOutputDir, 'cards', 'schema.ts'),
+      'utf8'
+    );
+    assert(cardsSchema.includes('artistId'), 'Each collection should get its own schema');
+
+    const client = fs.readFileSync(path.join(collectionsOutputDir, 'client.ts'), 'utf8');
+    assert(client.includes('artists: new BrowserTypedDatabaseClient<ArtistsRecord'));
+    assert(client.includes("import { RecordSchema as SetsSchema } from './sets/schema.js';"));
+
+    assert.strictEqual(await builder.validate(), true);
+  });
+
+  test('should stream selected collections and query them separately', async () => {
+    const builder = new AntipatternBuilder({
+      outputDir: collectionsOutputDir,
+      collections: ['artists', 'cards'],
+      streaming: true,
+      verbose: false,
+    });
+
+    const result = await builder.build(collectionsInputPath);
+    assert.ok(result.collections);
+    assert.strictEqual(result.collections.artists.totalRecords, 2);
+    assert.strictEqual(result.collections.cards.totalRecords, 3);
+    assert(!fs.existsSync(path.join(collectionsOutputDir, 'sets')));
+
+    const cards = new AntipatternDB(path.join(collectionsOutputDir, 'cards'));
+    await cards.init();
+    const elves = await cards.query().where('cost').equals(1).exec();
+    assert.deepStrictEqual(
+      elves.records.map(card => card.name),
+      ['Llanowar Elves']
+    );
+  });
+
+  test('should resolve relations between collections with include()', async () => {
+    const builder = new AntipatternBuilder({
+      outputDir: collectionsOutputDir,
+      collections: ['artists', 'cards'],
+      relations: [
+        { collection: 'cards', name: 'artist', field: 'artistId', target: 'artists' },
+        { collection: 'artists', name: 'cards', field: 'cardIds', target: 'cards' },
+      ],
+      verbose: false,
+    });
+    await builder.build(collectionsInputPath);
+
+    const { collections } = JSON.parse(
+      fs.readFileSync(path.join(collectionsOutputDir, 'collections.json'), 'utf8')
+    );
+    assert.deepStrictEqual(collections[1].relations, [
+      { name: 'artist', field: 'artistId', target: 'artists' },
+    ]);
+
+    const client = fs.readFileSync(path.join(collectionsOutputDir, 'client.ts'), 'utf8');
+    assert(
+      client.includes("artist: RelatedRecord<PathValue<CardsRecord, 'artistId'>, ArtistsRecord>;"),
+      'Should type the relation from the generated record types'
+    );
+    assert(
+      client.includes("artist: { field: 'artistId', target: (): RecordSource => db.artists }")
+    );
+
+    const ArtistSchema = z.object({
+      id: z.string(),
+      name: z.string(),
+      cardIds: z.array(z.string()),
+    });
+    const CardSchema = z.object({
+      id: z.string(),
+      name: z.string(),
+      artistId: z.string(),
+      cost: z.number(),
+    });
+    type Artist = z.infer<typeof ArtistSchema>;
+    type Card = z.infer<typeof CardSchema>;
+    const artists: TypedDatabaseClient<Artist, typeof ArtistSchema, { cards: Card[] }> =
+      new TypedDatabaseClient(path.join(collectionsOutputDir, 'artists'), ArtistSchema, {
+        cards: { field: 'cardIds', target: () => cards },
+      });
+    const cards: TypedDatabaseClient<Card, typeof CardSchema, { artist: Artist | null }> =
+      new TypedDatabaseClient(path.join(collectionsOutputDir, 'cards'), CardSchema, {
+        artist: { field: 'artistId', target: () => artists },
+      });
+    assert.strictEqual(cards.validate(await cards.get('card-3')).artistId, 'artist-2');
+
+    const elves = await cards.query().where('cost').equals(1).include('artist').exec();
+    assert.strictEqual(elves.records[0].artist?.name, 'Rebecca Guay');
+
+    const selected = await cards
+      .query()
+      .where('cost')
+      .equals(0)
+      .select('name')
+      .include('artist')
+      .exec();
+    assert.deepStrictEqual(
+      Object.keys(selected.records[0]),
+      ['name', 'artist'],
+      'Foreign keys needed by include() should not be returned unless selected'
+    );
+    assert.strictEqual(selected.records[0].artist?.name, 'John Avon');
+
+    const avon = await artists.query().where('name').equals('John Avon').include('cards').exec();
+    assert.deepStrictEqual(
+      avon.records[0].cards.map(card => card.name),
+      ['Island', 'Swamp']
+    );
+
+    await assert.rejects(
+      () =>
+        new AntipatternBuilder({
+          outputDir: collectionsOutputDir,
+          collections: ['cards'],
+          relations: [
+            { collection: 'cards', name: 'artist', field: 'artistId', target: 'artists' },
+          ],
+          verbose: false,
+        }).build(collectionsInputPath),
+      /unknown collection "artists"/
+    );
+  });
+
+  test('should build a single named collection instead of the largest', async () => {
+    for (const streaming of [false, true]) {
+      const reader = new RecordReader(collectionsInputPath, { collection: 'artists', streaming });
+      const records = [];
+      for await (const record of reader.records()) {
+        records.push(record);
+      }
+      assert.strictEqual(records.length, 2, `Should read artists (streaming: ${streaming})`);
+    }
+
+    const builder = new AntipatternBuilder({
+      outputDir: collectionsOutputDir,
+      collection: 'missing',
+      verbose: false,
+    });
+    await assert.rejects(
+      () => builder.build(collectionsInputPath),
+      /Collection "missing" not found/
+    );
+  });
+});
+
+describe('Paged Index Tests', () => {
+  const pagedInputPath = './test-paged-input.json';
+  const pagedOutputDir = './test-paged-output';
+
+  // Nine distinct scores (one null) and SKUs mixing numbers and strings
+  const items = Array.from({ length: 9 }, (_, i) => ({
+    id: `item-${i}`,
+    score: i < 8 ? i * 10 : null,
+    sku: i % 2 === 0 ? i : `B-${i}`,
+  }));
+
+  before(async () => {
+    fs.writeFileSync(pagedInputPath, JSON.stringify(items, null, 2));
+
+    const builder = new AntipatternBuilder({
+      outputDir: pagedOutputDir,
+      indexFields: ['score', 'sku'],
+      maxIndexValues: 4,
+      indexPageSize: 3,
+      verbose: false,
+    });
+    await builder.build(pagedInputPath);
+  });
+
+  after(() => {
+    fs.rmSync(pagedOutputDir, { recursive: true, force: true });
+    if (fs.existsSync(pagedInputPath)) {
+      fs.unlinkSync(pagedInputPath);
+    }
+  });
+
+  test('should split indexes of high-cardinality fields into pages', () => {
+    const indexesDir = path.join(pagedOutputDir, 'indexes');
+    const scoreIndex = JSON.parse(fs.readFileSync(path.join(indexesDir, 'score.json'), 'utf8'));
+    assert.strictEqual(scoreIndex.paging, 'range');
+    assert.strictEqual(scoreIndex.entries, undefined);
+    assert.deepStrictEqual(
+      scoreIndex.pages.map((page: { min: unknown; max: unknown }) => [page.min, page.max]),
+      [
+        [0, 20],
+        [30, 50],
+        [60, 70],
+        [null, null],
+      ]
+    );
+    assert.deepStrictEqual(fs.readdirSync(path.join(indexesDir, 'pages', 'score')).sort(), [
+      '0.json',
+      '1.json',
+      '2.json',
+      '3.json',
+    ]);
+
+    const skuIndex = JSON.parse(fs.readFileSync(path.join(indexesDir, 'sku.json'), 'utf8'));
+    assert.strictEqual(skuIndex.paging, 'hash');
+    assert.strictEqual(skuIndex.pages.length, 3);
+
+    const metadata = JSON.parse(
+      fs.readFileSync(path.join(pagedOutputDir, 'metadata.json'), 'utf8')
+    );
+    const scoreInfo = metadata.indexes.find((idx: { field: string }) => idx.field === 'score');
+    assert.strictEqual(scoreInfo.paging, 'range');
+    assert.strictEqual(scoreInfo.pages, 4);
+  });
+
+  test('should only load the index pages that can hold matching values', async () => {
+    // Record the index pages read by each lookup
+    const loader = new NodeDataLoader(pagedOutputDir);
+    let loaded: string[] = [];
+    const loadIndexPage = loader.loadIndexPage.bind(loader);
+    loader.loadIndexPage = (field, page) => {
+      loaded.push(`${field}/${page}`);
+      return loadIndexPage(field, page);
+    };
+
+    const lookup = async (filter: QueryFilter) => {
+      loaded = [];
+      const result = await new QueryEngine(loader).executeQuery([filter]);
+      return result.records.map(record => record.id).sort();
+    };
+
+    assert.deepStrictEqual(
+      await lookup({ field: 'score', operator: QueryOperator.EQUALS, value: 40 }),
+      ['item-4']
+    );
+    assert.deepStrictEqual(loaded, ['score/1']);
+
+    assert.deepStrictEqual(
+      await lookup({ field: 'score', operator: QueryOperator.GREATER_THAN, value: 45 }),
+      ['item-5', 'item-6', 'item-7']
+    );
+    assert.deepStrictEqual(loaded, ['score/1', 'score/2']);
+
+    assert.deepStrictEqual(
+      await lookup({ field: 'score', operator: QueryOperator.BETWEEN, value: [15, 35] }),
+      ['item-2', 'item-3']
+    );
+    assert.deepStrictEqual(loaded, ['score/0', 'score/1']);
+
+    assert.deepStrictEqual(
+      await lookup({ field: 'score', operator: QueryOperator.EQUALS, value: null }),
+      ['item-8']
+    );
+    assert.deepStrictEqual(loaded, ['score/3']);
+
+    assert.deepStrictEqual(
+      await lookup({ field: 'sku', operator: QueryOperator.IN, value: [4, 'B-7', 'B-8'] }),
+      ['item-4', 'item-7']
+    );
+    assert(loaded.length <= 3 && loaded.every(page => page.startsWith('sku/')));
+  });
+
+  test('should only rewrite the changed pages in incremental builds', async () => {
+    const inputPath = './test-paged-incremental-input.json';
+    const outputDir = './test-paged-incremental-output';
+    const oldTime = new Date('2000-01-01T00:00:00Z');
+    const build = async (records: unknown[]) => {
+      fs.writeFileSync(inputPath, JSON.stringify(records, null, 2));
+      await new AntipatternBuilder({
+        outputDir,
+        indexFields: ['score', 'sku'],
+        maxIndexValues: 4,
+        indexPageSize: 3,
+        incremental: true,
+        verbose: false,
+      }).build(inputPath);
+    };
+    const pageFiles = (field: string) => {
+      const dir = path.join(outputDir, 'indexes', 'pages', field);
+      return fs.readdirSync(dir).map(file => path.join(dir, file));
+    };
+
+    try {
+      await build(items);
+      const files = [...pageFiles('score'), ...pageFiles('sku')];
+      files.forEach(file => fs.utimesSync(file, oldTime, oldTime));
+
+      // A value before every other one only changes the first score page
+      await build([...items, { id: 'item-9', score: 5, sku: 'B-9' }]);
+      const rewritten = files.filter(file => fs.statSync(file).mtimeMs !== oldTime.getTime());
+      assert.deepStrictEqual(
+        rewritten.filter(file => file.includes(`${path.sep}score${path.sep}`)),
+        [path.join(outputDir, 'indexes', 'pages', 'score', '0.json')]
+      );
+      assert.strictEqual(
+        rewritten.filter(file => file.includes(`${path.sep}sku${path.sep}`)).length,
+        1,
+        'Only the hash page of the new SKU should be rewritten'
+      );
+
+      const scoreIndex = JSON.parse(
+        fs.readFileSync(path.join(outputDir, 'indexes', 'score.json'), 'utf8')
+      );
+      assert.deepStrictEqual(
+        scoreIndex.pages.map((page: { min: unknown; max: unknown }) => [page.min, page.max]),
+        [
+          [0, 20],
+          [30, 50],
+          [60, 70],
+          [null, null],
+        ]
+      );
+      const skuIndex = JSON.parse(
+        fs.readFileSync(path.join(outputDir, 'indexes', 'sku.json'), 'utf8')
+      );
+      assert.strictEqual(skuIndex.pages.length, 3);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      fs.rmSync(inputPath, { force: true });
+    }
+  });
+});
@@ -3,7 +3,16 @@ import { strict as assert } from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 import { AntipatternBuilder } from '../src/builder/index.js';
-import { AntipatternDB } from '../src/runtime/query-client.js';
+import { AntipatternDB, QueryBuilder } from '../src/runtime/query-client.js';
+import { TypedDatabaseClient } from '../src/runtime/typed-client.js';
+import { avg, max, min, sum } from '../src/runtime/core/aggregation.js';
+import { QueryEngine, QueryOperator } from '../src/runtime/core/query-engine.js';
+import { NodeDataLoader } from '../src/runtime/adapters/node-data-loader.js';
+import { BrowserAntipatternDB } from '../src/runtime/browser-client.js';
+import { createBrowserTypedClient } from '../src/runtime/browser-typed-client.js';
+import { distanceKm, geohash } from '../src/runtime/core/geo.js';
+import { encodeCursor } from '../src/runtime/core/cursor.js';
+import { RecordBitmap } from '../src/runtime/core/bitmap.js';
 
 // Test data with complex structure to test all features
 const testData = [
@@ -123,7 +132,19 @@ describe('Integration Tests', () => {
       outputDir: testOutputDir,
       primaryKeyField: 'id',
       batchSize: 2, // Test batch mode
-      indexFields: ['id', 'status', 'age', 'roles', 'tags', 'profile.preferences.theme'],
+      indexFields: [
+        'id',
+        'status',
+        'age',
+        'joinedAt',
+        'roles',
+        'tags',
+        'profile.preferences.theme',
+      ],
+      textFields: ['name', 'profile.bio'],
+      textAnalyzer: { stemming: true, synonyms: { designer: ['artist'] } },
+      fuzzyFields: ['name', 'tags'],
+      compositeIndexes: [['status', 'profile.preferences.theme']],
       verbose: false, // Keep output clean for test
     });
 
@@ -152,6 +173,52 @@ describe('Integration Tests', () => {
     assert(stats?.indexes.length > 0, 'Should have indexes');
   });
 
+  test('should compute field statistics at build time', async () => {
+    const age = await db.getFieldStats('age');
+    assert.deepStrictEqual(
+      { ...age, histogram: age?.histogram?.map(bucket => bucket.count) },
+      {
+        field: 'age',
+        count: 5,
+        nullCount: 0,
+        uniqueValues: 5,
+        topValues: [26, 28, 31, 35, 42].map(value => ({ value, count: 1 })),
+        range: 'number',
+        min: 26,
+        max: 42,
+        mean: 32.4,
+        histogram: [1, 1, 0, 1, 0, 1, 0, 0, 0, 1],
+      }
+    );
+    assert.deepStrictEqual(age?.histogram?.[0], { min: 26, max: 27.6, count: 1 });
+
+    const joinedAt = await db.getFieldStats('joinedAt');
+    assert.strictEqual(joinedAt?.range, 'date');
+    assert.strictEqual(joinedAt?.min, '2022-12-01T09:15:00.000Z');
+    assert.strictEqual(joinedAt?.max, '2023-06-01T11:20:00.000Z');
+    assert.strictEqual(joinedAt?.mean, undefined);
+
+    // Arrays count each record once per element; nulls are left out of the values
+    const roles = await db.getFieldStats('roles');
+    assert.deepStrictEqual(roles?.topValues, [
+      { value: 'user', count: 5 },
+      { value: 'admin', count: 2 },
+      { value: 'moderator', count: 2 },
+    ]);
+    assert.strictEqual(roles?.histogram, undefined);
+    // String fields get lexicographic bounds but no mean
+    assert.deepStrictEqual([roles?.min, roles?.max, roles?.mean], ['admin', 'user', undefined]);
+    const website = await db.getFieldStats('profile.website');
+    assert.deepStrictEqual([website?.count, website?.nullCount], [4, 1]);
+
+    assert.strictEqual(await db.getFieldStats('profile'), null);
+    assert.strictEqual(await db.getFieldStats('missing'), null);
+
+    // The planner estimates range filters from the histogram
+    const explanation = await db.query().where('age').greaterThan(40).explain();
+    assert.strictEqual(explanation.estimatedRows, 1);
+  });
+
   test('should retrieve individual records', async () => {
     const user1 = await db.get('user-1');
     assert(user1 !== null, 'Should find user-1');
@@ -252,4 +319,1291 @@ describe('Integration Tests', () => {
       'Should be Diana (31, admin, active)'
     );
   });
+
+  test('should combine conditions with or()', async () => {
+    const result = await db
+      .query()
+      .or(
+        q => q.where('status').equals('pending'),
+        q => q.where('profile.preferences.theme').equals('dark')
+      )
+      .sort('age', 'asc')
+      .exec();
+
+    assert.deepStrictEqual(
+      result.records.map(record => record.id),
+      ['user-5', 'user-1', 'user-4'],
+      'Should find pending users and dark theme users'
+    );
+  });
+
+  test('should exclude records with not()', async () => {
+    const notActive = await db
+      .query()
+      .not(q => q.where('status').equals('active'))
+      .exec();
+    assert.deepStrictEqual(notActive.records.map(record => record.id).sort(), ['user-3', 'user-5']);
+
+    // Array fields are not negated from the index, records are checked instead
+    const notAdmin = await db
+      .query()
+      .not(q => q.where('roles').contains('admin'))
+      .exec();
+    assert.strictEqual(notAdmin.totalCount, 3, 'Should find 3 users without the admin role');
+  });
+
+  test('should evaluate nested groups', async () => {
+    // active AND (admin OR NOT (age < 40 AND light theme))
+    const result = await db
+      .query()
+      .where('status')
+      .equals('active')
+      .or(
+        q => q.where('roles').contains('admin'),
+        q =>
+          q.not(inner =>
+            inner.where('age').lessThan(40).where('profile.preferences.theme').equals('light')
+          )
+      )
+      .exec();
+
+    assert.deepStrictEqual(result.records.map(record => record.id).sort(), ['user-1', 'user-4']);
+
+    const grouped = await db
+      .query()
+      .or(
+        q => q.and(inner => inner.where('age').greaterThan(40).where('status').equals('inactive')),
+        q => q.where('tags').contains('python')
+      )
+      .exec();
+    assert.deepStrictEqual(grouped.records.map(record => record.id).sort(), ['user-3', 'user-5']);
+  });
+
+  test('should count groups from the index without loading records', async () => {
+    const byStatus = await db.query().groupBy('status').aggregate({ count: true });
+    assert.strictEqual(byStatus.fromIndex, true, 'Counts should come from the status index');
+    assert.deepStrictEqual(byStatus.groups, [
+      { status: 'active', count: 3 },
+      { status: 'inactive', count: 1 },
+      { status: 'pending', count: 1 },
+    ]);
+
+    const activeRoles = await db
+      .query()
+      .where('status')
+      .equals('active')
+      .groupBy('roles')
+      .aggregate({ users: true });
+    assert.strictEqual(activeRoles.fromIndex, true);
+    assert.strictEqual(activeRoles.totalCount, 3);
+    assert.deepStrictEqual(activeRoles.groups, [
+      { roles: 'admin', users: 2 },
+      { roles: 'moderator', users: 2 },
+      { roles: 'user', users: 3 },
+    ]);
+  });
+
+  test('should compute sum, avg, min and max from records', async () => {
+    const result = await db
+      .query()
+      .groupBy('status')
+      .aggregate({ count: true, avgAge: avg('age'), oldest: max('age'), youngest: min('age') });
+
+    assert.strictEqual(result.fromIndex, false);
+    assert.deepStrictEqual(result.groups[0], {
+      status: 'active',
+      count: 3,
+      avgAge: (28 + 35 + 31) / 3,
+      oldest: 35,
+      youngest: 28,
+    });
+
+    const total = await db
+      .query()
+      .where('age')
+      .greaterThan(30)
+      .aggregate({ total: sum('age') });
+    assert.deepStrictEqual(total.groups, [{ total: 35 + 42 + 31 }]);
+
+    // Fields without an index are grouped from the loaded records
+    const byWebsite = await db.query().groupBy('profile.website').aggregate({ count: true });
+    assert.strictEqual(byWebsite.fromIndex, false);
+    assert.strictEqual(byWebsite.groups.length, 5);
+    assert.deepStrictEqual(byWebsite.groups[4], { 'profile.website': null, count: 1 });
+  });
+
+  test('should type aggregation results', async () => {
+    type User = (typeof testData)[number];
+    const users = new TypedDatabaseClient<User>(testOutputDir);
+
+    const { groups } = await users
+      .query()
+      .groupBy('status')
+      .aggregate({ count: true, avgAge: avg('age'), oldest: max('age') });
+
+    const status: string | null = groups[0].status;
+    const count: number = groups[0].count;
+    const avgAge: number | null = groups[0].avgAge;
+    const oldest: number | null = groups[0].oldest;
+    assert.deepStrictEqual([status, count, oldest], ['active', 3, 35]);
+    assert(avgAge !== null && avgAge > 31);
+
+    // Aggregated fields are checked against the record type
+    const invalidAggregate = () =>
+      // @ts-expect-error 'nonExistent' is not a field of User
+      users.query().aggregate({ total: sum('nonExistent') });
+    assert.strictEqual(typeof invalidAggregate, 'function');
+  });
+
+  test('should count facet values among the matching records', async () => {
+    const result = await db.query().where('age').lessThan(40).facets(['status', 'roles']);
+
+    assert.strictEqual(result.totalCount, 4);
+    assert.deepStrictEqual(result.facets.status, [
+      { value: 'active', count: 3 },
+      { value: 'pending', count: 1 },
+    ]);
+    assert.deepStrictEqual(result.facets.roles, [
+      { value: 'user', count: 4 },
+      { value: 'admin', count: 2 },
+      { value: 'moderator', count: 2 },
+    ]);
+
+    // Filters that need record checks and fields without an index still produce facets
+    const notAdmins = await db
+      .query()
+      .not(q => q.where('roles').contains('admin'))
+      .facets(['status', 'profile.website']);
+    assert.deepStrictEqual(notAdmins.facets.status, [
+      { value: 'active', count: 1 },
+      { value: 'inactive', count: 1 },
+      { value: 'pending', count: 1 },
+    ]);
+    assert.strictEqual(notAdmins.facets['profile.website'].length, 2, 'Null values are skipped');
+  });
+
+  test('should list distinct values', async () => {
+    const themes = await db.query().distinct('profile.preferences.theme');
+    assert.deepStrictEqual(themes, ['auto', 'dark', 'light']);
+
+    type User = (typeof testData)[number];
+    const users = new TypedDatabaseClient<User>(testOutputDir);
+    const tags: string[] = await users.query().where('status').equals('active').distinct('tags');
+    assert.deepStrictEqual(tags, [
+      'aws',
+      'developer',
+      'devops',
+      'kubernetes',
+      'product',
+      'react',
+      'strategy',
+      'typescript',
+    ]);
+
+    const { facets } = await users.query().facets(['age']);
+    const youngest: number = facets.age.sort((a, b) => a.value - b.value)[0].value;
+    assert.strictEqual(youngest, 26);
+  });
+
+  test('should return only selected fields', async () => {
+    type User = (typeof testData)[number];
+    const users = new TypedDatabaseClient<User>(testOutputDir);
+
+    const result = await users
+      .query()
+      .where('status')
+      .equals('active')
+      .select('id', 'name', 'profile.preferences.theme')
+      .sort('age', 'desc')
+      .exec();
+
+    assert.deepStrictEqual(result.records[0], {
+      id: 'user-2',
+      name: 'Bob Smith',
+      profile: { preferences: { theme: 'light' } },
+    });
+    const theme: string = result.records[0].profile.preferences.theme;
+    assert.strictEqual(theme, 'light');
+    // @ts-expect-error Unselected fields are not part of the result type
+    assert.strictEqual(result.records[0].email, undefined);
+
+    // The record cache keeps full records for later queries
+    const full = await users.get('user-2');
+    assert.strictEqual(full?.email, 'bob@example.com');
+  });
+
+  test('should page with cursors in a stable order', async () => {
+    type User = (typeof testData)[number];
+    const users = new TypedDatabaseClient<User>(testOutputDir);
+
+    // Status has ties, which are ordered by primary key
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const query = users.query().sort('status').limit(2);
+      const page = await (cursor ? query.after(cursor) : query).exec();
+      assert.strictEqual(page.totalCount, 5);
+      ids.push(...page.records.map(record => record.id));
+      cursor = page.nextCursor;
+      assert.strictEqual(!!cursor, page.hasMore);
+    } while (cursor);
+
+    assert.deepStrictEqual(ids, ['user-1', 'user-2', 'user-4', 'user-3', 'user-5']);
+  });
+
+  test('should reject cursors from another query order', async () => {
+    const page = await db.query().sort('age', 'desc').limit(2).exec();
+    assert.ok(page.nextCursor);
+
+    await assert.rejects(
+      db.query().sort('age').limit(2).after(page.nextCursor).exec(),
+      /cannot be used with sort "age:asc,id:asc"/
+    );
+    await assert.rejects(db.query().limit(2).after('not-a-cursor').exec(), /Invalid cursor/);
+
+    await assert.rejects(
+      db
+        .query()
+        .limit(2)
+        .after(encodeCursor({ sort: 'id:asc', values: [{ id: 'user-1' }] }))
+        .exec(),
+      /Invalid cursor .*sort values must be/
+    );
+    await assert.rejects(
+      db
+        .query()
+        .limit(2)
+        .after(encodeCursor({ sort: 'id:asc', values: [] }))
+        .exec(),
+      /Invalid cursor .*expected 1 sort values, got 0/
+    );
+  });
+
+  test('should resume unsorted pages after a rebuild removes records', async () => {
+    const inputPath = './test-cursor-rebuild-input.json';
+    const outputDir = './test-cursor-rebuild-db';
+    const build = async (records: object[]) => {
+      fs.writeFileSync(inputPath, JSON.stringify(records));
+      await new AntipatternBuilder({
+        outputDir,
+        primaryKeyField: 'id',
+        batchSize: 2,
+        indexFields: ['id'],
+        verbose: false,
+      }).build(inputPath);
+      const rebuilt = new AntipatternDB(outputDir);
+      await rebuilt.init();
+      return rebuilt;
+    };
+
+    try {
+      const records = ['r0', 'r1', 'r2', 'r3', 'r4', 'r5'].map(id => ({ id }));
+      const first = await (await build(records)).query().limit(3).exec();
+      assert.deepStrictEqual(
+        first.records.map(record => record.id),
+        ['r0', 'r1', 'r2']
+      );
+      assert.ok(first.nextCursor);
+
+      const rebuilt = await build(records.slice(1));
+      const next = await rebuilt.query().limit(3).after(first.nextCursor).exec();
+      assert.deepStrictEqual(
+        next.records.map(record => record.id),
+        ['r3', 'r4', 'r5']
+      );
+      assert.strictEqual(next.hasMore, false);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      fs.rmSync(inputPath, { force: true });
+    }
+  });
+
+  test('should stream matching records in storage order', async () => {
+    type User = (typeof testData)[number];
+    const users = new TypedDatabaseClient<User>(testOutputDir);
+
+    const ids: string[] = [];
+    for await (const user of users.query().where('status').equals('active')) {
+      ids.push(user.id);
+    }
+    assert.deepStrictEqual(ids, ['user-1', 'user-2', 'user-4']);
+
+    // Early break stops loading further files
+    const first: string[] = [];
+    for await (const user of db.query().where('age').greaterThan(30)) {
+      first.push(user.id);
+      break;
+    }
+    assert.deepStrictEqual(first, ['user-2']);
+
+    const names: string[] = [];
+    for await (const user of users.query().select('name').offset(1).limit(2)) {
+      assert.deepStrictEqual(Object.keys(user), ['name']);
+      names.push(user.name);
+    }
+    assert.deepStrictEqual(names, ['Bob Smith', 'Charlie Brown']);
+  });
+
+  test('should not stream sorted queries', async () => {
+    await assert.rejects(async () => {
+      for await (const user of db.query().sort('age')) {
+        assert.fail(`Unexpected record ${user.id}`);
+      }
+    }, /Sorted queries cannot be streamed/);
+  });
+
+  test('should explain the query plan', async () => {
+    const explanation = await db
+      .query()
+      .where('name')
+      .startsWith('B')
+      .where('status')
+      .equals('active')
+      .where('id')
+      .equals('user-2')
+      .explain();
+
+    // The most selective index is read first; the unindexed filter is checked on records
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => child.type === 'filter' && child.field),
+      ['id', 'status', 'name']
+    );
+    assert.deepStrictEqual(
+      explanation.indexedFilters.map(filter => filter.field),
+      ['id', 'status']
+    );
+    assert.deepStrictEqual(
+      explanation.scannedFilters.map(filter => filter.field),
+      ['name']
+    );
+    assert.strictEqual(explanation.estimatedRows, 1);
+    assert.strictEqual(explanation.candidateRows, 1);
+    assert.strictEqual(explanation.actualRows, 1);
+
+    // Lookups stop once no candidates remain
+    const empty = await db
+      .query()
+      .where('status')
+      .equals('active')
+      .where('id')
+      .equals('user-9')
+      .explain();
+    assert.deepStrictEqual(
+      empty.plan.children.map(child => child.actualRows),
+      [0, undefined]
+    );
+    assert.strictEqual(empty.actualRows, 0);
+  });
+
+  test('should scan or() groups with an unindexed branch', async () => {
+    const explanation = await db
+      .query()
+      .or(
+        q => q.where('status').equals('pending'),
+        q => q.where('email').endsWith('@example.com')
+      )
+      .explain();
+
+    assert.deepStrictEqual(explanation.indexedFilters, []);
+    assert.strictEqual(explanation.scannedFilters.length, 2);
+    assert.strictEqual(explanation.candidateRows, 5);
+    assert.strictEqual(explanation.actualRows, 5);
+  });
+
+  test('should only load the records of an index-ordered page', async () => {
+    // Count the records read from data files
+    const loader = new NodeDataLoader(testOutputDir);
+    let loaded = 0;
+    const loadRecord = loader.loadRecord.bind(loader);
+    loader.loadRecord = (...args) => {
+      loaded++;
+      return loadRecord(...args);
+    };
+    const engine = new QueryEngine(loader);
+
+    const youngest = await engine.executeQuery([], {
+      sort: [{ field: 'age', direction: 'asc' }],
+      limit: 2,
+    });
+    assert.deepStrictEqual(
+      youngest.records.map(record => record.id),
+      ['user-5', 'user-1']
+    );
+    assert.strictEqual(youngest.totalCount, 5);
+    assert.strictEqual(loaded, 2);
+
+    const oldestActive = await engine.executeQuery(
+      [{ field: 'status', operator: QueryOperator.EQUALS, value: 'active' }],
+      { sort: [{ field: 'age', direction: 'desc' }], limit: 1 }
+    );
+    assert.deepStrictEqual(
+      oldestActive.records.map(record => record.id),
+      ['user-2']
+    );
+    assert.strictEqual(oldestActive.totalCount, 3);
+    assert.strictEqual(oldestActive.hasMore, true);
+    assert.strictEqual(loaded, 3);
+
+    // Without a sort order, pages follow primary key order
+    const next = await engine.executeQuery([], { limit: 2, offset: 2 });
+    assert.deepStrictEqual(
+      next.records.map(record => record.id),
+      ['user-3', 'user-4']
+    );
+    assert.strictEqual(next.totalCount, 5);
+    assert.strictEqual(loaded, 5);
+
+    // Filters the indexes cannot resolve are checked on every candidate to count them
+    const unindexed = new QueryEngine(loader);
+    loaded = 0;
+    const byEmail = { field: 'email', operator: QueryOperator.ENDS_WITH, value: '.com' };
+    const first = await unindexed.executeQuery([byEmail], { limit: 2 });
+    assert.deepStrictEqual(
+      first.records.map(record => record.id),
+      ['user-1', 'user-2']
+    );
+    assert.strictEqual(first.hasMore, true);
+    assert.strictEqual(first.totalCount, 5);
+    assert.strictEqual(loaded, 5);
+
+    const rest = await unindexed.executeQuery([byEmail], { limit: 2, after: first.nextCursor });
+    assert.deepStrictEqual(
+      rest.records.map(record => record.id),
+      ['user-3', 'user-4']
+    );
+  });
+
+  test('should answer range filters from value-sorted indexes', async () => {
+    const stats = await db.getStats();
+    const indexInfo = (field: string) => stats?.indexes.find(idx => idx.field === field);
+    assert.strictEqual(indexInfo('age')?.range, 'number');
+    assert.strictEqual(indexInfo('joinedAt')?.range, 'date');
+
+    const ids = async (query: QueryBuilder) =>
+      (await query.exec()).records.map(record => record.id).sort();
+    const expected = (predicate: (user: (typeof testData)[number]) => boolean) =>
+      testData
+        .filter(predicate)
+        .map(user => user.id)
+        .sort();
+
+    for (const age of [20, 26, 30, 31, 42, 50]) {
+      assert.deepStrictEqual(
+        await ids(db.query().where('age').greaterThan(age)),
+        expected(user => user.age > age)
+      );
+      assert.deepStrictEqual(
+        await ids(db.query().where('age').greaterThanOrEqual(age)),
+        expected(user => user.age >= age)
+      );
+      assert.deepStrictEqual(
+        await ids(db.query().where('age').lessThan(age)),
+        expected(user => user.age < age)
+      );
+      assert.deepStrictEqual(
+        await ids(db.query().where('age').lessThanOrEqual(age)),
+        expected(user => user.age <= age)
+      );
+      assert.deepStrictEqual(
+        await ids(db.query().where('age').equals(age)),
+        expected(user => user.age === age)
+      );
+    }
+
+    assert.deepStrictEqual(await ids(db.query().where('age').between(28, 35)), [
+      'user-1',
+      'user-2',
+      'user-4',
+    ]);
+    assert.deepStrictEqual(
+      await ids(db.query().where('joinedAt').between('2023-01-01', '2023-03-01')),
+      ['user-1', 'user-2']
+    );
+  });
+
+  test('should rank full-text search results by relevance', async () => {
+    const result = await db.query().search('engineers');
+    assert.deepStrictEqual(
+      result.hits.map(hit => hit.record.id),
+      ['user-1', 'user-4']
+    );
+    assert.strictEqual(result.totalCount, 2);
+    assert.deepStrictEqual(result.hits[0].highlights, {
+      'profile.bio': 'Software <mark>Engineer</mark>',
+    });
+
+    // Records matching more terms rank first; boosts weigh fields
+    const ranked = await db.query().search('diana engineer');
+    assert.deepStrictEqual(
+      ranked.hits.map(hit => hit.record.id),
+      ['user-4', 'user-1']
+    );
+    const boosted = await db
+      .query()
+      .search('diana engineer', { fields: ['profile.bio'], highlight: { pre: '[', post: ']' } });
+    assert.deepStrictEqual(
+      boosted.hits.map(hit => hit.highlights),
+      [{ 'profile.bio': 'Software [Engineer]' }, { 'profile.bio': 'DevOps [Engineer]' }]
+    );
+    assert(
+      (await db.query().search('diana engineer', { boost: { name: 3 } })).hits[0].score >
+        ranked.hits[0].score
+    );
+
+    // Synonyms expand the query
+    const synonyms = await db.query().search('artist');
+    assert.deepStrictEqual(
+      synonyms.hits.map(hit => hit.record.id),
+      ['user-3']
+    );
+  });
+
+  test('should combine full-text search with filters and paging', async () => {
+    const active = await db.query().where('status').equals('active').search('engineer designer');
+    assert.deepStrictEqual(
+      active.hits.map(hit => hit.record.id),
+      ['user-1', 'user-4']
+    );
+
+    const page = await db.query().limit(1).search('engineer');
+    assert.strictEqual(page.hits.length, 1);
+    assert.strictEqual(page.totalCount, 2);
+    assert.strictEqual(page.hasMore, true);
+
+    type User = (typeof testData)[number];
+    const typed = new TypedDatabaseClient<User>(testOutputDir);
+    const selected = await typed
+      .query()
+      .select('name')
+      .search('bob', { fields: ['name'] });
+    assert.deepStrictEqual(
+      selected.hits.map(hit => hit.record),
+      [{ name: 'Bob Smith' }]
+    );
+
+    await assert.rejects(() => db.query().search('x', { fields: ['email'] }), /No full-text index/);
+    await assert.rejects(() => db.query().sort('age').search('engineer'), /ordered by relevance/);
+  });
+
+  test('should match misspelled values from the trigram index', async () => {
+    const result = await db.query().fuzzy('name', 'alise jonson');
+    assert.deepStrictEqual(
+      result.hits.map(({ record, value, distance }) => [record.id, value, distance]),
+      [['user-1', 'Alice Johnson', 2]]
+    );
+    assert.strictEqual(
+      (await db.query().fuzzy('name', 'alise jonson', { maxDistance: 1 })).totalCount,
+      0
+    );
+
+    // Closest values first
+    const ranked = await db.query().fuzzy('name', 'Bob Smyth', { maxDistance: 10 });
+    assert.strictEqual(ranked.hits[0].value, 'Bob Smith');
+    assert.strictEqual(ranked.hits[0].distance, 1);
+    const distances = ranked.hits.map(hit => hit.distance);
+    assert.deepStrictEqual(
+      distances,
+      [...distances].sort((a, b) => a - b)
+    );
+
+    // Array elements are matched one by one, alongside the filters
+    const tags = await db.query().where('status').equals('active').fuzzy('tags', 'typscript');
+    assert.deepStrictEqual(
+      tags.hits.map(hit => [hit.record.id, hit.value]),
+      [['user-1', 'typescript']]
+    );
+
+    await assert.rejects(() => db.query().fuzzy('email', 'bob'), /No trigram index/);
+  });
+
+  test('should match misspelled values in the browser from static files', async () => {
+    // Serve the database directory like a static file host
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string) => {
+      const filePath = path.join(testOutputDir, url.replace('https://cdn.test/db/', ''));
+      return fs.existsSync(filePath)
+        ? new Response(fs.readFileSync(filePath, 'utf8'))
+        : new Response(null, { status: 404 });
+    }) as typeof globalThis.fetch;
+
+    try {
+      const browserDb = new BrowserAntipatternDB('https://cdn.test/db/');
+      await browserDb.init();
+      const result = await browserDb.query().limit(1).fuzzy('name', 'Dianna Prinse');
+      assert.deepStrictEqual(
+        result.hits.map(hit => [hit.record.id, hit.distance]),
+        [['user-4', 2]]
+      );
+      assert.strictEqual(result.hasMore, false);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('should filter typed browser queries from static files', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string) => {
+      const filePath = path.join(testOutputDir, url.replace('https://cdn.test/db/', ''));
+      return fs.existsSync(filePath)
+        ? new Response(fs.readFileSync(filePath, 'utf8'))
+        : new Response(null, { status: 404 });
+    }) as typeof globalThis.fetch;
+
+    try {
+      const browserDb = createBrowserTypedClient<(typeof testData)[number]>('https://cdn.test/db/');
+      const active = await browserDb.query().where('status').equals('active').exec();
+      assert.deepStrictEqual(active.records.map(record => record.id).sort(), [
+        'user-1',
+        'user-2',
+        'user-4',
+      ]);
+
+      // The hooks receive the same conditions as the query
+      const counts = await browserDb
+        .query()
+        .where('age')
+        .greaterThan(30)
+        .groupBy('status')
+        .aggregate({ count: true });
+      assert.deepStrictEqual(counts.groups, [
+        { status: 'active', count: 2 },
+        { status: 'inactive', count: 1 },
+      ]);
+      const plan = await browserDb.query().where('roles').contains('admin').explain();
+      assert.strictEqual(plan.actualRows, 2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('should answer equality filters on all fields from a composite index', async () => {
+    const stats = await db.getStats();
+    assert.deepStrictEqual(stats?.compositeIndexes, [
+      { fields: ['status', 'profile.preferences.theme'], uniqueValues: 4, coverage: 1 },
+    ]);
+
+    const query = () =>
+      db
+        .query()
+        .where('profile.preferences.theme')
+        .equals('dark')
+        .where('age')
+        .greaterThan(30)
+        .where('status')
+        .equals('active');
+    assert.deepStrictEqual(
+      (await query().exec()).records.map(record => record.id),
+      ['user-4']
+    );
+
+    const explanation = await query().explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.type, child.actualRows]),
+      [
+        ['composite', 2],
+        ['filter', 3],
+      ]
+    );
+    assert.deepStrictEqual(
+      explanation.indexedFilters.map(filter => [filter.field, filter.value]),
+      [
+        ['status', 'active'],
+        ['profile.preferences.theme', 'dark'],
+        ['age', 30],
+      ]
+    );
+
+    // Other operators keep using the single-field indexes
+    const partial = await db
+      .query()
+      .where('status')
+      .equals('active')
+      .where('profile.preferences.theme')
+      .in(['dark'])
+      .explain();
+    assert(partial.plan.children.every(child => child.type === 'filter'));
+    assert.strictEqual(partial.actualRows, 2);
+  });
+
+  test('should read indexes built before bitmaps', async () => {
+    // Rewrite the indexes in the format that listed record IDs, without indexFormat
+    const legacyDir = './test-integration-legacy-db';
+    fs.rmSync(legacyDir, { recursive: true, force: true });
+    fs.cpSync(testOutputDir, legacyDir, { recursive: true });
+    const readJSON = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+    const primary: Array<{ id: string; index: number }> = readJSON(
+      path.join(legacyDir, 'indexes', '_primary.json')
+    ).entries;
+    const idsByOrdinal = new Map(primary.map(entry => [entry.index, entry.id]));
+    const toLegacy = (file: string) => {
+      const index = readJSON(file);
+      index.entries = index.entries.map((entry: { bitmap: string }) => ({
+        ...entry,
+        count: undefined,
+        bitmap: undefined,
+        recordIds: Array.from(RecordBitmap.deserialize(entry.bitmap), ordinal =>
+          idsByOrdinal.get(ordinal)
+        ),
+      }));
+      fs.writeFileSync(file, JSON.stringify(index));
+    };
+    toLegacy(path.join(legacyDir, 'indexes', 'status.json'));
+    toLegacy(path.join(legacyDir, 'indexes', 'age.json'));
+    toLegacy(path.join(legacyDir, 'indexes', 'composite', 'status+profile.preferences.theme.json'));
+    const metadataPath = path.join(legacyDir, 'metadata.json');
+    const metadata = { ...readJSON(metadataPath), indexFormat: undefined };
+    fs.writeFileSync(metadataPath, JSON.stringify(metadata));
+
+    try {
+      const legacy = new AntipatternDB(legacyDir);
+      await legacy.init();
+
+      const query = () =>
+        legacy
+          .query()
+          .where('profile.preferences.theme')
+          .equals('dark')
+          .where('age')
+          .greaterThan(30)
+          .where('status')
+          .equals('active');
+      assert.deepStrictEqual(
+        (await query().exec()).records.map(record => record.id),
+        ['user-4']
+      );
+      const explanation = await query().explain();
+      assert.deepStrictEqual(explanation.scannedFilters, []);
+      assert.deepStrictEqual(
+        explanation.plan.children.map(child => [child.type, child.actualRows]),
+        [
+          ['composite', 2],
+          ['filter', 3],
+        ]
+      );
+
+      const counts = await legacy.query().groupBy('status').aggregate({ count: true });
+      assert.strictEqual(counts.fromIndex, true);
+      assert.deepStrictEqual(counts.groups, [
+        { status: 'active', count: 3 },
+        { status: 'inactive', count: 1 },
+        { status: 'pending', count: 1 },
+      ]);
+
+      // Databases with a newer format than the client are rejected
+      fs.writeFileSync(metadataPath, JSON.stringify({ ...metadata, indexFormat: 99 }));
+      await assert.rejects(new AntipatternDB(legacyDir).init(), /format 99.*rebuild/);
+    } finally {
+      fs.rmSync(legacyDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Collation Tests', () => {
+  const inputPath = './test-collation-input.json';
+  const outputDir = './test-collation-db';
+  const people = [
+    { id: 'p1', name: 'José', city: 'Zürich', visits: [{ city: 'Zürich' }, { city: 'bern' }] },
+    { id: 'p2', name: 'jose', city: 'zurich', visits: [{ city: 'Bern' }] },
+    { id: 'p3', name: 'JOSE', city: 'Basel', visits: [] },
+    { id: 'p4', name: 'Josefina', city: 'ZÜRICH', visits: [{ city: 'Basel' }] },
+    { id: 'p5', name: 'Jöran', city: 'Genève', visits: [{ city: 'Genf' }] },
+  ];
+  let db: AntipatternDB;
+
+  before(async () => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.writeFileSync(inputPath, JSON.stringify(people));
+    await new AntipatternBuilder({
+      outputDir,
+      indexFields: ['id', 'name', 'city'],
+      collatedFields: ['name'],
+      verbose: false,
+    }).build(inputPath);
+    db = new AntipatternDB(outputDir);
+    await db.init();
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.rmSync(inputPath, { force: true });
+  });
+
+  const ids = (result: { records: Array<{ id?: unknown }> }) =>
+    result.records.map(record => record.id).sort();
+
+  test('should build collated indexes of folded values', async () => {
+    const stats = await db.getStats();
+    assert.deepStrictEqual(stats?.collatedIndexes, [
+      {
+        field: 'name',
+        collation: { caseInsensitive: true, accentInsensitive: true },
+        uniqueValues: 3,
+      },
+    ]);
+
+    const index = JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'indexes', 'collated', 'name.json'), 'utf8')
+    );
+    const jose = index.entries.find((entry: { value: string }) => entry.value === 'jose');
+    assert.strictEqual(jose.count, 3);
+  });
+
+  test('should compare values exactly unless a collation is given', async () => {
+    assert.deepStrictEqual(ids(await db.query().where('name').equals('Jose').exec()), []);
+
+    const query = () =>
+      db.query().collate({ caseInsensitive: true, accentInsensitive: true }).where('name');
+    assert.deepStrictEqual(ids(await query().equals('Jose').exec()), ['p1', 'p2', 'p3']);
+    assert.deepStrictEqual(ids(await query().startsWith('JO').exec()), [
+      'p1',
+      'p2',
+      'p3',
+      'p4',
+      'p5',
+    ]);
+    assert.deepStrictEqual(ids(await query().in(['joran']).exec()), ['p5']);
+
+    // The folded keys of the collated index answer the filter without loading records
+    const explanation = await query().equals('Jose').explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.strategy, child.exact, child.actualRows]),
+      [['index', true, 3]]
+    );
+    assert.deepStrictEqual(explanation.indexedFilters[0].collation, {
+      caseInsensitive: true,
+      accentInsensitive: true,
+    });
+  });
+
+  test('should check records when the collated index folds more than the filter', async () => {
+    const query = () => db.query().where('name').equals('jose', { caseInsensitive: true });
+    assert.deepStrictEqual(ids(await query().exec()), ['p2', 'p3']);
+
+    // 'José' shares the folded key, so the index lookup is a superset
+    const explanation = await query().explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.strategy, child.exact, child.actualRows]),
+      [['index', false, 3]]
+    );
+    assert.strictEqual(explanation.actualRows, 2);
+  });
+
+  test('should fold the values of field indexes without a collated index', async () => {
+    const query = () =>
+      db.query().where('city').equals('ZURICH', { caseInsensitive: true, accentInsensitive: true });
+    assert.deepStrictEqual(ids(await query().exec()), ['p1', 'p2', 'p4']);
+
+    const explanation = await query().explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.strategy, child.exact]),
+      [['index', true]]
+    );
+
+    // Applies to the filters of groups too
+    const either = await db
+      .query()
+      .collate({ accentInsensitive: true })
+      .or(
+        q => q.where('city').equals('Geneve'),
+        q => q.where('name').equals('Joran')
+      )
+      .exec();
+    assert.deepStrictEqual(ids(either), ['p5']);
+  });
+
+  test('should apply collations to array element filters', async () => {
+    const users = new TypedDatabaseClient<(typeof people)[number]>(outputDir);
+    const exact = await users
+      .query()
+      .where('id')
+      .equals('p1')
+      .where('visits.city')
+      .equals('Bern')
+      .exec();
+    assert.deepStrictEqual(exact.records[0].visits, []);
+
+    const folded = await users
+      .query()
+      .collate({ caseInsensitive: true })
+      .where('id')
+      .equals('p1')
+      .where('visits.city')
+      .equals('Bern')
+      .exec();
+    assert.deepStrictEqual(folded.records[0].visits, [{ city: 'bern' }]);
+  });
+});
+
+describe('Geo Query Tests', () => {
+  const inputPath = './test-geo-input.json';
+  const outputDir = './test-geo-db';
+  const places = [
+    { id: 'berlin', country: 'DE', location: { lat: 52.52, lng: 13.405 } },
+    { id: 'potsdam', country: 'DE', location: { type: 'Point', coordinates: [13.065, 52.39] } },
+    { id: 'hamburg', country: 'DE', location: { latitude: 53.55, longitude: 9.99 } },
+    { id: 'munich', country: 'DE', location: { lat: 48.14, lng: 11.58 } },
+    { id: 'paris', country: 'FR', location: { lat: 48.86, lng: 2.35 } },
+    { id: 'suva', country: 'FJ', lat: -18.14, lng: 178.44 },
+    { id: 'apia', country: 'WS', lat: -13.83, lng: -171.76 },
+    { id: 'nowhere', country: 'XX', location: { lat: 'north', lng: 200 } },
+  ];
+  const berlin = { lat: 52.52, lng: 13.405 };
+  let db: AntipatternDB;
+
+  before(async () => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.writeFileSync(inputPath, JSON.stringify(places));
+    await new AntipatternBuilder({
+      outputDir,
+      indexFields: ['id', 'country'],
+      geoFields: ['location', 'lat+lng'],
+      verbose: false,
+    }).build(inputPath);
+    db = new AntipatternDB(outputDir);
+    await db.init();
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.rmSync(inputPath, { force: true });
+  });
+
+  const ids = (result: { records: Array<{ id?: unknown }> }) =>
+    result.records.map(record => record.id).sort();
+
+  test('should index valid points in geohash order', async () => {
+    assert.strictEqual(geohash({ lat: 57.64911, lng: 10.40744 }, 11), 'u4pruydqqvj');
+
+    const stats = await db.getStats();
+    assert.deepStrictEqual(stats?.geoIndexes, [
+      { field: 'location', points: 5 },
+      { field: 'lat+lng', points: 2 },
+    ]);
+    const index = JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'indexes', 'geo', 'location.json'), 'utf8')
+    );
+    const hashes = index.points.map((point: [string]) => point[0]);
+    assert.deepStrictEqual(hashes, [...hashes].sort());
+  });
+
+  test('should find records within a radius from the geo index', async () => {
+    const query = () => db.query().withinRadius('location', berlin, 30);
+    assert.deepStrictEqual(ids(await query().exec()), ['berlin', 'potsdam']);
+
+    const explanation = await query().explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.strategy, child.exact, child.actualRows]),
+      [['index', true, 2]]
+    );
+
+    // Combined with other filters
+    const outside = await db
+      .query()
+      .withinRadius('location', berlin, 600)
+      .not(q => q.where('id').equals('berlin'))
+      .exec();
+    assert.deepStrictEqual(ids(outside), ['hamburg', 'munich', 'potsdam']);
+
+    assert.throws(
+      () => db.query().withinRadius('location', { lat: 91, lng: 0 }, 5),
+      /Invalid point/
+    );
+    assert.throws(() => db.query().withinRadius('location', berlin, -1), /non-negative/);
+  });
+
+  test('should find records within a box, across the antimeridian', async () => {
+    const germany = await db
+      .query()
+      .withinBox('location', { lat: 47, lng: 5 }, { lat: 55, lng: 15 })
+      .exec();
+    assert.deepStrictEqual(ids(germany), ['berlin', 'hamburg', 'munich', 'potsdam']);
+
+    const pacific = await db
+      .query()
+      .withinBox('lat+lng', { lat: -20, lng: 170 }, { lat: -10, lng: -170 })
+      .exec();
+    assert.deepStrictEqual(ids(pacific), ['apia', 'suva']);
+  });
+
+  test('should return the nearest matching records, closest first', async () => {
+    const nearest = await db.query().nearest('location', berlin, 3);
+    assert.deepStrictEqual(
+      nearest.hits.map(hit => hit.record.id),
+      ['berlin', 'potsdam', 'hamburg']
+    );
+    assert.strictEqual(nearest.hits[0].distance, 0);
+    assert.strictEqual(nearest.hits[2].distance, distanceKm(berlin, { lat: 53.55, lng: 9.99 }));
+    assert.strictEqual(nearest.hasMore, true);
+
+    const french = await db.query().where('country').equals('FR').nearest('location', berlin, 3);
+    assert.deepStrictEqual(
+      french.hits.map(hit => hit.record.id),
+      ['paris']
+    );
+    assert.strictEqual(french.hasMore, false);
+
+    const close = await db.query().nearest('location', berlin, 10, { maxDistance: 100 });
+    assert.deepStrictEqual(
+      close.hits.map(hit => hit.record.id),
+      ['berlin', 'potsdam']
+    );
+
+    // Across the antimeridian, from coordinate fields
+    const users = new TypedDatabaseClient<(typeof places)[number]>(outputDir);
+    const pacific = await users.query().select('id').nearest('lat+lng', { lat: -15, lng: 179 }, 1);
+    assert.deepStrictEqual(
+      pacific.hits.map(hit => hit.record),
+      [{ id: 'suva' }]
+    );
+  });
+});
+
+describe('Autocompletion Tests', () => {
+  const inputPath = './test-prefix-input.json';
+  const outputDir = './test-prefix-db';
+  const cities = [
+    'Berlin',
+    'Bern',
+    'Bern',
+    'bergen',
+    'Bergen',
+    'Bergen',
+    'Bordeaux',
+    'Boston',
+    'Boston',
+    'Boston',
+    'Oslo',
+  ];
+  const places = cities.map((city, i) => ({ id: `place-${i}`, city, tags: [city.slice(0, 3)] }));
+  let db: AntipatternDB;
+
+  before(async () => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.writeFileSync(inputPath, JSON.stringify(places));
+    await new AntipatternBuilder({
+      outputDir,
+      prefixFields: ['city', 'tags'],
+      verbose: false,
+    }).build(inputPath);
+    db = new AntipatternDB(outputDir);
+    await db.init();
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.rmSync(inputPath, { force: true });
+  });
+
+  test('should shard prefix indexes by their first characters', async () => {
+    const stats = await db.getStats();
+    assert.deepStrictEqual(stats?.prefixIndexes, [
+      { field: 'city', uniqueValues: 7, shards: 3 },
+      { field: 'tags', uniqueValues: 5, shards: 3 },
+    ]);
+
+    const index = JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'indexes', 'prefix', 'city.json'), 'utf8')
+    );
+    assert.deepStrictEqual(
+      index.shards.map((shard: { key: string; values: number }) => [shard.key, shard.values]),
+      [
+        ['be', 4],
+        ['bo', 2],
+        ['os', 1],
+      ]
+    );
+    assert.deepStrictEqual(fs.readdirSync(path.join(outputDir, 'indexes', 'prefix', 'city')), [
+      '0.json',
+      '1.json',
+      '2.json',
+    ]);
+  });
+
+  test('should suggest the most frequent completions, ignoring case', async () => {
+    assert.deepStrictEqual(await db.suggest('city', 'BER'), [
+      { value: 'Bergen', count: 2 },
+      { value: 'Bern', count: 2 },
+      { value: 'Berlin', count: 1 },
+      { value: 'bergen', count: 1 },
+    ]);
+    assert.deepStrictEqual(await db.suggest('city', 'b', { limit: 2 }), [
+      { value: 'Boston', count: 3 },
+      { value: 'Bergen', count: 2 },
+    ]);
+    assert.deepStrictEqual(await db.suggest('city', 'x'), []);
+
+    const typed = new TypedDatabaseClient<(typeof places)[number]>(outputDir);
+    assert.deepStrictEqual(await typed.suggest('city', 'os'), [{ value: 'Oslo', count: 1 }]);
+
+    await assert.rejects(db.suggest('id', 'place'), /No prefix index for field "id"/);
+    await assert.rejects(db.suggest('city', 'b', { limit: -1 }), /non-negative integer/);
+  });
+
+  test('should only load the shards a prefix can fall in', async () => {
+    const loader = new NodeDataLoader(outputDir);
+    const shards: number[] = [];
+    const loadPrefixShard = loader.loadPrefixShard.bind(loader);
+    loader.loadPrefixShard = (field, shard) => {
+      shards.push(shard);
+      return loadPrefixShard(field, shard);
+    };
+    const engine = new QueryEngine(loader);
+
+    await engine.suggest('city', 'bos');
+    assert.deepStrictEqual(shards, [1]);
+
+    // Shorter prefixes span every shard they start, which stay cached
+    await engine.suggest('city', 'b');
+    await engine.suggest('city', 'bo');
+    assert.deepStrictEqual(shards, [1, 0]);
+  });
+
+  test('should answer startsWith filters from the prefix index', async () => {
+    const query = () => db.query().where('city').startsWith('Ber');
+    assert.deepStrictEqual((await query().exec()).records.map(record => record.city).sort(), [
+      'Bergen',
+      'Bergen',
+      'Berlin',
+      'Bern',
+      'Bern',
+    ]);
+
+    const explanation = await query().explain();
+    assert.deepStrictEqual(
+      explanation.plan.children.map(child => [child.strategy, child.exact, child.actualRows]),
+      [['index', true, 5]]
+    );
+
+    // Array elements match in the index, but only whole values match the filter
+    const tags = await db.query().where('tags').startsWith('Bo').explain();
+    assert.strictEqual(tags.plan.children[0].exact, false);
+    assert.strictEqual(tags.actualRows, 0);
+
+    // Collated filters fold the values of the field index instead
+    const folded = await db
+      .query()
+      .where('city')
+      .startsWith('ber', { caseInsensitive: true })
+      .exec();
+    assert.strictEqual(folded.totalCount, 6);
+  });
+});
+
+describe('Element Match Tests', () => {
+  const inputPath = './test-element-input.json';
+  const outputDir = './test-element-db';
+  const artists = [
+    {
+      id: 'avon',
+      cards: [
+        { name: 'Island', set: 'BRO', rarity: 'common' },
+        { name: 'Sol Ring', set: 'CMR', rarity: 'mythic' },
+      ],
+    },
+    {
+      id: 'guay',
+      cards: [
+        { name: 'Urza', set: 'BRO', rarity: 'mythic' },
+        { name: 'Mishra', set: 'BRO', rarity: 'mythic' },
+        { name: 'Forest', set: 'BRO', rarity: 'common' },
+      ],
+    },
+    { id: 'terese', cards: [{ name: 'Opt', set: 'DMU', rarity: 'common' }] },
+  ];
+  let db: AntipatternDB;
+
+  before(async () => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.writeFileSync(inputPath, JSON.stringify(artists));
+    await new AntipatternBuilder({ outputDir, verbose: false }).build(inputPath);
+    db = new AntipatternDB(outputDir);
+    await db.init();
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.rmSync(inputPath, { force: true });
+  });
+
+  const ids = (result: { records: Array<{ id?: unknown }> }) =>
+    result.records.map(record => record.id).sort();
+  const mythicBro = (card: QueryBuilder) =>
+    card.where('set').equals('BRO').where('rarity').equals('mythic');
+
+  test('should require a single element to match all conditions', async () => {
+    // Separate filters are met by different cards of 'avon'
+    const separate = await db
+      .query()
+      .where('cards[].set')
+      .equals('BRO')
+      .where('cards[].rarity')
+      .equals('mythic')
+      .exec();
+    assert.deepStrictEqual(ids(separate), ['avon', 'guay']);
+
+    const result = await db.query().whereElement('cards', mythicBro).exec();
+    assert.deepStrictEqual(ids(result), ['guay']);
+    assert.strictEqual(result.records[0].cards.length, 3);
+
+    // Negations apply to the same element
+    const notBro = await db
+      .query()
+      .whereElement('cards', card =>
+        card
+          .where('rarity')
+          .equals('common')
+          .not(q => q.where('set').equals('BRO'))
+      )
+      .exec();
+    assert.deepStrictEqual(ids(notBro), ['terese']);
+  });
+
+  test('should return only the matching elements', async () => {
+    const result = await db.query().whereElement('cards', mythicBro, { onlyMatching: true }).exec();
+    assert.deepStrictEqual(result.records, [
+      {
+        id: 'guay',
+        cards: [
+          { name: 'Urza', set: 'BRO', rarity: 'mythic' },
+          { name: 'Mishra', set: 'BRO', rarity: 'mythic' },
+        ],
+      },
+    ]);
+    // The stored records are unchanged
+    assert.strictEqual((await db.get<(typeof artists)[number]>('guay'))?.cards.length, 3);
+  });
+
+  test('should narrow element matches with the element field indexes', async () => {
+    const explanation = await db.query().whereElement('cards', mythicBro).explain();
+    const [element] = explanation.plan.children;
+    assert.strictEqual(element.type, 'element');
+    assert.strictEqual(element.strategy, 'index');
+    assert.strictEqual(element.exact, false);
+    assert.deepStrictEqual(explanation.indexedFilters.map(filter => filter.field).sort(), [
+      'cards[].rarity',
+      'cards[].set',
+    ]);
+    assert.strictEqual(explanation.candidateRows, 2);
+    assert.strictEqual(explanation.actualRows, 1);
+  });
+
+  test('should build element matches with the typed builder', async () => {
+    const typed = new TypedDatabaseClient<(typeof artists)[number]>(outputDir);
+    const result = await typed
+      .query()
+      .whereElement(
+        'cards',
+        card => card.where('set').equals('BRO').where('rarity').equals('common'),
+        { onlyMatching: true }
+      )
+      .select('id', 'cards')
+      .exec();
+    assert.deepStrictEqual(
+      result.records.map(record => [record.id, record.cards.map(card => card.name)]),
+      [
+        ['avon', ['Island']],
+        ['guay', ['Forest']],
+      ]
+    );
+  });
 });
@@ -1,7 +1,7 @@
 import { test, describe } from 'node:test';
 import { strict as assert } from 'assert';
 import { TypeSafeQueryBuilder, FieldPaths } from '../src/runtime/typed-query-builder.js';
-import { QueryResult, QueryFilter, QueryOptions } from '../src/runtime/query-client.js';
+import { QueryResult, QueryCondition, QueryOptions } from '../src/runtime/query-client.js';
 
 // Test record types
 interface TestUser {
@@ -34,7 +34,7 @@ interface SimpleRecord {
 describe('Type Safety Features', () => {
   // Mock execute function for testing
   const mockExecute = async (
-    _filters: QueryFilter[],
+    _filters: QueryCondition[],
     _options?: QueryOptions
   ): Promise<QueryResult<TestUser>> => {
     return {
@@ -110,7 +110,9 @@ describe('Type Safety Features', () => {
   });
 
   test('should work with simple record types', () => {
-    const simpleExecute = async (_filters: QueryFilter[]): Promise<QueryResult<SimpleRecord>> => {
+    const simpleExecute = async (
+      _filters: QueryCondition[]
+    ): Promise<QueryResult<SimpleRecord>> => {
       return { records: [], totalCount: 0, hasMore: false, executionTime: 1 };
     };
 
@@ -184,6 +186,74 @@ describe('Type Safety Features', () => {
       builder.whereEquals('profile.preferences.theme', 'dark');
     });
   });
+
+  test('should build or() and not() groups as record-level conditions', async () => {
+    let received: QueryCondition[] = [];
+    const builder = new TypeSafeQueryBuilder<TestUser>(async filters => {
+      received = filters;
+      return { records: [], totalCount: 0, hasMore: false, executionTime: 0 };
+    });
+
+    const result = await builder
+      .where('isActive')
+      .equals(true)
+      .or(
+        q => q.where('age').greaterThan(65),
+        q => q.not(inner => inner.where('profile.bio').equals(''))
+      )
+      .exec();
+
+    assert.strictEqual(result.arrayFiltersApplied, undefined, 'Group paths are not array filters');
+    assert.deepStrictEqual(received, [
+      { field: 'isActive', operator: 'EQUALS', value: true },
+      {
+        type: 'or',
+        conditions: [
+          { type: 'and', conditions: [{ field: 'age', operator: 'GREATER_THAN', value: 65 }] },
+          {
+            type: 'and',
+            conditions: [
+              {
+                type: 'not',
+                conditions: [{ field: 'profile.bio', operator: 'EQUALS', value: '' }],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('should attach included relations to the results', async () => {
+    const users: TestUser[] = [
+      { id: '1', name: 'Ann' } as TestUser,
+      { id: '2', name: 'Bob' } as TestUser,
+    ];
+    const execute = async (): Promise<QueryResult<TestUser>> => ({
+      records: users,
+      totalCount: users.length,
+      hasMore: false,
+      executionTime: 0,
+    });
+    const requested: string[] = [];
+
+    const builder = new TypeSafeQueryBuilder<TestUser, { manager: SimpleRecord | null }>(execute, {
+      resolveInclude: async (records, relation) => {
+        requested.push(relation);
+        return records.map(record => ({ ...record, [relation]: null }));
+      },
+    });
+
+    const result = await builder.where('isActive').equals(true).include('manager').exec();
+    assert.deepStrictEqual(requested, ['manager']);
+    assert.strictEqual(result.records[0].manager, null);
+    assert.strictEqual(result.records[1].name, 'Bob');
+
+    assert.throws(
+      () => new TypeSafeQueryBuilder<TestUser, { manager: null }>(execute).include('manager'),
+      /no relations are declared/
+    );
+  });
 });
 
 // Type-level tests (these test compile-time behavior)